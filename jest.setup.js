@@ -0,0 +1,3 @@
+// Tests run offline against the fixture catalog
+process.env.VIDEO_PROVIDER = "fixtures";
+process.env.VIDEO_FIXTURES_DIR = require("path").resolve(__dirname, "fixtures/videos");
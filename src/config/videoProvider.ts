@@ -0,0 +1,39 @@
+// api/config/videoProvider.ts
+import { VideoProvider } from "../providers/videoProvider";
+import pexelsProvider from "../providers/pexels.provider";
+import { createFixtureProvider } from "../providers/fixture.provider";
+
+const path = require("path");
+
+/**
+ * Selects the video catalog used by the whole API.
+ *
+ * Reads `VIDEO_PROVIDER`:
+ * - `pexels` (default): the Pexels API, requires `PEXELS_API_KEY`.
+ * - `fixtures`: JSON files from `VIDEO_FIXTURES_DIR` (default `fixtures/videos`, relative to the
+ *   working directory), for offline development and tests.
+ *
+ * @function selectVideoProvider
+ * @returns {VideoProvider} The configured provider; unknown values fall back to Pexels.
+ */
+const selectVideoProvider = (): VideoProvider => {
+  const name = (process.env.VIDEO_PROVIDER || "pexels").toLowerCase();
+
+  if (name === "fixtures") {
+    return createFixtureProvider(path.resolve(process.env.VIDEO_FIXTURES_DIR || "fixtures/videos"));
+  }
+  if (name !== "pexels") {
+    console.error(`Unknown VIDEO_PROVIDER "${name}", using pexels`);
+  }
+  if (!process.env.PEXELS_API_KEY) {
+    console.error("PEXELS_API_KEY is not defined; set VIDEO_PROVIDER=fixtures to work offline");
+  }
+  return pexelsProvider;
+};
+
+/**
+ * The video provider selected at startup.
+ *
+ * @type {VideoProvider}
+ */
+export const videoProvider = selectVideoProvider();
@@ -0,0 +1,137 @@
+/**
+ * @file accessToken.controller.ts
+ * @description Controller functions for users to manage their personal access tokens.
+ */
+
+import { Request, Response, NextFunction } from "express";
+import AccessToken from "../models/accessToken.model";
+import { ACCESS_TOKEN_SCOPES, generateAccessToken } from "../utils/accessTokens";
+
+/**
+ * Longest lifetime, in days, accepted for a personal access token.
+ */
+const MAX_EXPIRATION_DAYS = 365;
+
+/**
+ * Creates a personal access token for the authenticated user.
+ *
+ * @function createAccessToken
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} req.body.name - Label of the token (required).
+ * @param {string[]} req.body.scopes - Granted scopes (at least one of `ACCESS_TOKEN_SCOPES`).
+ * @param {number} [req.body.expiresInDays] - Lifetime in days (1-365); omit for a token that never expires.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Responds with HTTP 201 and the plain `token`, which is never shown again (only its hash is stored).
+ * - Responds with HTTP 400 for a missing name, unknown scopes, or an invalid expiration.
+ */
+export async function createAccessToken(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { name, scopes, expiresInDays } = req.body;
+
+    if (!name || typeof name !== "string") {
+      return res.status(400).json({ message: "El nombre del token es requerido" });
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0 || scopes.some((scope) => !ACCESS_TOKEN_SCOPES.includes(scope))) {
+      return res.status(400).json({ message: "Permisos inválidos", allowed: ACCESS_TOKEN_SCOPES });
+    }
+
+    let expiresAt: Date | undefined;
+    if (expiresInDays !== undefined && expiresInDays !== null) {
+      const days = Number(expiresInDays);
+      if (!Number.isInteger(days) || days < 1 || days > MAX_EXPIRATION_DAYS) {
+        return res.status(400).json({ message: `La expiración debe estar entre 1 y ${MAX_EXPIRATION_DAYS} días` });
+      }
+      expiresAt = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+    }
+
+    const { token, tokenHash, prefix } = generateAccessToken();
+
+    const accessToken = await AccessToken.create({
+      userId: req.user.userId,
+      name,
+      tokenHash,
+      prefix,
+      scopes: [...new Set(scopes)],
+      expiresAt,
+    });
+
+    res.status(201).json({
+      message: "Token creado. Cópialo ahora, no se volverá a mostrar",
+      token,
+      accessToken: {
+        _id: accessToken._id,
+        name: accessToken.name,
+        prefix: accessToken.prefix,
+        scopes: accessToken.scopes,
+        expiresAt: accessToken.expiresAt,
+        createdAt: accessToken.createdAt,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Lists the authenticated user's active personal access tokens.
+ *
+ * @function listAccessTokens
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Omits token hashes; includes expired tokens so the user can clean them up.
+ */
+export async function listAccessTokens(req: Request, res: Response, next: NextFunction) {
+  try {
+    const tokens = await AccessToken.find({ userId: req.user.userId, revokedAt: null })
+      .select("name prefix scopes expiresAt lastUsedAt createdAt")
+      .sort({ createdAt: -1 });
+
+    res.json(tokens);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Revokes one of the authenticated user's personal access tokens.
+ *
+ * @function revokeAccessToken
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} req.params.id - Token identifier.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Responds with HTTP 404 if the token does not exist, belongs to another user, or is already revoked.
+ */
+export async function revokeAccessToken(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    if (!/^[a-f\d]{24}$/i.test(id)) {
+      return res.status(404).json({ message: "Token no encontrado" });
+    }
+
+    const result = await AccessToken.updateOne(
+      { _id: id, userId: req.user.userId, revokedAt: null },
+      { $set: { revokedAt: new Date() } }
+    );
+    if (!result.modifiedCount) {
+      return res.status(404).json({ message: "Token no encontrado" });
+    }
+
+    res.json({ message: "Token revocado" });
+  } catch (error) {
+    next(error);
+  }
+}
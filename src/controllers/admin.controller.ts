@@ -0,0 +1,185 @@
+/**
+ * @file admin.controller.ts
+ * @description Controller functions for administrators to manage user accounts and roles, and to
+ * monitor the Pexels quota.
+ * The first administrator must be promoted directly in the database (`role: "admin"`).
+ */
+
+import { Request, Response, NextFunction } from "express";
+import User, { USER_PRIVATE_FIELDS, USER_ROLES } from "../models/user.model";
+import { purgeAccount } from "../utils/accountDeletion";
+import { getPexelsStatus } from "../utils/pexelsClient";
+
+const OBJECT_ID_REGEX = /^[a-f\d]{24}$/i;
+
+/**
+ * Lists users with optional filters and pagination.
+ *
+ * @function listUsers
+ * @async
+ * @param {Request} req - Express request object.
+ * @param {string} [req.query.search] - Case-insensitive text matched against name and email.
+ * @param {string} [req.query.role] - Only users with this role.
+ * @param {number} [req.query.page=1] - Page number.
+ * @param {number} [req.query.limit=20] - Page size (1-100).
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Omits sensitive fields (`USER_PRIVATE_FIELDS`).
+ * - Responds with HTTP 200 and `{ users, total, page, limit }`.
+ */
+export async function listUsers(req: Request, res: Response, next: NextFunction) {
+  try {
+    const page = Math.max(parseInt(req.query.page as string) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 20, 1), 100);
+    const filter: Record<string, unknown> = {};
+
+    if (req.query.role) {
+      filter.role = req.query.role;
+    }
+    if (req.query.search) {
+      const pattern = new RegExp(String(req.query.search).replace(/[.*+?^${}()|[\]\\]/g, "\\$&"), "i");
+      filter.$or = [{ firstName: pattern }, { lastName: pattern }, { email: pattern }];
+    }
+
+    const [users, total] = await Promise.all([
+      User.find(filter)
+        .select(USER_PRIVATE_FIELDS)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      User.countDocuments(filter),
+    ]);
+
+    res.json({ users, total, page, limit });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Retrieves a single user.
+ *
+ * @function getUser
+ * @async
+ * @param {Request} req - Express request object.
+ * @param {string} req.params.id - User identifier.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Responds with HTTP 404 if the user does not exist.
+ */
+export async function getUser(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const user = OBJECT_ID_REGEX.test(id) ? await User.findById(id).select(USER_PRIVATE_FIELDS) : null;
+    if (!user) {
+      return res.status(404).json({ message: "Usuario no encontrado" });
+    }
+
+    res.json(user);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Changes the role of a user.
+ *
+ * @function updateUserRole
+ * @async
+ * @param {Request} req - Express request object.
+ * @param {string} req.params.id - User identifier.
+ * @param {string} req.body.role - New role (`user`, `moderator` or `admin`).
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - The new role reaches the user's access token on its next refresh.
+ * - Responds with HTTP 400 for an unknown role, 404 if the user does not exist,
+ *   and 409 when it would leave the platform without administrators.
+ */
+export async function updateUserRole(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+    const { role } = req.body;
+
+    if (!USER_ROLES.includes(role)) {
+      return res.status(400).json({ message: "Rol inválido", allowed: USER_ROLES });
+    }
+
+    const user = OBJECT_ID_REGEX.test(id) ? await User.findById(id) : null;
+    if (!user) {
+      return res.status(404).json({ message: "Usuario no encontrado" });
+    }
+
+    if (user.role === "admin" && role !== "admin") {
+      const admins = await User.countDocuments({ role: "admin" });
+      if (admins <= 1) {
+        return res.status(409).json({ message: "Debe existir al menos un administrador" });
+      }
+    }
+
+    user.role = role;
+    await user.save();
+
+    res.json({ message: "Rol actualizado correctamente", userId: user._id, role: user.role });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Deletes a user account immediately, with all of its data.
+ *
+ * @function deleteUser
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} req.params.id - User identifier.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Skips the grace period and runs the same purge as expired self-deletions
+ *   (saved movies, ratings, comments, sessions and tokens).
+ * - Administrators cannot delete their own account here; they must use `DELETE /auth/profile`.
+ * - Responds with HTTP 404 if the user does not exist.
+ */
+export async function deleteUser(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    if (id === req.user.userId) {
+      return res.status(409).json({ message: "Usa la eliminación de perfil para borrar tu propia cuenta" });
+    }
+
+    const user = OBJECT_ID_REGEX.test(id) ? await User.findById(id) : null;
+    if (!user) {
+      return res.status(404).json({ message: "Usuario no encontrado" });
+    }
+
+    await purgeAccount(user);
+
+    res.json({ message: "Usuario eliminado correctamente" });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Shows the Pexels quota usage and the health of the integration.
+ *
+ * @function getPexelsQuota
+ * @param {Request} _req - Express request object (unused).
+ * @param {Response} res - Express response object.
+ * @returns {void}
+ * @remarks
+ * - Responds with `{ quota, breaker, stats }` (see `getPexelsStatus`). Values are those seen by
+ *   this server instance; the quota is `null` until Pexels answers a first request.
+ */
+export function getPexelsQuota(_req: Request, res: Response) {
+  res.json(getPexelsStatus());
+}
@@ -5,15 +5,230 @@
  */
 
 
-import User from "../models/user.model";
-const bcrypt = require("bcrypt");
+import User, { USER_PRIVATE_FIELDS } from "../models/user.model";
+import Session from "../models/session.model";
+import AccessToken from "../models/accessToken.model";
+import {
+  startSession,
+  rotateSession,
+  revokeSessions,
+  clearAuthCookies,
+  hashToken,
+  parseRefreshToken,
+  signMfaPendingToken,
+} from "../utils/session";
+import {
+  sendThrottled,
+  checkLoginThrottle,
+  getEmailLockState,
+  recordLoginFailure,
+  clearLoginFailures,
+  unlockWithToken,
+} from "../utils/loginThrottle";
+import { normalizeEmail } from "../utils/emailAddress";
+import { isRestrictedForUnverified } from "../middleware/verifiedEmail";
+import { scheduleAccountDeletion, restoreAccount } from "../utils/accountDeletion";
+import { checkPassword, setUserPassword, verifyPassword } from "../utils/passwordPolicy";
+import { consumeRateLimit } from "../utils/rateLimit";
+import { recordSecurityEvent, recordLogin } from "../utils/securityEvents";
 const jwt = require("jsonwebtoken");
 import { Request, Response, NextFunction } from "express";
 
 const cryptoModule = require("crypto");
 const sendEmail = require("../utils/sendEmail");
 
-let loginAttempts: { [key: string]: { count: number; lockedUntil: number | null } } = {};
+
+/**
+ * Lifetime of an email verification token, configurable through
+ * `EMAIL_VERIFICATION_TTL_HOURS` (defaults to 24 hours).
+ */
+const EMAIL_VERIFICATION_TTL_MS = (Number(process.env.EMAIL_VERIFICATION_TTL_HOURS) || 24) * 60 * 60 * 1000;
+
+/**
+ * Minimum time between two verification emails for the same user.
+ */
+const EMAIL_VERIFICATION_RESEND_MS = 60 * 1000;
+
+/**
+ * Lifetime of the link that confirms a new email address, configurable through
+ * `EMAIL_CHANGE_TTL_HOURS` (defaults to 24 hours).
+ */
+const EMAIL_CHANGE_TTL_MS = (Number(process.env.EMAIL_CHANGE_TTL_HOURS) || 24) * 60 * 60 * 1000;
+
+/**
+ * Time the old address has to undo an email change, counted from the request.
+ * Configurable through `EMAIL_CHANGE_UNDO_DAYS` (defaults to 7 days).
+ */
+const EMAIL_CHANGE_UNDO_MS = (Number(process.env.EMAIL_CHANGE_UNDO_DAYS) || 7) * 24 * 60 * 60 * 1000;
+
+/**
+ * Lifetime of a password reset link, configurable through
+ * `PASSWORD_RESET_TTL_MINUTES` (defaults to 60 minutes).
+ */
+const PASSWORD_RESET_TTL_MS = (Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 60) * 60 * 1000;
+
+/**
+ * Password reset request limits, configurable through environment variables.
+ *
+ * @property {number} maxPerEmail - Requests per email and window (`PASSWORD_RESET_MAX_PER_EMAIL`, default 3).
+ * @property {number} maxPerIp - Requests per IP and window (`PASSWORD_RESET_MAX_PER_IP`, default 10).
+ * @property {number} windowMs - Window length (`PASSWORD_RESET_WINDOW_MINUTES`, default 60).
+ */
+const PASSWORD_RESET_LIMITS = {
+  maxPerEmail: Number(process.env.PASSWORD_RESET_MAX_PER_EMAIL) || 3,
+  maxPerIp: Number(process.env.PASSWORD_RESET_MAX_PER_IP) || 10,
+  windowMs: (Number(process.env.PASSWORD_RESET_WINDOW_MINUTES) || 60) * 60 * 1000,
+};
+
+/**
+ * Checks whether an error is a MongoDB unique index violation.
+ *
+ * @param {unknown} error - Error thrown by a write.
+ * @returns {boolean} `true` for duplicate key errors (code 11000).
+ */
+function isDuplicateKeyError(error: unknown): error is { code: 11000 } {
+  return typeof error === "object" && error !== null && "code" in error && error.code === 11000;
+}
+
+/**
+ * Generates a new verification token for the user, stores its hash and emails the link.
+ *
+ * @async
+ * @param {any} user - User document (saved by this function).
+ * @returns {Promise<void>} Resolves once the token is stored and the email sent.
+ * @remarks
+ * - Requires `process.env.FRONTEND_URL` to build the verification link.
+ * - Replaces any previously issued token.
+ */
+async function sendVerificationEmail(user: any) {
+  const verificationToken = cryptoModule.randomBytes(32).toString("hex");
+
+  user.emailVerificationTokenHash = hashToken(verificationToken);
+  user.emailVerificationExpires = Date.now() + EMAIL_VERIFICATION_TTL_MS;
+  user.emailVerificationSentAt = Date.now();
+  await user.save();
+
+  const verifyURL = `${process.env.FRONTEND_URL}/verificar-correo?token=${verificationToken}`;
+
+  const message = `
+    <h2>Confirma tu correo electrónico</h2>
+    <p>Gracias por registrarte en Film Unity. Haz click en el siguiente enlace para verificar tu correo:</p>
+    <a href="${verifyURL}" target="_blank">${verifyURL}</a>
+    <p>Este enlace expirará en ${Math.round(EMAIL_VERIFICATION_TTL_MS / 3600000)} horas.</p>
+  `;
+
+  await sendEmail({
+    to: user.email,
+    subject: "Verifica tu correo - Film Unity",
+    html: message,
+  });
+}
+
+/**
+ * Starts an email change: stores the new address as pending, emails a confirmation link
+ * to it and a notice with an undo link to the current address.
+ *
+ * @async
+ * @param {any} user - User document (saved by this function).
+ * @param {string} newEmail - Requested address, already checked to be free.
+ * @returns {Promise<void>} Resolves once the pending change is stored and both emails sent.
+ * @throws {Error} When an email cannot be sent; the previous pending change (if any) is restored
+ *   first, so no change is left pending without its links.
+ * @remarks
+ * - Requires `process.env.FRONTEND_URL` to build the links.
+ * - Replaces any previous pending change.
+ */
+async function requestEmailChange(user: any, newEmail: string) {
+  const confirmToken = cryptoModule.randomBytes(32).toString("hex");
+  const undoToken = cryptoModule.randomBytes(32).toString("hex");
+  const changeFields = [
+    "pendingEmail",
+    "emailChangeTokenHash",
+    "emailChangeExpires",
+    "previousEmail",
+    "emailChangeUndoTokenHash",
+    "emailChangeUndoExpires",
+  ];
+  const previousState = Object.fromEntries(changeFields.map((field) => [field, user[field]]));
+
+  user.pendingEmail = newEmail;
+  user.emailChangeTokenHash = hashToken(confirmToken);
+  user.emailChangeExpires = Date.now() + EMAIL_CHANGE_TTL_MS;
+  user.previousEmail = undefined;
+  user.emailChangeUndoTokenHash = hashToken(undoToken);
+  user.emailChangeUndoExpires = Date.now() + EMAIL_CHANGE_UNDO_MS;
+  await user.save();
+
+  const confirmURL = `${process.env.FRONTEND_URL}/confirmar-correo?token=${confirmToken}`;
+  const undoURL = `${process.env.FRONTEND_URL}/deshacer-cambio-correo?token=${undoToken}`;
+
+  try {
+    await sendEmail({
+      to: newEmail,
+      subject: "Confirma tu nuevo correo - Film Unity",
+      html: `
+        <h2>Confirma tu nuevo correo electrónico</h2>
+        <p>Solicitaste usar esta dirección en tu cuenta de Film Unity. Haz click en el siguiente enlace para confirmarla:</p>
+        <a href="${confirmURL}" target="_blank">${confirmURL}</a>
+        <p>Este enlace expirará en ${Math.round(EMAIL_CHANGE_TTL_MS / 3600000)} horas. Si no fuiste tú, ignora este correo.</p>
+      `,
+    });
+
+    await sendEmail({
+      to: user.email,
+      subject: "Solicitud de cambio de correo - Film Unity",
+      html: `
+        <h2>Se solicitó cambiar el correo de tu cuenta</h2>
+        <p>Se pidió reemplazar esta dirección por <strong>${newEmail}</strong>.</p>
+        <p>Si no fuiste tú, haz click en el siguiente enlace para cancelar o deshacer el cambio:</p>
+        <a href="${undoURL}" target="_blank">${undoURL}</a>
+        <p>Podrás usar este enlace durante ${Math.round(EMAIL_CHANGE_UNDO_MS / 86400000)} días. Te recomendamos también cambiar tu contraseña.</p>
+      `,
+    });
+  } catch (error) {
+    for (const field of changeFields) {
+      user[field] = previousState[field];
+    }
+    await user.save();
+    throw error;
+  }
+}
+
+/**
+ * Generates a password reset token for the user, stores its hash and emails the link.
+ *
+ * @async
+ * @param {any} user - User document (saved by this function).
+ * @returns {Promise<void>} Resolves once the token is stored and the email sent.
+ * @remarks
+ * - Requires `process.env.FRONTEND_URL` to build the reset link.
+ * - Replaces any previously issued token.
+ */
+async function sendPasswordResetEmail(user: any) {
+  const resetToken = cryptoModule.randomBytes(32).toString("hex");
+
+  // Store only the hash, with expiration
+  user.resetPasswordTokenHash = hashToken(resetToken);
+  user.resetPasswordExpires = Date.now() + PASSWORD_RESET_TTL_MS;
+  await user.save();
+
+  // Recovery URL
+  const resetURL = `${process.env.FRONTEND_URL}/nueva-contraseña?token=${resetToken}`;
+
+  // Email content
+  const message = `
+    <h2>Restablecer contraseña</h2>
+    <p>Haz click en el siguiente enlace para restablecer tu contraseña:</p>
+    <a href="${resetURL}" target="_blank">${resetURL}</a>
+    <p>Este enlace expirará en ${Math.round(PASSWORD_RESET_TTL_MS / 60000)} minutos. Si no solicitaste el cambio, ignora este correo.</p>
+  `;
+
+  await sendEmail({
+    to: user.email,
+    subject: "Recupera tu contraseña - Film Unity",
+    html: message,
+  });
+}
 
 /**
  * Registers a new user in the database.
@@ -31,8 +246,11 @@ let loginAttempts: { [key: string]: { count: number; lockedUntil: number | null
  * @returns {Promise<void>} Resolves after sending the HTTP response.
  * @remarks
  * - Validates required fields.
- * - Enforces password complexity (≥ 8 chars, at least one uppercase, one lowercase and one special character).
- * - Responds with HTTP 201 and `{ userId }` on success.
+ * - Enforces the password policy (`utils/passwordPolicy`); responds with HTTP 400 and `{ message, errors }`
+ *   when it is not met.
+ * - Creates the account with `emailVerified: false` and emails a verification link.
+ * - Responds with HTTP 201 and `{ userId }` on success, even if the verification email could not be sent
+ *   (the user can request it again through `resendVerification`).
  */
 
 export async function signup(req: Request, res: Response, next: NextFunction) {
@@ -46,15 +264,13 @@ export async function signup(req: Request, res: Response, next: NextFunction) {
     }
 
     // Validate password BEFORE hashing
-    const passwordRegex = /^(?=.*[a-z])(?=.*[A-Z])(?=.*[\W_]).{8,}$/;
-    if (!passwordRegex.test(password)) {
-      return res.status(400).json({
-        message:
-          "La contraseña debe tener al menos 8 caracteres, incluir una letra mayúscula, una minúscula y un caracter especial",
-      });
+    const passwordErrors = await checkPassword(password, { firstName, lastName, email });
+    if (passwordErrors.length) {
+      return res.status(400).json({ message: passwordErrors[0], errors: passwordErrors });
     }
 
-    const existingUser = await User.findOne({ email });
+    const normalizedEmail = normalizeEmail(email);
+    const existingUser = await User.findOne({ email: normalizedEmail });
     if (existingUser) {
       return res
         .status(409)
@@ -64,18 +280,22 @@ export async function signup(req: Request, res: Response, next: NextFunction) {
     }
 
 
-    const hashedPassword = await bcrypt.hash(password, 10);
-
     const user = new User({
       firstName,
       lastName,
       age,
-      email,
-      password: hashedPassword,
+      email: normalizedEmail,
     });
 
+    await setUserPassword(user, password);
     await user.save();
 
+    try {
+      await sendVerificationEmail(user);
+    } catch (error) {
+      console.error("Error sending verification email:", error);
+    }
+
     res
       .status(201)
       .json({ message: "Usuario registrado exitosamente", userId: user._id });
@@ -85,7 +305,7 @@ export async function signup(req: Request, res: Response, next: NextFunction) {
 };
 
 /**
- * Logs in a user and issues a JWT stored in an HTTP-only cookie.
+ * Logs in a user, opens a new session and issues the access and refresh cookies.
  *
  * @function login
  * @async
@@ -97,8 +317,19 @@ export async function signup(req: Request, res: Response, next: NextFunction) {
  * @returns {Promise<void>} Resolves after sending the HTTP response.
  * @remarks
  * - Requires `process.env.JWT_SECRET`.
- * - Locks the account for 15 minutes after 5 failed attempts (per email).
- * - Sets cookie `token` with `httpOnly`, and `secure/sameSite` based on `NODE_ENV`.
+ * - Throttled per email and per IP (see `utils/loginThrottle`): progressive delays answer 429,
+ *   a locked account answers 423; both include a `Retry-After` header.
+ * - Failures are counted even for emails without an account.
+ * - The email is matched case-insensitively, with the same normalization as the throttle.
+ * - Answers 403 `{ accountDeleted: true, purgeAfter }` for accounts pending deletion (see `restoreDeletedAccount`).
+ * - Answers 403 `{ emailVerified: false }` for unverified users when the verification policy restricts `login`.
+ * - With two-factor authentication enabled, no session is opened: responds with
+ *   `{ mfaRequired: true, mfaToken }` (valid 5 minutes) to be completed through `verifyMfa`.
+ * - Creates a `Session` document for the device (IP, user agent).
+ * - Records `login` / `login_failed` security events (failures only for existing accounts) and emails
+ *   the user when the device/IP combination was not seen in previous logins.
+ * - Sets cookie `token` (short-lived access JWT) and `refreshToken` (rotating, path `/api/auth`),
+ *   both `httpOnly`, and `secure/sameSite` based on `NODE_ENV`.
  * - Responds with HTTP 200 and `{ userId }` on success.
  */
 
@@ -113,50 +344,54 @@ export async function login(req: Request, res: Response, next: NextFunction) {
         .json({ message: "Email y contraseña son requeridos" });
     }
 
-    const user = await User.findOne({ email });
+    // The same normalized email keys the throttle and finds the account
+    const normalizedEmail = normalizeEmail(email);
+    const throttle = await checkLoginThrottle(normalizedEmail, req.ip);
+    if (!throttle.allowed) {
+      return sendThrottled(res, throttle);
+    }
+
+    const user = await User.findOne({ email: normalizedEmail });
     if (!user) {
+      await recordLoginFailure(normalizedEmail, req.ip);
       return res.status(401).json({ message: "Credenciales inválidas" });
     }
 
-    if (!loginAttempts[email]) {
-      loginAttempts[email] = { count: 0, lockedUntil: null };
+    const isPasswordValid = await verifyPassword(password, user);
+    if (!isPasswordValid) {
+      await recordLoginFailure(normalizedEmail, req.ip, user);
+      await recordSecurityEvent(req, user._id, "login_failed", { reason: "invalid_password" });
+      return res.status(401).json({ message: "Credenciales inválidas" });
     }
 
-    if (
-      loginAttempts[email].lockedUntil &&
-      loginAttempts[email].lockedUntil > Date.now()
-    ) {
-      return res
-        .status(423)
-        .json({
-          message:
-            "Demasiados intentos fallidos. Intenta nuevamente más tarde.",
-        });
+    if (user.deletedAt) {
+      return res.status(403).json({
+        message: "Esta cuenta está programada para eliminación. Puedes restaurarla antes de la fecha indicada",
+        accountDeleted: true,
+        purgeAfter: user.purgeAfter,
+      });
     }
 
-    const isPasswordValid = await bcrypt.compare(password, user.password);
-    if (!isPasswordValid) {
-      loginAttempts[email].count++;
-      if (loginAttempts[email].count >= 5) {
-        loginAttempts[email].lockedUntil = Date.now() + 15 * 60 * 1000; // Lock for 15 minutes
-      }
-      return res.status(401).json({ message: "Credenciales inválidas" });
+    if (!user.emailVerified && isRestrictedForUnverified("login")) {
+      return res.status(403).json({
+        message: "Debes verificar tu correo electrónico antes de iniciar sesión",
+        emailVerified: false,
+      });
     }
 
-    loginAttempts[email].count = 0; // Reset counter after a successful login
+    if (user.mfaEnabled) {
+      // Failures are only cleared once the second factor is verified
+      return res.status(200).json({
+        message: "Ingresa el código de verificación",
+        mfaRequired: true,
+        mfaToken: signMfaPendingToken(user),
+      });
+    }
 
-    const token = jwt.sign(
-      { userId: user._id, email: user.email },
-      process.env.JWT_SECRET,
-      { expiresIn: "2h" }
-    );
+    await clearLoginFailures(normalizedEmail); // Reset counter after a successful login
 
-    res.cookie("token", token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production", // Use 'secure' only in production
-      sameSite: process.env.NODE_ENV === "production" ? "none" : "lax", // Adjust according to your needs (Lax, Strict, None)
-      maxAge: 2 * 60 * 60 * 1000, // 2 hours
-    });
+    await startSession(req, res, user);
+    await recordLogin(req, user, { method: "password" });
 
     res.status(200).json({ message: "Login exitoso", userId: user._id });
   } catch (error) {
@@ -165,32 +400,294 @@ export async function login(req: Request, res: Response, next: NextFunction) {
 };
 
 /**
- * Logs out the user by clearing the authentication cookie.
+ * Logs out the user by revoking the current session and clearing the authentication cookies.
  *
  * @function logout
  * @async
  * @param {Request} req - Express request object.
+ * @param {string} [req.cookies.refreshToken] - Refresh token of the current session.
+ * @param {string} [req.cookies.token] - Access token of the current session (may be expired).
  * @param {Response} res - Express response object.
  * @param {NextFunction} next - Error handling middleware.
  * @returns {Promise<void>} Resolves after sending the HTTP response.
  * @remarks
- * - Clears the `token` cookie using `httpOnly`, and `secure/sameSite` based on `NODE_ENV`.
+ * - The session is located from the refresh token (must match its current hash) or,
+ *   failing that, from the `sid` claim of a validly signed access token.
+ * - Records a `logout` security event when a session was actually revoked.
+ * - Clears the `token` and `refreshToken` cookies using `httpOnly`, and `secure/sameSite` based on `NODE_ENV`.
  */
 
 
 export async function logout(req: Request, res: Response, next: NextFunction) {
   try {
-    res.clearCookie("token", {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: process.env.NODE_ENV === "production" ? "none" : "lax",
-    });
+    const refreshToken = req.cookies.refreshToken;
+    const sessionId = parseRefreshToken(refreshToken);
+
+    let filter: Record<string, unknown> | null = null;
+    if (sessionId) {
+      filter = { _id: sessionId, refreshTokenHash: hashToken(refreshToken) };
+    } else if (req.cookies.token) {
+      try {
+        const decoded = jwt.verify(req.cookies.token, process.env.JWT_SECRET, { ignoreExpiration: true });
+        if (decoded.sid) {
+          filter = { _id: decoded.sid };
+        }
+      } catch (err) {
+        // Tampered token: nothing to revoke, just clear the cookies
+      }
+    }
+
+    if (filter) {
+      const currentSession = await Session.findOne({ ...filter, revokedAt: null }).select("userId");
+      if (currentSession && (await revokeSessions(filter, "logout"))) {
+        await recordSecurityEvent(req, currentSession.userId, "logout");
+      }
+    }
+
+    clearAuthCookies(res);
     res.json({ message: "Logout exitoso" });
   } catch (error) {
     next(error);
   }
 };
 
+/**
+ * Exchanges a valid refresh token for a new access token, rotating the refresh token.
+ *
+ * @function refresh
+ * @async
+ * @param {Request} req - Express request object.
+ * @param {string} [req.cookies.refreshToken] - Current refresh token.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Each refresh token can be used only once; a new one is issued on every call.
+ * - Presenting an already rotated token is treated as theft: the whole session is revoked.
+ * - Responds with HTTP 200 and `{ userId }` on success, 401 otherwise (cookies are cleared).
+ */
+
+export async function refresh(req: Request, res: Response, next: NextFunction) {
+  try {
+    const refreshToken = req.cookies.refreshToken;
+    const sessionId = parseRefreshToken(refreshToken);
+
+    if (!sessionId) {
+      clearAuthCookies(res);
+      return res.status(401).json({ message: "Sesión no válida" });
+    }
+
+    const currentSession = await Session.findById(sessionId);
+    if (!currentSession || currentSession.revokedAt || currentSession.expiresAt <= new Date()) {
+      clearAuthCookies(res);
+      return res.status(401).json({ message: "Sesión expirada o revocada" });
+    }
+
+    const tokenHash = hashToken(refreshToken);
+    if (currentSession.refreshTokenHash !== tokenHash) {
+      if (currentSession.previousTokenHashes.includes(tokenHash)) {
+        // A rotated token was presented again: someone else holds a copy of it
+        await revokeSessions({ _id: currentSession._id }, "refresh_token_reuse");
+      }
+      clearAuthCookies(res);
+      return res.status(401).json({ message: "Sesión no válida" });
+    }
+
+    const user = await User.findById(currentSession.userId);
+    if (!user) {
+      await revokeSessions({ _id: currentSession._id }, "user_not_found");
+      clearAuthCookies(res);
+      return res.status(401).json({ message: "Sesión no válida" });
+    }
+
+    await rotateSession(req, res, currentSession, user);
+
+    res.json({ message: "Sesión renovada", userId: user._id });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Lists the active sessions (signed-in devices) of the authenticated user.
+ *
+ * @function listSessions
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId` and `req.user.sid`).
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Omits token hashes; flags the session making the request with `current: true`.
+ * - Sorted by last use (most recent first).
+ */
+
+export async function listSessions(req: Request, res: Response, next: NextFunction) {
+  try {
+    const sessions = await Session.find({
+      userId: req.user.userId,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    })
+      .select("device ip userAgent lastUsedAt createdAt expiresAt")
+      .sort({ lastUsedAt: -1 });
+
+    res.json(
+      sessions.map((item: any) => ({
+        ...item.toObject(),
+        current: item._id.toString() === req.user.sid,
+      }))
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Revokes one of the authenticated user's sessions (signs out a device remotely).
+ *
+ * @function revokeSession
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} req.params.id - Session identifier.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Responds with HTTP 404 if the session does not exist, belongs to another user, or is already revoked.
+ * - Revoking the current session also clears the authentication cookies.
+ */
+
+export async function revokeSession(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    if (!/^[a-f\d]{24}$/i.test(id)) {
+      return res.status(404).json({ message: "Sesión no encontrada" });
+    }
+
+    const revoked = await revokeSessions({ _id: id, userId: req.user.userId }, "revoked_by_user");
+    if (!revoked) {
+      return res.status(404).json({ message: "Sesión no encontrada" });
+    }
+
+    if (id === req.user.sid) {
+      clearAuthCookies(res);
+    }
+
+    res.json({ message: "Sesión cerrada" });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Revokes every session of the authenticated user except the current one.
+ *
+ * @function revokeOtherSessions
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId` and `req.user.sid`).
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Responds with HTTP 200 and `{ revoked }` (number of sessions closed).
+ */
+
+export async function revokeOtherSessions(req: Request, res: Response, next: NextFunction) {
+  try {
+    const revoked = await revokeSessions(
+      { userId: req.user.userId, _id: { $ne: req.user.sid } },
+      "revoked_by_user"
+    );
+
+    res.json({ message: "Se cerraron las demás sesiones", revoked });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Verifies the user's email address using the token sent after registration.
+ *
+ * @function verifyEmail
+ * @async
+ * @param {Request} req - Express request object.
+ * @param {string} req.body.token - Verification token from the email.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Marks the user as `emailVerified` and clears the pending token.
+ * - Responds with HTTP 400 if the token is missing, invalid, or expired.
+ */
+
+export async function verifyEmail(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      return res.status(400).json({ message: "Token es requerido" });
+    }
+
+    const user = await User.findOne({
+      emailVerificationTokenHash: hashToken(String(token)),
+      emailVerificationExpires: { $gt: Date.now() }, // valid and not expired
+    });
+
+    if (!user) {
+      return res.status(400).json({ message: "Token inválido o expirado" });
+    }
+
+    user.emailVerified = true;
+    user.emailVerificationTokenHash = undefined;
+    user.emailVerificationExpires = undefined;
+    await user.save();
+
+    res.json({ message: "Correo verificado correctamente" });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Sends a new verification email to an unverified account.
+ *
+ * @function resendVerification
+ * @async
+ * @param {Request} req - Express request object.
+ * @param {string} req.body.email - Email address of the account.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Always answers with the same message, whether the account exists, is already verified,
+ *   or an email was sent less than a minute ago, so it cannot be used to discover accounts.
+ */
+
+export async function resendVerification(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      return res.status(400).json({ message: "Email es requerido" });
+    }
+
+    const user = await User.findOne({ email: normalizeEmail(email) });
+    const recentlySent =
+      user?.emailVerificationSentAt &&
+      user.emailVerificationSentAt.getTime() > Date.now() - EMAIL_VERIFICATION_RESEND_MS;
+
+    if (user && !user.emailVerified && !recentlySent) {
+      await sendVerificationEmail(user);
+    }
+
+    res.json({ message: "Si la cuenta existe y no está verificada, enviamos un nuevo correo de verificación" });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Sends a password reset email with a one-time link.
  *
@@ -202,8 +699,14 @@ export async function logout(req: Request, res: Response, next: NextFunction) {
  * @param {NextFunction} next - Error handling middleware.
  * @returns {Promise<void>} Resolves after sending the HTTP response.
  * @remarks
- * - Requires `process.env.FRONTEND_URL` to build the reset link.
- * - Persists `resetPasswordToken` and `resetPasswordExpires` (1 hour).
+ * - Always answers with the same message, whether the account exists or not; the email is sent
+ *   in the background so response times do not reveal it either.
+ * - Persists the SHA-256 hash of the token (`resetPasswordTokenHash`) and `resetPasswordExpires`
+ *   (`PASSWORD_RESET_TTL_MINUTES`, default 60).
+ * - Rate-limited per IP and per email (`PASSWORD_RESET_MAX_PER_IP`, `PASSWORD_RESET_MAX_PER_EMAIL`):
+ *   answers 429 with `Retry-After` when exceeded.
+ * - Answers 423 with `Retry-After` while the email is locked by the login throttle, like `login`.
+ * - Neither limit depends on the account existing, so they do not reveal it.
  */
 
 
@@ -211,37 +714,40 @@ export async function forgotPassword(req: Request, res: Response, next: NextFunc
   try {
     const { email } = req.body;
 
-    const user = await User.findOne({ email });
-    if (!user) {
-      return res.status(404).json({ message: "Usuario no encontrado" });
+    if (!email || typeof email !== "string") {
+      return res.status(400).json({ message: "Email es requerido" });
     }
 
-    // Generate unique token
-    const resetToken = cryptoModule.randomBytes(32).toString("hex");
-
-    // Store in DB with expiration
-    user.resetPasswordToken = resetToken;
-    user.resetPasswordExpires = Date.now() + 3600000; // 1 hour
-    await user.save();
+    const ipLimit = await consumeRateLimit(
+      `forgot-password:ip:${req.ip || "unknown"}`,
+      PASSWORD_RESET_LIMITS.maxPerIp,
+      PASSWORD_RESET_LIMITS.windowMs
+    );
+    if (!ipLimit.allowed) {
+      return sendThrottled(res, ipLimit);
+    }
 
-    // Recovery URL
-    const resetURL = `${process.env.FRONTEND_URL}/nueva-contraseña?token=${resetToken}`;
+    const normalizedEmail = normalizeEmail(email);
+    const emailLimit = await consumeRateLimit(
+      `forgot-password:email:${normalizedEmail}`,
+      PASSWORD_RESET_LIMITS.maxPerEmail,
+      PASSWORD_RESET_LIMITS.windowMs
+    );
+    if (!emailLimit.allowed) {
+      return sendThrottled(res, emailLimit);
+    }
 
-    // Email content
-    const message = `
-      <h2>Restablecer contraseña</h2>
-      <p>Haz click en el siguiente enlace para restablecer tu contraseña:</p>
-      <a href="${resetURL}" target="_blank">${resetURL}</a>
-      <p>Este enlace expirará en 1 hora.</p>
-    `;
+    const lockState = await getEmailLockState(normalizedEmail);
+    if (!lockState.allowed) {
+      return sendThrottled(res, lockState);
+    }
 
-    await sendEmail({
-      to: user.email,
-      subject: "Recupera tu contraseña - Film Unity",
-      html: message,
-    });
+    const user = await User.findOne({ email: normalizedEmail });
+    if (user && !user.deletedAt) {
+      sendPasswordResetEmail(user).catch((error) => console.error("Error sending password reset email:", error));
+    }
 
-    res.json({ message: "Correo de recuperación enviado" });
+    res.json({ message: "Si el correo está registrado, te enviamos un enlace para restablecer tu contraseña" });
   } catch (error) {
     next(error);
   }
@@ -259,7 +765,7 @@ export async function forgotPassword(req: Request, res: Response, next: NextFunc
  * @param {NextFunction} next - Error handling middleware.
  * @returns {Promise<void>} Resolves after sending the HTTP response.
  * @remarks
- * - Checks if the token exists, is not expired, and corresponds to a valid user.
+ * - Checks if the hash of the token matches a user and is not expired.
  * - Responds with HTTP 200 and `{ message: "Valid token" }` if valid.
  * - Responds with HTTP 400 if token is missing, invalid, or expired.
  */
@@ -273,7 +779,7 @@ export async function validateResetToken(req: Request, res: Response, next: Next
     }
 
     const user = await User.findOne({
-      resetPasswordToken: token,
+      resetPasswordTokenHash: hashToken(String(token)),
       resetPasswordExpires: { $gt: Date.now() }, // valid and not expired
     });
 
@@ -300,8 +806,11 @@ export async function validateResetToken(req: Request, res: Response, next: Next
  * @param {NextFunction} next - Error handling middleware.
  * @returns {Promise<void>} Resolves after sending the HTTP response.
  * @remarks
- * - Validates password complexity (≥ 8 chars, at least one uppercase, one lowercase and one special character).
- * - Hashes the new password and clears `resetPasswordToken` and `resetPasswordExpires`.
+ * - Enforces the password policy, including reuse of recent passwords (HTTP 400 with `{ message, errors }`).
+ * - Hashes the new password and clears `resetPasswordTokenHash` and `resetPasswordExpires`.
+ * - Clears the failed login counter of the account, revokes every session and personal access
+ *   token, and records a `password_reset` security event.
+ * - Emails a "password changed" notice to the account (a send failure does not fail the request).
  */
 
 export async function resetPassword(req: Request, res: Response, next: NextFunction) {
@@ -312,17 +821,8 @@ export async function resetPassword(req: Request, res: Response, next: NextFunct
       return res.status(400).json({ message: "Token y contraseña son requeridos" });
     }
 
-    // Validate password BEFORE hashing
-    const passwordRegex = /^(?=.*[a-z])(?=.*[A-Z])(?=.*[\W_]).{8,}$/;
-    if (!passwordRegex.test(password)) {
-      return res.status(400).json({
-        message:
-          "La contraseña debe tener al menos 8 caracteres, incluir una letra mayúscula, una minúscula y un caracter especial",
-      });
-    }
-
     const user = await User.findOne({
-      resetPasswordToken: token,
+      resetPasswordTokenHash: hashToken(String(token)),
       resetPasswordExpires: { $gt: Date.now() }, // valid and not expired
     });
 
@@ -330,14 +830,35 @@ export async function resetPassword(req: Request, res: Response, next: NextFunct
       return res.status(400).json({ message: "Token inválido o expirado" });
     }
 
-    // Hash the new password
-    const hashedPassword = await bcrypt.hash(password, 10);
+    // Validate password BEFORE hashing
+    const passwordErrors = await checkPassword(password, user);
+    if (passwordErrors.length) {
+      return res.status(400).json({ message: passwordErrors[0], errors: passwordErrors });
+    }
 
     // Update user
-    user.password = hashedPassword;
-    user.resetPasswordToken = undefined;
+    await setUserPassword(user, password);
+    user.resetPasswordTokenHash = undefined;
     user.resetPasswordExpires = undefined;
     await user.save();
+    await clearLoginFailures(user.email);
+    await revokeSessions({ userId: user._id }, "password_reset");
+    await AccessToken.updateMany({ userId: user._id, revokedAt: null }, { $set: { revokedAt: new Date() } });
+    await recordSecurityEvent(req, user._id, "password_reset");
+
+    try {
+      await sendEmail({
+        to: user.email,
+        subject: "Tu contraseña fue cambiada - Film Unity",
+        html: `
+          <h2>Tu contraseña fue cambiada</h2>
+          <p>La contraseña de tu cuenta de Film Unity se restableció el ${new Date().toISOString()} y cerramos todas tus sesiones.</p>
+          <p>Si no fuiste tú, solicita un nuevo restablecimiento de contraseña de inmediato.</p>
+        `,
+      });
+    } catch (error) {
+      console.error("Error sending password changed email:", error);
+    }
 
     res.json({ message: "Contraseña actualizada correctamente" });
   } catch (error) {
@@ -345,6 +866,58 @@ export async function resetPassword(req: Request, res: Response, next: NextFunct
   }
 };
 
+/**
+ * Unlocks an account locked by too many failed logins, using the emailed token.
+ *
+ * @function unlockAccount
+ * @async
+ * @param {Request} req - Express request object.
+ * @param {string} req.body.token - Unlock token from the email.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Responds with HTTP 400 if the token is missing, invalid, or the lock already expired.
+ */
+
+export async function unlockAccount(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      return res.status(400).json({ message: "Token es requerido" });
+    }
+
+    const unlocked = await unlockWithToken(token);
+    if (!unlocked) {
+      return res.status(400).json({ message: "Token inválido o expirado" });
+    }
+
+    res.json({ message: "Cuenta desbloqueada, ya puedes iniciar sesión" });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Changes the authenticated user's password after confirming the current one.
+ *
+ * @function changePassword
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId` and `req.user.sid`).
+ * @param {string} req.body.currentPassword - Current password.
+ * @param {string} req.body.newPassword - New password.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Enforces the password policy, including reuse of recent passwords (HTTP 400 with `{ message, errors }`).
+ * - Only reachable with a signed-in session (`requireSession`), so `req.user.sid` is always set.
+ * - Revokes every other session and every personal access token of the user; the current device
+ *   stays signed in.
+ * - Records a `password_change` security event.
+ */
+
 export async function changePassword(req: Request, res: Response, next: NextFunction) {
     try {
         const { currentPassword, newPassword } = req.body;
@@ -353,19 +926,77 @@ export async function changePassword(req: Request, res: Response, next: NextFunc
         if (!user) {
             return res.status(404).json({ message: "Usuario no encontrado" });
         }
-        const isPasswordValid = await bcrypt.compare(currentPassword, user.password);
+        if (!user.password) {
+            return res.status(409).json({ message: "Tu cuenta aún no tiene contraseña. Establécela primero", passwordSet: false });
+        }
+        if (!currentPassword || !newPassword) {
+            return res.status(400).json({ message: "La contraseña actual y la nueva son requeridas" });
+        }
+        const isPasswordValid = await verifyPassword(currentPassword, user);
         if (!isPasswordValid) {
             return res.status(401).json({ message: "Contraseña actual incorrecta" });
         }
-        const hashedNewPassword = await bcrypt.hash(newPassword, 10);
-        user.password = hashedNewPassword;
+
+        const passwordErrors = await checkPassword(newPassword, user);
+        if (passwordErrors.length) {
+            return res.status(400).json({ message: passwordErrors[0], errors: passwordErrors });
+        }
+
+        await setUserPassword(user, newPassword);
         await user.save();
+        await revokeSessions({ userId: user._id, _id: { $ne: req.user.sid } }, "password_change");
+        await AccessToken.updateMany({ userId: user._id, revokedAt: null }, { $set: { revokedAt: new Date() } });
+        await recordSecurityEvent(req, user._id, "password_change");
         res.json({ message: "Contraseña cambiada exitosamente" });
     } catch (error) {
         next(error);
     }
 }
 
+/**
+ * Sets a first password on an account created through an identity provider.
+ *
+ * @function setPassword
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} req.body.password - New password.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Enforces the password policy (HTTP 400 with `{ message, errors }`).
+ * - Responds with HTTP 409 if the account already has a password (use `changePassword`).
+ * - Records a `password_set` security event.
+ */
+
+export async function setPassword(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { password } = req.body;
+
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      return res.status(404).json({ message: "Usuario no encontrado" });
+    }
+
+    if (user.password) {
+      return res.status(409).json({ message: "Tu cuenta ya tiene contraseña, usa el cambio de contraseña" });
+    }
+
+    const passwordErrors = await checkPassword(password, user);
+    if (passwordErrors.length) {
+      return res.status(400).json({ message: passwordErrors[0], errors: passwordErrors });
+    }
+
+    await setUserPassword(user, password);
+    await user.save();
+    await recordSecurityEvent(req, user._id, "password_set");
+
+    res.json({ message: "Contraseña establecida correctamente" });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Retrieves the authenticated user's profile.
  *
@@ -376,14 +1007,14 @@ export async function changePassword(req: Request, res: Response, next: NextFunc
  * @param {NextFunction} next - Error handling middleware.
  * @returns {Promise<void>} Resolves after sending the HTTP response.
  * @remarks
- * - Omits sensitive fields: `password`, `resetPasswordToken`, `resetPasswordExpires`.
+ * - Omits sensitive fields (`USER_PRIVATE_FIELDS`): password and pending recovery/verification tokens.
  * - Responds with HTTP 404 if the user is not found, 401 if unauthenticated.
  */
 
 export async function getProfile(req: Request, res: Response, next: NextFunction) {
   try {
     const user = await User.findById(req.user.userId)
-      .select("-password -resetPasswordToken -resetPasswordExpires");
+      .select(USER_PRIVATE_FIELDS);
     
     if (!user) {
       return res.status(404).json({ message: "Usuario no encontrado" });
@@ -410,6 +1041,13 @@ export async function getProfile(req: Request, res: Response, next: NextFunction
  * @returns {Promise<void>} Resolves after sending the HTTP response.
  * @remarks
  * - Uses the ID from the JWT (not from the body) to update the user.
+ * - A different email is not applied right away: it is stored as `pendingEmail` until confirmed through
+ *   `confirmEmailChange`, and the current address receives an undo link (see `undoEmailChange`).
+ * - Responds with HTTP 400 for an invalid email and 409 if it belongs to another account, or while
+ *   the previous change can still be undone.
+ * - Responds with HTTP 502 (and the user, with the other fields updated) when the email change
+ *   links cannot be sent; the email change is then not started.
+ * - Records `profile_update` (with the changed fields) and `email_change_requested` security events.
  * - Returns the updated user without sensitive fields.
  */
 
@@ -422,17 +1060,200 @@ export async function updateProfile(req: Request, res: Response, next: NextFunct
       return res.status(400).json({ message: "Todos los campos son requeridos" });
     }
 
-    const updatedUser = await User.findByIdAndUpdate(
-      req.user.userId, // always use the id from the token, not from the body
-      { firstName, lastName, age, email },
-      { new: true, runValidators: true, context: "query" }
-    ).select("-password -resetPasswordToken -resetPasswordExpires");
-
-    if (!updatedUser) {
+    const user = await User.findById(req.user.userId); // always use the id from the token, not from the body
+    if (!user) {
       return res.status(404).json({ message: "Usuario no encontrado" });
     }
 
-    res.json({ message: "Perfil actualizado correctamente", user: updatedUser });
+    const normalizedEmail = normalizeEmail(email);
+    const emailChanged = normalizedEmail !== user.email;
+    if (emailChanged) {
+      if (!/^\S+@\S+\.\S+$/.test(normalizedEmail)) {
+        return res.status(400).json({ message: "El email no es válido" });
+      }
+
+      if (await User.exists({ email: normalizedEmail })) {
+        return res.status(409).json({ message: "Este correo electrónico ya se encuentra registrado" });
+      }
+
+      // A new change would replace the undo link of the previous one
+      if (user.previousEmail && user.emailChangeUndoExpires?.getTime() > Date.now()) {
+        return res.status(409).json({
+          message: "Cambiaste tu correo recientemente. Podrás volver a cambiarlo cuando termine el periodo para deshacer el cambio",
+          retryAt: user.emailChangeUndoExpires,
+        });
+      }
+    }
+
+    user.firstName = firstName;
+    user.lastName = lastName;
+    user.age = age;
+    const changedFields = ["firstName", "lastName", "age"].filter((field) => user.isModified(field));
+
+    let emailChangeFailed = false;
+    if (emailChanged) {
+      try {
+        await requestEmailChange(user, normalizedEmail);
+      } catch (error) {
+        // The other fields are already saved; the email change itself was rolled back
+        console.error("Error sending email change emails:", error);
+        emailChangeFailed = true;
+      }
+      if (!emailChangeFailed) {
+        await recordSecurityEvent(req, user._id, "email_change_requested", { newEmail: normalizedEmail });
+      }
+    } else {
+      await user.save();
+    }
+
+    if (changedFields.length) {
+      await recordSecurityEvent(req, user._id, "profile_update", { fields: changedFields });
+    }
+
+    const updatedUser = await User.findById(user._id).select(USER_PRIVATE_FIELDS);
+
+    if (emailChangeFailed) {
+      return res.status(502).json({
+        message: "No pudimos enviar el enlace de confirmación a tu nuevo correo. Tu correo no cambió, vuelve a intentarlo",
+        user: updatedUser,
+      });
+    }
+
+    res.json({
+      message: emailChanged
+        ? "Perfil actualizado. Te enviamos un enlace a tu nuevo correo para confirmar el cambio"
+        : "Perfil actualizado correctamente",
+      user: updatedUser,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Confirms a pending email change with the token sent to the new address.
+ *
+ * @function confirmEmailChange
+ * @async
+ * @param {Request} req - Express request object.
+ * @param {string} req.body.token - Confirmation token from the email link.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Replaces the email, marks it as verified and keeps the old one so the change can be undone.
+ * - Responds with HTTP 400 if the token is missing, invalid, or expired, and 409 if the address
+ *   was registered by another account in the meantime.
+ */
+
+export async function confirmEmailChange(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      return res.status(400).json({ message: "Token es requerido" });
+    }
+
+    const user = await User.findOne({
+      emailChangeTokenHash: hashToken(String(token)),
+      emailChangeExpires: { $gt: Date.now() }, // valid and not expired
+    });
+
+    if (!user || !user.pendingEmail) {
+      return res.status(400).json({ message: "Token inválido o expirado" });
+    }
+
+    if (await User.exists({ email: user.pendingEmail })) {
+      return res.status(409).json({ message: "Este correo electrónico ya se encuentra registrado" });
+    }
+
+    user.previousEmail = user.email;
+    user.email = user.pendingEmail;
+    user.emailVerified = true;
+    user.pendingEmail = undefined;
+    user.emailChangeTokenHash = undefined;
+    user.emailChangeExpires = undefined;
+    user.emailVerificationTokenHash = undefined;
+    user.emailVerificationExpires = undefined;
+
+    try {
+      await user.save();
+    } catch (error) {
+      // Lost a race against another account taking the same address
+      if (isDuplicateKeyError(error)) {
+        return res.status(409).json({ message: "Este correo electrónico ya se encuentra registrado" });
+      }
+      throw error;
+    }
+
+    await recordSecurityEvent(req, user._id, "email_change_confirmed", { previousEmail: user.previousEmail, newEmail: user.email });
+
+    res.json({ message: "Correo actualizado correctamente", email: user.email });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Cancels or reverts an email change with the undo token sent to the old address.
+ *
+ * @function undoEmailChange
+ * @async
+ * @param {Request} req - Express request object.
+ * @param {string} req.body.token - Undo token from the email link.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - A change that was not confirmed yet is discarded; a confirmed one is reverted to the old address.
+ * - Either way the change may not come from the owner, so every session and personal access token is revoked.
+ * - Responds with HTTP 400 if the token is missing, invalid, or expired, and 409 if the old address
+ *   was registered by another account in the meantime.
+ */
+
+export async function undoEmailChange(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { token } = req.body;
+
+    if (!token) {
+      return res.status(400).json({ message: "Token es requerido" });
+    }
+
+    const user = await User.findOne({
+      emailChangeUndoTokenHash: hashToken(String(token)),
+      emailChangeUndoExpires: { $gt: Date.now() }, // valid and not expired
+    });
+
+    if (!user || (!user.pendingEmail && !user.previousEmail)) {
+      return res.status(400).json({ message: "Token inválido o expirado" });
+    }
+
+    const undoneEmail = user.pendingEmail || user.email;
+    if (user.previousEmail) {
+      user.email = user.previousEmail;
+      user.emailVerified = true; // the link was opened from the old address
+    }
+    user.pendingEmail = undefined;
+    user.emailChangeTokenHash = undefined;
+    user.emailChangeExpires = undefined;
+    user.previousEmail = undefined;
+    user.emailChangeUndoTokenHash = undefined;
+    user.emailChangeUndoExpires = undefined;
+
+    try {
+      await user.save();
+    } catch (error) {
+      if (isDuplicateKeyError(error)) {
+        return res.status(409).json({ message: "El correo anterior ya está registrado en otra cuenta" });
+      }
+      throw error;
+    }
+
+    await revokeSessions({ userId: user._id }, "email_change_undone");
+    await AccessToken.updateMany({ userId: user._id, revokedAt: null }, { $set: { revokedAt: new Date() } });
+    await recordSecurityEvent(req, user._id, "email_change_undone", { undoneEmail });
+
+    res.json({ message: "Cambio de correo deshecho. Cerramos todas las sesiones, te recomendamos cambiar tu contraseña", email: user.email });
   } catch (error) {
     next(error);
   }
@@ -449,7 +1270,10 @@ export async function updateProfile(req: Request, res: Response, next: NextFunct
  * @param {NextFunction} next - Error handling middleware.
  * @returns {Promise<void>} Resolves after sending the HTTP response.
  * @remarks
- * - Verifies the provided password, deletes the user, and clears the `token` cookie.
+ * - Verifies the provided password and soft-deletes the account: it can be restored until `purgeAfter`
+ *   (`ACCOUNT_DELETION_GRACE_DAYS`), after which the user, saved movies, ratings and comments are purged
+ *   (see `utils/accountDeletion`).
+ * - Revokes all sessions and access tokens, and clears the cookies.
  */
 
 
@@ -466,48 +1290,94 @@ export async function deleteProfile(req: Request, res: Response, next: NextFunct
       return res.status(404).json({ message: "Usuario no encontrado" });
     }
 
+    if (!user.password) {
+      return res.status(409).json({ message: "Establece una contraseña para confirmar esta acción", passwordSet: false });
+    }
+
     // Validate password
-    const isPasswordValid = await bcrypt.compare(password, user.password);
+    const isPasswordValid = await verifyPassword(password, user);
     if (!isPasswordValid) {
       return res.status(401).json({ message: "Contraseña incorrecta" });
     }
 
-    // Delete user
-    await User.findByIdAndDelete(req.user.userId);
+    // Recorded first: with no grace period the purge also removes the audit log
+    await recordSecurityEvent(req, user._id, "account_deletion");
+
+    // Soft delete user, purged once the grace period is over
+    const purgeAfter = await scheduleAccountDeletion(user);
 
-    res.clearCookie("token"); // end session
-    res.json({ message: "Perfil eliminado y sesión cerrada" });
+    clearAuthCookies(res); // end session
+    res.json({ message: "Perfil eliminado y sesión cerrada", purgeAfter });
   } catch (error) {
     next(error);
   }
 };
 
 /**
- * Checks if a session is active by validating the JWT stored in cookies.
+ * Restores an account pending deletion, during the grace period.
  *
- * @function session
+ * @function restoreDeletedAccount
  * @async
  * @param {Request} req - Express request object.
- * @param {Object} req.cookies - Parsed cookies object.
- * @param {string} [req.cookies.token] - Session JWT.
+ * @param {string} req.body.email - Email address.
+ * @param {string} req.body.password - Password.
  * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
  * @returns {Promise<void>} Resolves after sending the HTTP response.
  * @remarks
- * - Requires `process.env.JWT_SECRET`.
- * - Returns `{ loggedIn: true, user }` when valid, otherwise `{ loggedIn: false }` with HTTP 401.
+ * - Subject to the same throttling as `login`; does not open a session (the user logs in afterwards).
+ * - Responds with HTTP 401 for invalid credentials and 409 if the account is not pending deletion
+ *   or the grace period is over.
  */
 
+export async function restoreDeletedAccount(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { email, password } = req.body;
 
-export async function session(req: Request, res: Response) {
-  const token = req.cookies.token;
-  if (!token) {
-    return res.status(401).json({ loggedIn: false });
-  }
+    if (!email || !password) {
+      return res
+        .status(400)
+        .json({ message: "Email y contraseña son requeridos" });
+    }
 
-  try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET);
-    res.json({ loggedIn: true, user: decoded });
-  } catch (err) {
-    res.status(401).json({ loggedIn: false });
+    const normalizedEmail = normalizeEmail(email);
+    const throttle = await checkLoginThrottle(normalizedEmail, req.ip);
+    if (!throttle.allowed) {
+      return sendThrottled(res, throttle);
+    }
+
+    const user = await User.findOne({ email: normalizedEmail });
+    if (!user || !(await verifyPassword(password, user))) {
+      await recordLoginFailure(normalizedEmail, req.ip, user);
+      return res.status(401).json({ message: "Credenciales inválidas" });
+    }
+
+    const restored = await restoreAccount(user);
+    if (!restored) {
+      return res.status(409).json({ message: "La cuenta no está pendiente de eliminación o ya no puede restaurarse" });
+    }
+
+    res.json({ message: "Cuenta restaurada, ya puedes iniciar sesión" });
+  } catch (error) {
+    next(error);
   }
 };
+
+/**
+ * Checks if a session is active.
+ *
+ * @function session
+ * @async
+ * @param {Request} req - Express request object (expects `req.user` injected by auth middleware).
+ * @param {Response} res - Express response object.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - The credential (cookie, Bearer JWT or personal access token) is validated by `authMiddleware`,
+ *   which answers 401 when it is missing or invalid.
+ * - Returns `{ loggedIn: true, user }`.
+ */
+
+
+export async function session(req: Request, res: Response) {
+  res.json({ loggedIn: true, user: req.user });
+};
\ No newline at end of file
@@ -0,0 +1,68 @@
+import { Request, Response } from "express";
+import Comment from "../models/comment.model";
+import { deleteComment, updateComment } from "./comment.controller";
+
+/**
+ * Builds a response whose `status` and `json` calls are recorded.
+ */
+function mockResponse() {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  res.json.mockReturnValue(res);
+  return res;
+}
+
+/**
+ * An anonymized comment of a purged account (`userId: null`).
+ */
+function anonymizedComment() {
+  return {
+    _id: "673d5a12a1b2c3d4e5f60718",
+    userId: null,
+    description: "Comentario anónimo",
+    deleteOne: jest.fn().mockResolvedValue(undefined),
+    save: jest.fn().mockResolvedValue(undefined),
+  };
+}
+
+const request = (role: string, body: Record<string, unknown> = {}) =>
+  ({ params: { id: "673d5a12a1b2c3d4e5f60718" }, body, user: { userId: "6721a9c4a1b2c3d4e5f60718", role } }) as unknown as Request;
+
+afterEach(() => jest.restoreAllMocks());
+
+describe("deleteComment", () => {
+  it("lets moderators delete an anonymized comment", async () => {
+    const comment = anonymizedComment();
+    jest.spyOn(Comment, "findById").mockResolvedValue(comment);
+    const res = mockResponse();
+
+    await deleteComment(request("moderator"), res as unknown as Response);
+
+    expect(comment.deleteOne).toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  it("forbids regular users from deleting an anonymized comment", async () => {
+    const comment = anonymizedComment();
+    jest.spyOn(Comment, "findById").mockResolvedValue(comment);
+    const res = mockResponse();
+
+    await deleteComment(request("user"), res as unknown as Response);
+
+    expect(comment.deleteOne).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
+
+describe("updateComment", () => {
+  it("forbids updating an anonymized comment", async () => {
+    const comment = anonymizedComment();
+    jest.spyOn(Comment, "findById").mockResolvedValue(comment);
+    const res = mockResponse();
+
+    await updateComment(request("admin", { description: "Editado" }), res as unknown as Response);
+
+    expect(comment.save).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+});
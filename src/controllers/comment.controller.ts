@@ -5,6 +5,9 @@
 
 import { Request, Response } from "express";
 import Comment from "../models/comment.model";
+import { hasRole } from "../middleware/requireRole";
+import { resolveVideo, sendVideoUnavailable } from "../utils/videoCatalog";
+import { VideoProviderError } from "../providers/videoProvider";
 
 /**
  * Creates a new comment for a movie.
@@ -21,9 +24,12 @@ import Comment from "../models/comment.model";
  * @returns {Promise<void>} Resolves after sending the HTTP response.
  * @remarks
  * - Requires authentication via JWT middleware.
+ * - The comment is linked to the video's catalog record (`videoId`).
  * - Responds with HTTP 201 and the created comment on success.
  * - Responds with HTTP 400 if required fields are missing.
  * - Responds with HTTP 401 if user is not authenticated.
+ * - Responds with HTTP 404 if the video does not exist.
+ * - Responds with HTTP 429 or 503 (with `Retry-After`) if the video cannot be verified right now.
  * - Responds with HTTP 500 on server error.
  * @example
  * POST /api/comments
@@ -43,14 +49,23 @@ export const createComment = async (req: Request, res: Response) => {
       return res.status(400).json({ message: "description and moviePexelsId are required" });
     }
 
+    const video = await resolveVideo(moviePexelsId);
+    if (!video) {
+      return res.status(404).json({ message: "Video not found" });
+    }
+
     const newComment = await Comment.create({
       description,
-      moviePexelsId,
+      moviePexelsId: video.pexelsId,
+      videoId: video._id,
       userId: req.user.userId
     });
 
     res.status(201).json(newComment);
   } catch (error) {
+    if (error instanceof VideoProviderError) {
+      return sendVideoUnavailable(res, error);
+    }
     console.error("Error creating comment:", error);
     res.status(500).json({ message: "Server error creating comment" });
   }
@@ -72,6 +87,7 @@ export const createComment = async (req: Request, res: Response) => {
  * - Populates user information (firstName, lastName, email) for each comment.
  * - Sorts comments by creation date (newest first).
  * - Separates comments into userComments (by authenticated user) and otherComments.
+ * - Comments of purged accounts are anonymized: they come in otherComments with `userId: null`.
  * - Responds with HTTP 200 and the comment arrays on success.
  * - Responds with HTTP 500 on server error.
  * @example
@@ -85,8 +101,9 @@ export const getCommentsByMovie = async (req: Request, res: Response) => {
       .populate("userId", "_id firstName lastName email") // populate user info
       .sort({ createdAt: -1 });
 
-    const userComments = comments.filter((comment: any) => comment.userId._id.toString() === req.user.userId); // filter out comments with deleted users
-    const otherComments = comments.filter((comment: any) => comment.userId._id.toString() !== req.user.userId); // filter out comments with deleted users
+    // userId is null for anonymized comments of purged accounts
+    const userComments = comments.filter((comment: any) => comment.userId?._id.toString() === req.user.userId);
+    const otherComments = comments.filter((comment: any) => comment.userId?._id.toString() !== req.user.userId);
     res.status(200).json({ userComments, otherComments });
   } catch (error) {
     console.error("Error fetching comments:", error);
@@ -125,7 +142,7 @@ export const getCommentsByUser = async (req: Request, res: Response) => {
 };
 
 /**
- * Deletes a comment (only the comment owner can delete).
+ * Deletes a comment (the comment owner, a moderator or an admin can delete).
  *
  * @function deleteComment
  * @async
@@ -137,10 +154,10 @@ export const getCommentsByUser = async (req: Request, res: Response) => {
  * @param {Response} res - Express response object.
  * @returns {Promise<void>} Resolves after sending the HTTP response.
  * @remarks
- * - Verifies that the authenticated user is the owner of the comment.
+ * - Verifies that the authenticated user is the owner of the comment, or holds the `moderator` or `admin` role.
  * - Responds with HTTP 200 and a success message when deleted.
  * - Responds with HTTP 401 if user is not authenticated.
- * - Responds with HTTP 403 if user is not the comment owner.
+ * - Responds with HTTP 403 if user is neither the comment owner nor a moderator/admin.
  * - Responds with HTTP 404 if comment is not found.
  * - Responds with HTTP 500 on server error.
  * @example
@@ -158,7 +175,8 @@ export const deleteComment = async (req: Request, res: Response) => {
       return res.status(404).json({ message: "Comment not found" });
     }
 
-    if (comment.userId.toString() !== req.user.userId) {
+    // userId is null for anonymized comments of purged accounts: only moderators and admins may delete them
+    if (comment.userId?.toString() !== req.user.userId && !hasRole(req, "moderator", "admin")) {
       return res.status(403).json({ message: "Unauthorized to delete this comment" });
     }
 
@@ -212,7 +230,7 @@ export const updateComment = async (req: Request, res: Response) => {
             return res.status(404).json({ message: "Comment not found" });
         }
 
-        if (comment.userId.toString() !== req.user.userId) {
+        if (comment.userId?.toString() !== req.user.userId) {
             return res.status(403).json({ message: "Unauthorized to update this comment" });
         }
 
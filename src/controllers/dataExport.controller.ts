@@ -0,0 +1,114 @@
+/**
+ * @file dataExport.controller.ts
+ * @description Controller functions for personal data exports: request, status and download.
+ */
+
+import { Request, Response, NextFunction } from "express";
+import DataExport from "../models/dataExport.model";
+import { openExportArchive, requestDataExport } from "../utils/dataExport";
+import { hashToken } from "../utils/session";
+
+const OBJECT_ID_REGEX = /^[a-f\d]{24}$/i;
+
+/**
+ * Requests an export of the authenticated user's data.
+ *
+ * @function createDataExport
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - The archive is generated in the background; a download link is emailed when it is ready.
+ * - If an export is already in progress, that one is returned instead of creating another.
+ * - Responds with HTTP 202 and `{ exportId, status }`.
+ */
+export async function createDataExport(req: Request, res: Response, next: NextFunction) {
+  try {
+    const dataExport = await requestDataExport(req.user.userId);
+
+    res.status(202).json({
+      message: "Estamos preparando tus datos, te enviaremos un correo con el enlace de descarga",
+      exportId: dataExport._id,
+      status: dataExport.status,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Retrieves the status of one of the authenticated user's exports.
+ *
+ * @function getDataExportStatus
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} req.params.id - Export identifier.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Responds with HTTP 404 if the export does not exist, belongs to another user, or expired.
+ */
+export async function getDataExportStatus(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+
+    const dataExport = OBJECT_ID_REGEX.test(id)
+      ? await DataExport.findOne({ _id: id, userId: req.user.userId })
+          .select("status size error createdAt completedAt expiresAt")
+      : null;
+    if (!dataExport) {
+      return res.status(404).json({ message: "Exportación no encontrada" });
+    }
+
+    res.json(dataExport);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Downloads a ready export using the token from the emailed link.
+ *
+ * @function downloadDataExport
+ * @async
+ * @param {Request} req - Express request object.
+ * @param {string} req.params.id - Export identifier.
+ * @param {string} req.query.token - Download token from the email.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Streams the ZIP archive from GridFS as an attachment.
+ * - Responds with HTTP 404 if the export does not exist, is not ready, the token is wrong, or the link expired.
+ */
+export async function downloadDataExport(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params;
+    const token = req.query.token as string;
+
+    const dataExport = OBJECT_ID_REGEX.test(id) && token
+      ? await DataExport.findOne({
+          _id: id,
+          status: "ready",
+          downloadTokenHash: hashToken(String(token)),
+          expiresAt: { $gt: new Date() },
+        }).select("archiveFileId completedAt")
+      : null;
+    if (!dataExport) {
+      return res.status(404).json({ message: "Enlace de descarga inválido o expirado" });
+    }
+
+    const date = dataExport.completedAt.toISOString().slice(0, 10);
+    res.set("Content-Type", "application/zip");
+    res.set("Content-Disposition", `attachment; filename="film-unity-datos-${date}.zip"`);
+    res.set("Cache-Control", "no-store");
+    openExportArchive(dataExport)
+      .on("error", next)
+      .pipe(res);
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,453 @@
+/**
+ * @file list.controller.ts
+ * @description Controller functions for named lists of saved movies: creating, renaming,
+ * reordering and deleting lists, and adding, removing and reordering the videos in a list.
+ */
+
+import { Request, Response, NextFunction } from "express";
+import List from "../models/list.model";
+import ListShare from "../models/listShare.model";
+import Movie from "../models/movie.model";
+import {
+  MAX_LISTS_PER_USER,
+  MAX_ITEMS_PER_LIST,
+  ensureDefaultList,
+  addMovieToList,
+  deleteUnlistedMovies,
+} from "../utils/lists";
+import { resolveVideo, sendVideoUnavailable } from "../utils/videoCatalog";
+import { VideoProviderError } from "../providers/videoProvider";
+
+const mongoose = require("mongoose");
+
+/**
+ * Maximum length of a list name.
+ */
+const MAX_NAME_LENGTH = 60;
+
+/**
+ * Validates and trims a list name from the request body.
+ *
+ * @param {unknown} name - Raw value.
+ * @returns {string | null} The trimmed name, or `null` if it is missing or too long.
+ */
+function parseName(name: unknown): string | null {
+  if (typeof name !== "string") return null;
+  const trimmed = name.trim();
+  return trimmed && trimmed.length <= MAX_NAME_LENGTH ? trimmed : null;
+}
+
+/**
+ * Tells whether a value is an array with exactly the expected ids, each once, in any order.
+ *
+ * @param {unknown} value - Raw value from the request body.
+ * @param {string[]} expected - Ids that must all be present.
+ * @returns {boolean} `true` for a valid permutation.
+ */
+function isPermutation(value: unknown, expected: string[]): value is string[] {
+  if (!Array.isArray(value) || value.length !== expected.length) return false;
+  const remaining = new Set(expected);
+  return value.every((id) => remaining.delete(String(id)));
+}
+
+/**
+ * Summarizes a list without its items.
+ *
+ * @param {any} list - List document.
+ * @returns {Object} `{ _id, name, position, isDefault, itemCount, createdAt }`.
+ */
+function toSummary(list: any) {
+  return {
+    _id: list._id,
+    name: list.name,
+    position: list.position,
+    isDefault: list.isDefault,
+    itemCount: list.items.length,
+    createdAt: list.createdAt,
+  };
+}
+
+/**
+ * Finds a list of the authenticated user.
+ *
+ * @async
+ * @param {Request} req - Express request object (expects `req.params.listId` and `req.user.userId`).
+ * @returns {Promise<any>} The list document, or `null` if it does not exist or belongs to someone else.
+ */
+async function findOwnList(req: Request): Promise<any> {
+  const listId = String(req.params.listId);
+  if (!mongoose.isValidObjectId(listId)) return null;
+  return List.findOne({ _id: listId, userId: req.user.userId });
+}
+
+/**
+ * Lists the authenticated user's lists in their display order.
+ *
+ * @function listLists
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Responds with `[{ _id, name, position, isDefault, itemCount, createdAt }]`; the default
+ *   "Favoritos" list is created first if the user does not have it yet.
+ */
+export async function listLists(req: Request, res: Response, next: NextFunction) {
+  try {
+    await ensureDefaultList(req.user.userId);
+
+    const lists = await List.find({ userId: req.user.userId })
+      .select("name position isDefault items.pexelsId createdAt")
+      .sort({ position: 1, createdAt: 1 });
+
+    res.json(lists.map(toSummary));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Retrieves a list with its videos.
+ *
+ * @function getList
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} req.params.listId - List id.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Items are returned in their order as `{ pexelsId, addedAt, movie }`, where `movie` holds
+ *   the saved title, author and thumbnail.
+ * - Responds with HTTP 404 if the list does not exist or belongs to another user.
+ */
+export async function getList(req: Request, res: Response, next: NextFunction) {
+  try {
+    const list = await findOwnList(req);
+    if (!list) {
+      return res.status(404).json({ message: "Lista no encontrada" });
+    }
+
+    await list.populate("items.movieId", "title pexelUser pexelsId miniatureUrl createdAt");
+
+    res.json({
+      ...toSummary(list),
+      items: list.items.map((item: any) => ({
+        pexelsId: item.pexelsId,
+        addedAt: item.addedAt,
+        movie: item.movieId,
+      })),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Creates a list at the end of the authenticated user's lists.
+ *
+ * @function createList
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} req.body.name - List name (1-60 characters).
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Responds with HTTP 201 and the list summary.
+ * - Responds with HTTP 400 for an invalid name, and 409 if the user already has a list with that
+ *   name (ignoring case) or reached the limit of lists.
+ */
+export async function createList(req: Request, res: Response, next: NextFunction) {
+  try {
+    const name = parseName(req.body.name);
+    if (!name) {
+      return res.status(400).json({ message: `El nombre es requerido y debe tener máximo ${MAX_NAME_LENGTH} caracteres` });
+    }
+
+    const userId = req.user.userId;
+    await ensureDefaultList(userId);
+
+    if ((await List.countDocuments({ userId })) >= MAX_LISTS_PER_USER) {
+      return res.status(409).json({ message: `Puedes tener máximo ${MAX_LISTS_PER_USER} listas` });
+    }
+
+    const last = await List.findOne({ userId }).sort({ position: -1 }).select("position");
+
+    const list = await List.create({ userId, name, position: last ? last.position + 1 : 0 });
+    res.status(201).json(toSummary(list));
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      return res.status(409).json({ message: "Ya tienes una lista con ese nombre" });
+    }
+    next(error);
+  }
+}
+
+/**
+ * Renames a list.
+ *
+ * @function renameList
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} req.params.listId - List id.
+ * @param {string} req.body.name - New name (1-60 characters).
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - The default list can be renamed too; it stays the one `POST /api/movies` adds to.
+ * - Responds with HTTP 400 for an invalid name, 404 if the list does not exist and 409 if the
+ *   name is already used by another of the user's lists.
+ */
+export async function renameList(req: Request, res: Response, next: NextFunction) {
+  try {
+    const name = parseName(req.body.name);
+    if (!name) {
+      return res.status(400).json({ message: `El nombre es requerido y debe tener máximo ${MAX_NAME_LENGTH} caracteres` });
+    }
+
+    const list = await findOwnList(req);
+    if (!list) {
+      return res.status(404).json({ message: "Lista no encontrada" });
+    }
+
+    list.name = name;
+    await list.save();
+
+    res.json(toSummary(list));
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      return res.status(409).json({ message: "Ya tienes una lista con ese nombre" });
+    }
+    next(error);
+  }
+}
+
+/**
+ * Deletes a list and its share links. The videos stay saved while another list of the user has them.
+ *
+ * @function deleteList
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} req.params.listId - List id.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Responds with HTTP 404 if the list does not exist and 409 for the default list.
+ */
+export async function deleteList(req: Request, res: Response, next: NextFunction) {
+  try {
+    const list = await findOwnList(req);
+    if (!list) {
+      return res.status(404).json({ message: "Lista no encontrada" });
+    }
+
+    if (list.isDefault) {
+      return res.status(409).json({ message: "La lista de favoritos no se puede eliminar" });
+    }
+
+    await List.deleteOne({ _id: list._id });
+    await ListShare.deleteMany({ listId: list._id });
+    await deleteUnlistedMovies(req.user.userId, list.items.map((item: any) => item.pexelsId));
+    res.json({ message: "Lista eliminada" });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Sets the order of the authenticated user's lists.
+ *
+ * @function reorderLists
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string[]} req.body.listIds - Ids of all the user's lists, in the new order.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Responds with the lists in the new order, like `listLists`.
+ * - Responds with HTTP 400 unless `listIds` contains every list of the user exactly once.
+ */
+export async function reorderLists(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user.userId;
+    const lists = await List.find({ userId }).select("_id");
+
+    const { listIds } = req.body;
+    if (!isPermutation(listIds, lists.map((list: any) => String(list._id)))) {
+      return res.status(400).json({ message: "listIds debe incluir cada una de tus listas una sola vez" });
+    }
+
+    await List.bulkWrite(
+      listIds.map((id, position) => ({
+        updateOne: { filter: { _id: id, userId }, update: { $set: { position } } },
+      }))
+    );
+
+    const reordered = await List.find({ userId })
+      .select("name position isDefault items.pexelsId createdAt")
+      .sort({ position: 1, createdAt: 1 });
+
+    res.json(reordered.map(toSummary));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Adds a video to a list, saving it as a movie of the user if needed.
+ *
+ * @function addListItem
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} req.params.listId - List id.
+ * @param {string} req.body.pexelsId - Pexels video ID (required).
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - The same video can be in several lists; it is appended at the end of this one.
+ * - A video not saved yet is saved with the title, author and thumbnail of the `Video` catalog; it
+ *   is removed from the saved movies again once no list has it (see `removeListItem`, `deleteList`).
+ * - Responds with HTTP 201 `{ pexelsId, addedAt, movie }`.
+ * - Responds with HTTP 400 if `pexelsId` is missing, 404 if the list or the video does not exist,
+ *   and 409 if the video is already in the list or the list is full.
+ * - Responds with HTTP 429 or 503 (with `Retry-After`) if the video cannot be verified right now.
+ */
+export async function addListItem(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { pexelsId } = req.body;
+    if (!pexelsId) {
+      return res.status(400).json({ message: "pexelsId es requerido" });
+    }
+
+    const list = await findOwnList(req);
+    if (!list) {
+      return res.status(404).json({ message: "Lista no encontrada" });
+    }
+
+    const userId = req.user.userId;
+    let movie = await Movie.findOne({ userId, pexelsId: String(pexelsId) }).sort({ createdAt: 1 });
+    if (!movie) {
+      const video = await resolveVideo(pexelsId);
+      if (!video) {
+        return res.status(404).json({ message: "El video no existe" });
+      }
+      movie = await Movie.create({
+        title: video.title,
+        pexelUser: video.pexelUser,
+        pexelsId: video.pexelsId,
+        miniatureUrl: video.miniatureUrl,
+        videoId: video._id,
+        userId,
+      });
+    }
+
+    const addedAt = new Date();
+    const result = await addMovieToList(list._id, movie, addedAt);
+    if (result === "not_found") {
+      return res.status(404).json({ message: "Lista no encontrada" });
+    }
+    if (result === "exists") {
+      return res.status(409).json({ message: "El video ya está en la lista" });
+    }
+    if (result === "full") {
+      return res.status(409).json({ message: `Una lista puede tener máximo ${MAX_ITEMS_PER_LIST} videos` });
+    }
+
+    res.status(201).json({ pexelsId: movie.pexelsId, addedAt, movie });
+  } catch (error) {
+    if (error instanceof VideoProviderError) {
+      return sendVideoUnavailable(res, error);
+    }
+    next(error);
+  }
+}
+
+/**
+ * Removes a video from a list. The video stays saved while another list of the user has it.
+ *
+ * @function removeListItem
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} req.params.listId - List id.
+ * @param {string} req.params.pexelsId - Pexels video ID.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Responds with HTTP 404 if the list does not exist or does not contain the video.
+ */
+export async function removeListItem(req: Request, res: Response, next: NextFunction) {
+  try {
+    const listId = String(req.params.listId);
+    const pexelsId = String(req.params.pexelsId);
+    if (!mongoose.isValidObjectId(listId)) {
+      return res.status(404).json({ message: "Lista no encontrada" });
+    }
+
+    const result = await List.updateOne(
+      { _id: listId, userId: req.user.userId, "items.pexelsId": pexelsId },
+      { $pull: { items: { pexelsId } }, $inc: { __v: 1 } }
+    );
+    if (result.modifiedCount !== 1) {
+      return res.status(404).json({ message: "El video no está en la lista" });
+    }
+    await deleteUnlistedMovies(req.user.userId, [pexelsId]);
+
+    res.json({ message: "Video quitado de la lista" });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Sets the order of the videos in a list.
+ *
+ * @function reorderListItems
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} req.params.listId - List id.
+ * @param {string[]} req.body.pexelsIds - Pexels IDs of all the videos in the list, in the new order.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Responds with the new order as `{ pexelsIds }`.
+ * - Responds with HTTP 400 unless `pexelsIds` contains every video of the list exactly once,
+ *   404 if the list does not exist, and 409 if the list changed meanwhile (the client should
+ *   reload it and retry).
+ */
+export async function reorderListItems(req: Request, res: Response, next: NextFunction) {
+  try {
+    const list = await findOwnList(req);
+    if (!list) {
+      return res.status(404).json({ message: "Lista no encontrada" });
+    }
+
+    const { pexelsIds } = req.body;
+    if (!isPermutation(pexelsIds, list.items.map((item: any) => item.pexelsId))) {
+      return res.status(400).json({ message: "pexelsIds debe incluir cada video de la lista una sola vez" });
+    }
+
+    const byPexelsId = new Map(list.items.map((item: any) => [item.pexelsId, item.toObject()]));
+    const items = pexelsIds.map((id) => byPexelsId.get(String(id)));
+
+    // Only write if nobody added or removed a video since the list was read
+    const result = await List.updateOne(
+      { _id: list._id, __v: list.__v },
+      { $set: { items }, $inc: { __v: 1 } }
+    );
+    if (result.matchedCount !== 1) {
+      return res.status(409).json({ message: "La lista cambió mientras la ordenabas, vuelve a intentarlo" });
+    }
+
+    res.json({ pexelsIds: pexelsIds.map(String) });
+  } catch (error) {
+    next(error);
+  }
+}
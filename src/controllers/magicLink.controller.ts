@@ -0,0 +1,220 @@
+/**
+ * @file magicLink.controller.ts
+ * @description Controller functions for passwordless sign-in: emailing a single-use
+ * login link and exchanging it for a session.
+ */
+
+import { Request, Response, NextFunction } from "express";
+import User from "../models/user.model";
+import { startSession, hashToken, signMfaPendingToken } from "../utils/session";
+import {
+  sendThrottled,
+  checkLoginThrottle,
+  getEmailLockState,
+  recordLoginFailure,
+  clearLoginFailures,
+} from "../utils/loginThrottle";
+import { normalizeEmail } from "../utils/emailAddress";
+import { consumeRateLimit } from "../utils/rateLimit";
+import { recordSecurityEvent, recordLogin } from "../utils/securityEvents";
+
+const cryptoModule = require("crypto");
+const sendEmail = require("../utils/sendEmail");
+
+/**
+ * Magic link settings, configurable through environment variables.
+ *
+ * @property {boolean} enabled - Whether passwordless sign-in is offered (`MAGIC_LINK_ENABLED`, default `true`).
+ * @property {number} ttlMs - Validity of a link (`MAGIC_LINK_TTL_MINUTES`, default 15).
+ * @property {number} maxPerEmail - Links per email and window (`MAGIC_LINK_MAX_PER_EMAIL`, default 3).
+ * @property {number} maxPerIp - Links per IP and window (`MAGIC_LINK_MAX_PER_IP`, default 10).
+ * @property {number} windowMs - Rate limit window (`MAGIC_LINK_WINDOW_MINUTES`, default 60).
+ */
+const config = {
+  enabled: process.env.MAGIC_LINK_ENABLED !== "false",
+  ttlMs: (Number(process.env.MAGIC_LINK_TTL_MINUTES) || 15) * 60 * 1000,
+  maxPerEmail: Number(process.env.MAGIC_LINK_MAX_PER_EMAIL) || 3,
+  maxPerIp: Number(process.env.MAGIC_LINK_MAX_PER_IP) || 10,
+  windowMs: (Number(process.env.MAGIC_LINK_WINDOW_MINUTES) || 60) * 60 * 1000,
+};
+
+/**
+ * Generates a sign-in token for the user, stores its hash and emails the link.
+ *
+ * @async
+ * @param {any} user - User document (saved by this function).
+ * @returns {Promise<void>} Resolves once the token is stored and the email sent.
+ * @remarks
+ * - Requires `process.env.FRONTEND_URL` to build the link.
+ * - Replaces any previously issued link.
+ */
+async function sendMagicLinkEmail(user: any) {
+  const token = cryptoModule.randomBytes(32).toString("hex");
+
+  user.magicLinkTokenHash = hashToken(token);
+  user.magicLinkExpires = Date.now() + config.ttlMs;
+  await user.save();
+
+  const loginURL = `${process.env.FRONTEND_URL}/acceso-con-enlace?token=${token}`;
+  const message = `
+    <h2>Inicia sesión en Film Unity</h2>
+    <p>Haz click en el siguiente enlace para iniciar sesión sin contraseña:</p>
+    <a href="${loginURL}" target="_blank">${loginURL}</a>
+    <p>Este enlace solo puede usarse una vez y expirará en ${Math.round(config.ttlMs / 60000)} minutos.</p>
+    <p>Si no lo solicitaste, ignora este correo.</p>
+  `;
+
+  await sendEmail({
+    to: user.email,
+    subject: "Tu enlace de acceso - Film Unity",
+    html: message,
+  });
+}
+
+/**
+ * Emails a single-use sign-in link.
+ *
+ * @function requestMagicLink
+ * @async
+ * @param {Request} req - Express request object.
+ * @param {string} req.body.email - Email address of the account.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Always answers with the same message, whether the account exists or not; the email is sent
+ *   in the background so response times do not reveal it either.
+ * - Rate-limited per IP and per email (429 with `Retry-After`), and answers 423 while the email
+ *   is locked by the login throttle, like `forgotPassword`.
+ * - Responds with HTTP 404 when passwordless sign-in is disabled (`MAGIC_LINK_ENABLED=false`).
+ */
+export async function requestMagicLink(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!config.enabled) {
+      return res.status(404).json({ message: "El acceso con enlace no está disponible" });
+    }
+
+    const { email } = req.body;
+
+    if (!email || typeof email !== "string") {
+      return res.status(400).json({ message: "Email es requerido" });
+    }
+
+    const ipLimit = await consumeRateLimit(`magic-link:ip:${req.ip || "unknown"}`, config.maxPerIp, config.windowMs);
+    if (!ipLimit.allowed) {
+      return sendThrottled(res, ipLimit);
+    }
+
+    const normalizedEmail = normalizeEmail(email);
+    const emailLimit = await consumeRateLimit(
+      `magic-link:email:${normalizedEmail}`,
+      config.maxPerEmail,
+      config.windowMs
+    );
+    if (!emailLimit.allowed) {
+      return sendThrottled(res, emailLimit);
+    }
+
+    const lockState = await getEmailLockState(normalizedEmail);
+    if (!lockState.allowed) {
+      return sendThrottled(res, lockState);
+    }
+
+    const user = await User.findOne({ email: normalizedEmail });
+    if (user && !user.deletedAt) {
+      sendMagicLinkEmail(user).catch((error) => console.error("Error sending magic link email:", error));
+    }
+
+    res.json({ message: "Si el correo está registrado, te enviamos un enlace para iniciar sesión" });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Signs in with a magic link token, opening the session like `login`.
+ *
+ * @function verifyMagicLink
+ * @async
+ * @param {Request} req - Express request object.
+ * @param {string} req.body.token - Token from the emailed link.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - The token is consumed on use, so the link works only once.
+ * - Subject to the login throttle (423/429 with `Retry-After`); an expired link counts as a failed login.
+ * - Opening the link proves ownership of the address, so the email is marked as verified.
+ * - Answers 403 `{ accountDeleted: true, purgeAfter }` for accounts pending deletion, like `login`.
+ * - With two-factor authentication enabled, responds with `{ mfaRequired: true, mfaToken }` to be
+ *   completed through `verifyMfa`.
+ * - Records `login` / `login_failed` security events and alerts about new devices, like `login`.
+ * - On success sets the same cookies as `login` and responds with HTTP 200 and `{ userId }`.
+ */
+export async function verifyMagicLink(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!config.enabled) {
+      return res.status(404).json({ message: "El acceso con enlace no está disponible" });
+    }
+
+    const { token } = req.body;
+
+    if (!token) {
+      return res.status(400).json({ message: "Token es requerido" });
+    }
+
+    const tokenHash = hashToken(String(token));
+    const user = await User.findOne({ magicLinkTokenHash: tokenHash });
+    if (!user) {
+      return res.status(400).json({ message: "Enlace inválido o expirado" });
+    }
+
+    const throttle = await checkLoginThrottle(user.email, req.ip);
+    if (!throttle.allowed) {
+      return sendThrottled(res, throttle);
+    }
+
+    // Consume the token atomically so the same link cannot open two sessions
+    const consumed = await User.updateOne(
+      { _id: user._id, magicLinkTokenHash: tokenHash, magicLinkExpires: { $gt: new Date() } },
+      { $unset: { magicLinkTokenHash: 1, magicLinkExpires: 1 } }
+    );
+    if (consumed.modifiedCount !== 1) {
+      await recordLoginFailure(user.email, req.ip, user);
+      await recordSecurityEvent(req, user._id, "login_failed", { reason: "expired_magic_link" });
+      return res.status(400).json({ message: "Enlace inválido o expirado" });
+    }
+
+    if (user.deletedAt) {
+      return res.status(403).json({
+        message: "Esta cuenta está programada para eliminación. Puedes restaurarla antes de la fecha indicada",
+        accountDeleted: true,
+        purgeAfter: user.purgeAfter,
+      });
+    }
+
+    if (!user.emailVerified) {
+      await User.updateOne(
+        { _id: user._id },
+        { $set: { emailVerified: true }, $unset: { emailVerificationTokenHash: 1, emailVerificationExpires: 1 } }
+      );
+    }
+
+    if (user.mfaEnabled) {
+      // Failures are only cleared once the second factor is verified
+      return res.status(200).json({
+        message: "Ingresa el código de verificación",
+        mfaRequired: true,
+        mfaToken: signMfaPendingToken(user),
+      });
+    }
+
+    await clearLoginFailures(user.email);
+    await startSession(req, res, user);
+    await recordLogin(req, user, { method: "magic_link" });
+
+    res.status(200).json({ message: "Login exitoso", userId: user._id });
+  } catch (error) {
+    next(error);
+  }
+}
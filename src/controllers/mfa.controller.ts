@@ -0,0 +1,236 @@
+/**
+ * @file mfa.controller.ts
+ * @description Controller functions for TOTP two-factor authentication: enrollment,
+ * confirmation, second login step and deactivation.
+ */
+
+import { Request, Response, NextFunction } from "express";
+import User from "../models/user.model";
+import { startSession, hashToken, verifyMfaPendingToken } from "../utils/session";
+import {
+  sendThrottled,
+  checkLoginThrottle,
+  recordLoginFailure,
+  clearLoginFailures,
+} from "../utils/loginThrottle";
+import {
+  generateTotpSecret,
+  buildOtpauthUri,
+  verifyTotp,
+  generateRecoveryCodes,
+  normalizeRecoveryCode,
+} from "../utils/totp";
+import { recordSecurityEvent, recordLogin } from "../utils/securityEvents";
+import { verifyPassword } from "../utils/passwordPolicy";
+
+/**
+ * Starts the two-factor enrollment by generating a new TOTP secret.
+ *
+ * @function setupMfa
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Stores the secret as pending; it only becomes active after `confirmMfa`.
+ * - Responds with HTTP 200 and `{ secret, otpauthUri }` (the URI is meant to be shown as a QR code).
+ * - Responds with HTTP 409 if two-factor authentication is already enabled.
+ */
+export async function setupMfa(req: Request, res: Response, next: NextFunction) {
+  try {
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      return res.status(404).json({ message: "Usuario no encontrado" });
+    }
+
+    if (user.mfaEnabled) {
+      return res.status(409).json({ message: "La verificación en dos pasos ya está activada" });
+    }
+
+    const secret = generateTotpSecret();
+    user.mfaPendingSecret = secret;
+    await user.save();
+
+    res.json({ secret, otpauthUri: buildOtpauthUri(secret, user.email) });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Confirms the enrollment with a code from the authenticator app and enables two-factor authentication.
+ *
+ * @function confirmMfa
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} req.body.code - Current 6-digit TOTP code.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Responds with HTTP 200 and `{ recoveryCodes }`; the codes are shown only once and stored hashed.
+ * - Responds with HTTP 400 if there is no pending enrollment or the code is invalid.
+ */
+export async function confirmMfa(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { code } = req.body;
+
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      return res.status(404).json({ message: "Usuario no encontrado" });
+    }
+
+    if (!user.mfaPendingSecret) {
+      return res.status(400).json({ message: "Primero debes iniciar la configuración de la verificación en dos pasos" });
+    }
+
+    const step = verifyTotp(user.mfaPendingSecret, code);
+    if (step === null) {
+      return res.status(400).json({ message: "Código de verificación inválido" });
+    }
+
+    const recoveryCodes = generateRecoveryCodes();
+
+    user.mfaEnabled = true;
+    user.mfaSecret = user.mfaPendingSecret;
+    user.mfaPendingSecret = undefined;
+    user.mfaLastUsedStep = step;
+    user.mfaRecoveryCodes = recoveryCodes.map((recoveryCode) => hashToken(normalizeRecoveryCode(recoveryCode)));
+    await user.save();
+
+    res.json({
+      message: "Verificación en dos pasos activada. Guarda tus códigos de recuperación en un lugar seguro",
+      recoveryCodes,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Completes a two-factor login with a TOTP code or a recovery code, opening the session.
+ *
+ * @function verifyMfa
+ * @async
+ * @param {Request} req - Express request object.
+ * @param {string} req.body.mfaToken - Token returned by `login` when `mfaRequired` is true.
+ * @param {string} [req.body.code] - Current 6-digit TOTP code.
+ * @param {string} [req.body.recoveryCode] - One of the unused recovery codes (consumed on success).
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Invalid codes count as failed logins for the login throttle (423/429 with `Retry-After`).
+ * - A TOTP code is accepted only once.
+ * - Records `login` / `login_failed` security events, like `login`.
+ * - On success sets the same cookies as `login` and responds with HTTP 200 and `{ userId }`.
+ */
+export async function verifyMfa(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { mfaToken, code, recoveryCode } = req.body;
+
+    if (!mfaToken || (!code && !recoveryCode)) {
+      return res.status(400).json({ message: "El token y un código de verificación son requeridos" });
+    }
+
+    const userId = verifyMfaPendingToken(mfaToken);
+    if (!userId) {
+      return res.status(401).json({ message: "La verificación expiró, inicia sesión nuevamente" });
+    }
+
+    const user = await User.findById(userId);
+    if (!user || !user.mfaEnabled || user.deletedAt) {
+      return res.status(401).json({ message: "La verificación expiró, inicia sesión nuevamente" });
+    }
+
+    const throttle = await checkLoginThrottle(user.email, req.ip);
+    if (!throttle.allowed) {
+      return sendThrottled(res, throttle);
+    }
+
+    let verified = false;
+    if (code) {
+      const step = verifyTotp(user.mfaSecret, code, user.mfaLastUsedStep);
+      if (step !== null) {
+        // Conditional update so the same code cannot be used twice concurrently
+        const result = await User.updateOne(
+          { _id: user._id, $or: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { $lt: step } }] },
+          { $set: { mfaLastUsedStep: step } }
+        );
+        verified = result.modifiedCount === 1;
+      }
+    } else {
+      const codeHash = hashToken(normalizeRecoveryCode(recoveryCode));
+      const result = await User.updateOne(
+        { _id: user._id, mfaRecoveryCodes: codeHash },
+        { $pull: { mfaRecoveryCodes: codeHash } }
+      );
+      verified = result.modifiedCount === 1;
+    }
+
+    if (!verified) {
+      await recordLoginFailure(user.email, req.ip, user);
+      await recordSecurityEvent(req, user._id, "login_failed", { reason: "invalid_mfa_code" });
+      return res.status(401).json({ message: "Código de verificación inválido" });
+    }
+
+    await clearLoginFailures(user.email);
+    await startSession(req, res, user);
+    await recordLogin(req, user, { mfa: code ? "totp" : "recovery_code" });
+
+    res.status(200).json({ message: "Login exitoso", userId: user._id });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Disables two-factor authentication after confirming the current password.
+ *
+ * @function disableMfa
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} req.body.password - Current password for confirmation.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Removes the secret and every recovery code.
+ * - Responds with HTTP 400 if the password is missing and 401 if it is incorrect.
+ */
+export async function disableMfa(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { password } = req.body;
+
+    if (!password) {
+      return res.status(400).json({ message: "Debes confirmar tu contraseña para desactivar la verificación en dos pasos" });
+    }
+
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      return res.status(404).json({ message: "Usuario no encontrado" });
+    }
+
+    if (!user.password) {
+      return res.status(409).json({ message: "Establece una contraseña para confirmar esta acción", passwordSet: false });
+    }
+
+    // Validate password
+    const isPasswordValid = await verifyPassword(password, user);
+    if (!isPasswordValid) {
+      return res.status(401).json({ message: "Contraseña incorrecta" });
+    }
+
+    user.mfaEnabled = false;
+    user.mfaSecret = undefined;
+    user.mfaPendingSecret = undefined;
+    user.mfaLastUsedStep = undefined;
+    user.mfaRecoveryCodes = [];
+    await user.save();
+
+    res.json({ message: "Verificación en dos pasos desactivada" });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -1,35 +1,178 @@
 /**
  * @file Movie controller.
  * @description Handles CRUD operations for movies, including listing, retrieving,
- * creating, and deleting movies associated with authenticated users.
+ * creating, updating (notes and tags) and deleting movies associated with authenticated users,
+ * the tag vocabulary, and the export and import of saved movies and ratings.
  */
 
 import { Request, Response } from 'express';
 import Movie from '../models/movie.model';
+import Rating from '../models/rating.model';
+import User from '../models/user.model';
+import { isRestrictedForUnverified } from '../middleware/verifiedEmail';
+import { ensureDefaultList, addMovieToList, removeMovieFromLists } from '../utils/lists';
+import { parseWatchedFilter, getWatchedPexelsIds } from '../utils/watchProgress';
+import { toCsv, parseCsv } from '../utils/csv';
+import { normalizeTags } from '../utils/tags';
+import { encodeCursor, decodeCursor } from '../utils/cursor';
+import { resolveVideo, sendVideoUnavailable } from '../utils/videoCatalog';
+import { VideoProviderError } from '../providers/videoProvider';
+import {
+  MOVIE_TRANSFER_COLUMNS,
+  MAX_IMPORT_ROWS,
+  buildMovieTransferRows,
+  importMovieRows,
+} from '../utils/movieTransfer';
+
+const mongoose = require('mongoose');
+
+/**
+ * Sort options of `listMovies`, by value of the `sort` query parameter.
+ */
+const MOVIE_SORTS: Record<string, { field: "createdAt" | "title" | "averageRating"; direction: 1 | -1 }> = {
+  "-createdAt": { field: "createdAt", direction: -1 },
+  createdAt: { field: "createdAt", direction: 1 },
+  title: { field: "title", direction: 1 },
+  "-title": { field: "title", direction: -1 },
+  "-rating": { field: "averageRating", direction: -1 },
+  rating: { field: "averageRating", direction: 1 },
+};
+
+/**
+ * Default and maximum number of movies returned per page.
+ */
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Titles are compared the way Spanish speakers expect (case and accents only break ties);
+ * the title index uses the same collation.
+ */
+const TITLE_COLLATION = { locale: "es" };
+
+/**
+ * Escapes a user supplied string for use inside a regular expression.
+ *
+ * @param {string} text - Raw text.
+ * @returns {string} Text matching itself literally.
+ */
+function escapeRegex(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
 
 /**
- * Lists all movies and includes the creator user via `populate('userId')`.
+ * Lists the authenticated user's saved movies, a page at a time.
  *
  * @function listMovies
  * @async
  * @param {Request} req - Express request object.
  * @param {object} [req.user] - Authenticated user injected by auth middleware.
  * @param {string} [req.user.userId] - Authenticated user's id.
+ * @param {string} [req.query.sort] - `-createdAt` (default), `createdAt`, `title`, `-title`, `-rating` or `rating`
+ *   (average rating of the video across users).
+ * @param {number} [req.query.limit] - Page size (1-100, default 20).
+ * @param {string} [req.query.cursor] - `nextCursor` of the previous page.
+ * @param {string} [req.query.title] - Only movies whose title contains this text (case-insensitive).
+ * @param {string} [req.query.pexelUser] - Only movies by this Pexels author (case-insensitive).
+ * @param {string} [req.query.from] - ISO date; only movies saved on or after it.
+ * @param {string} [req.query.to] - ISO date; only movies saved on or before it.
+ * @param {string} [req.query.watched] - `true` to only return watched movies, `false` for unwatched ones.
+ * @param {string} [req.query.tags] - Comma separated tags; only movies with all of them (or any, see `tagMatch`).
+ * @param {string} [req.query.tagMatch] - `all` (default) or `any`.
  * @param {Response} res - Express response object.
  * @returns {Promise<void>} Resolves after sending the HTTP response.
  * @remarks
- * - Sorts results by `createdAt` in descending order.
- * - Responds with HTTP 200 and the movie array on success.
- * - Intended to return HTTP 500 on unexpected failure (no explicit try/catch here).
+ * - Responds with HTTP 200 and `{ movies, nextCursor, total }`; each movie includes its
+ *   `averageRating` (0 without ratings), `nextCursor` is `null` on the last page and `total`
+ *   counts every movie matching the filters.
+ * - Responds with HTTP 400 for an unknown sort, an invalid cursor, date, `watched` or tag filter.
+ * - Responds with HTTP 500 on unexpected failure.
  */
 export async function listMovies(req: Request, res: Response) {
-try {
-    const userId = req.user.userId; 
-    const movies = await Movie.find({ userId })
-      .populate("userId", "firstName lastName email")
-      .sort({ createdAt: -1 });
+  try {
+    const userId = new mongoose.Types.ObjectId(String(req.user.userId));
+    const sort = MOVIE_SORTS[String(req.query.sort || "-createdAt")];
+    if (!sort) {
+      return res.status(400).json({ message: "Orden inválido", allowed: Object.keys(MOVIE_SORTS) });
+    }
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    const watched = parseWatchedFilter(req.query.watched);
+    if (watched === null) {
+      return res.status(400).json({ message: "watched debe ser true o false" });
+    }
+
+    const filter: Record<string, any> = { userId };
+    if (req.query.title) {
+      filter.title = new RegExp(escapeRegex(String(req.query.title)), "i");
+    }
+    if (req.query.pexelUser) {
+      filter.pexelUser = new RegExp(`^${escapeRegex(String(req.query.pexelUser))}$`, "i");
+    }
+    for (const [param, operator] of [["from", "$gte"], ["to", "$lte"]]) {
+      if (req.query[param] === undefined) continue;
+      const date = new Date(String(req.query[param]));
+      if (Number.isNaN(date.getTime())) {
+        return res.status(400).json({ message: `Fecha inválida en ${param}` });
+      }
+      filter.createdAt = { ...filter.createdAt, [operator]: date };
+    }
+    if (req.query.tags !== undefined) {
+      const tags = normalizeTags(String(req.query.tags));
+      const tagMatch = String(req.query.tagMatch || "all");
+      if (typeof tags === "string" || tags.length === 0 || (tagMatch !== "all" && tagMatch !== "any")) {
+        return res.status(400).json({ message: "Filtro de etiquetas inválido" });
+      }
+      filter.tags = { [tagMatch === "all" ? "$all" : "$in"]: tags };
+    }
+    if (watched !== undefined) {
+      filter.pexelsId = { [watched ? "$in" : "$nin"]: await getWatchedPexelsIds(userId) };
+    }
+
+    const ratingStages = [
+      { $lookup: { from: Rating.collection.name, localField: "pexelsId", foreignField: "moviePexelsId", as: "ratings" } },
+      { $addFields: { averageRating: { $ifNull: [{ $avg: "$ratings.value" }, 0] } } },
+      { $project: { ratings: 0 } },
+    ];
+
+    const pageStages: any[] = [];
+    if (req.query.cursor) {
+      const cursor = decodeCursor(String(req.query.cursor), sort.field);
+      if (!cursor) {
+        return res.status(400).json({ message: "Cursor inválido" });
+      }
+      const operator = sort.direction === 1 ? "$gt" : "$lt";
+      pageStages.push({
+        $match: {
+          $or: [
+            { [sort.field]: { [operator]: cursor.value } },
+            { [sort.field]: cursor.value, _id: { [operator]: cursor.id } },
+          ],
+        },
+      });
+    }
+    pageStages.push({ $sort: { [sort.field]: sort.direction, _id: sort.direction } }, { $limit: limit + 1 });
 
-    res.status(200).json(movies);
+    // Ratings are only joined for the returned page unless they are the sort key
+    const pipeline =
+      sort.field === "averageRating"
+        ? [{ $match: filter }, ...ratingStages, ...pageStages]
+        : [{ $match: filter }, ...pageStages, ...ratingStages];
+
+    const aggregation = Movie.aggregate(pipeline);
+    if (sort.field === "title") aggregation.collation(TITLE_COLLATION);
+
+    const [movies, total] = await Promise.all([aggregation, Movie.countDocuments(filter)]);
+
+    const hasMore = movies.length > limit;
+    if (hasMore) movies.pop();
+    const last = movies[movies.length - 1];
+
+    res.status(200).json({
+      movies,
+      nextCursor: hasMore ? encodeCursor(last[sort.field], last._id) : null,
+      total,
+    });
   } catch (error) {
     console.error("Error al listar películas:", error);
     res.status(500).json({ message: "Error al obtener las películas" });
@@ -71,29 +214,30 @@ export async function getMovie(req: Request, res: Response) {
  * @async
  * @param {Request} req - Express request object.
  * @param {object} req.body - Incoming movie payload.
- * @param {string} req.body.title - Movie title.
- * @param {string} req.body.pexelUser - Pexels user/author name.
  * @param {string} req.body.pexelsId - Pexels video ID.
- * @param {string} req.body.miniatureUrl - Movie thumbnail URL.
  * @param {object} [req.user] - Authenticated user injected by auth middleware.
  * @param {string} [req.user.userId] - Authenticated user's id used as `userId`.
  * @param {Response} res - Express response object.
  * @returns {Promise<void>} Resolves after sending the HTTP response.
  * @remarks
+ * - Title, author and thumbnail come from the `Video` catalog (fetched from the provider if needed);
+ *   values sent by the client are ignored.
+ * - The movie is also added to the user's default "Favoritos" list.
  * - Responds with HTTP 201 and the created movie document on success.
- * - Responds with HTTP 400 if required fields are missing.
+ * - Responds with HTTP 400 if `pexelsId` is missing, and 404 if the video does not exist.
  * - Responds with HTTP 401 if the request is unauthenticated.
+ * - Responds with HTTP 429 or 503 (with `Retry-After`) if the video cannot be verified right now.
  * - Responds with HTTP 500 and an error payload on unexpected failure.
  */
 export async function createMovie(req: Request, res: Response) {
   try {
-    const { title, pexelUser, pexelsId, miniatureUrl } = req.body;
+    const { pexelsId } = req.body;
     
     // Validate required fields
-    if (!title || !pexelUser || !pexelsId || !miniatureUrl) {
+    if (!pexelsId) {
       return res.status(400).json({ 
         msg: 'Todos los campos son requeridos',
-        required: ['title', 'pexelUser', 'pexelsId', 'miniatureUrl']
+        required: ['pexelsId']
       });
     }
     
@@ -101,22 +245,125 @@ export async function createMovie(req: Request, res: Response) {
     if (!req.user || !req.user.userId) {
       return res.status(401).json({ msg: 'Usuario no autenticado' });
     }
+
+    // Metadata comes from the catalog, never from the client
+    const video = await resolveVideo(pexelsId);
+    if (!video) {
+      return res.status(404).json({ msg: 'El video no existe' });
+    }
     
     const movie = new Movie({ 
-      title, 
-      pexelUser,
-      pexelsId,
-      miniatureUrl,
+      title: video.title, 
+      pexelUser: video.pexelUser,
+      pexelsId: video.pexelsId,
+      miniatureUrl: video.miniatureUrl,
+      videoId: video._id,
       userId: req.user.userId
     });
     
     await movie.save();
+
+    const favorites = await ensureDefaultList(req.user.userId);
+    await addMovieToList(favorites._id, movie);
+
     res.status(201).json(movie);
   } catch (error) {
+    if (error instanceof VideoProviderError) {
+      return sendVideoUnavailable(res, error, 'msg');
+    }
     res.status(500).json({ msg: 'Error al crear la película', error });
   }
 }
 
+/**
+ * Updates the private notes and tags of a saved movie.
+ *
+ * @function updateMovie
+ * @async
+ * @param {Request} req - Express request object.
+ * @param {object} req.params - Route parameters.
+ * @param {string} req.params.id - Pexels video ID of the saved movie.
+ * @param {string} [req.body.notes] - Private notes (up to 2000 characters; empty or `null` clears them).
+ * @param {string[]} [req.body.tags] - Tags, replacing the current ones (normalized to lowercase, up to 20,
+ *   without `,` or `;`).
+ * @param {Response} res - Express response object.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Only the fields present in the body are changed.
+ * - Responds with HTTP 200 and the updated movie document.
+ * - Responds with HTTP 400 for invalid notes or tags, 404 if the movie is not saved, and 500 on
+ *   unexpected failure.
+ */
+export async function updateMovie(req: Request, res: Response) {
+  try {
+    const { notes, tags } = req.body;
+    const update: Record<string, unknown> = {};
+
+    if (notes !== undefined) {
+      if (notes !== null && typeof notes !== 'string') {
+        return res.status(400).json({ message: 'notes debe ser un texto' });
+      }
+      if (notes && notes.trim().length > 2000) {
+        return res.status(400).json({ message: 'Las notas pueden tener máximo 2000 caracteres' });
+      }
+      update.notes = notes ? notes.trim() : '';
+    }
+    if (tags !== undefined) {
+      const normalized = normalizeTags(tags);
+      if (typeof normalized === 'string') {
+        return res.status(400).json({ message: normalized });
+      }
+      update.tags = normalized;
+    }
+    if (Object.keys(update).length === 0) {
+      return res.status(400).json({ message: 'Envía notes o tags para actualizar' });
+    }
+
+    const movie = await Movie.findOneAndUpdate(
+      { pexelsId: req.params.id, userId: req.user.userId },
+      { $set: update },
+      { new: true, runValidators: true }
+    );
+    if (!movie) {
+      return res.status(404).json({ message: 'Película no encontrada' });
+    }
+
+    res.status(200).json(movie);
+  } catch (error) {
+    console.error('Error al actualizar la película:', error);
+    res.status(500).json({ message: 'Error al actualizar la película' });
+  }
+}
+
+/**
+ * Lists the tags the authenticated user has used, with the number of movies for each.
+ *
+ * @function listTags
+ * @async
+ * @param {Request} req - Express request object.
+ * @param {Response} res - Express response object.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Responds with HTTP 200 and `[{ tag, count }]`, most used first.
+ * - Responds with HTTP 500 on unexpected failure.
+ */
+export async function listTags(req: Request, res: Response) {
+  try {
+    const tags = await Movie.aggregate([
+      { $match: { userId: new mongoose.Types.ObjectId(String(req.user.userId)), tags: { $exists: true, $ne: [] } } },
+      { $unwind: '$tags' },
+      { $group: { _id: '$tags', count: { $sum: 1 } } },
+      { $sort: { count: -1, _id: 1 } },
+      { $project: { _id: 0, tag: '$_id', count: 1 } },
+    ]);
+
+    res.status(200).json(tags);
+  } catch (error) {
+    console.error('Error al listar etiquetas:', error);
+    res.status(500).json({ message: 'Error al obtener las etiquetas' });
+  }
+}
+
 /**
  * Deletes a movie by its identifier.
  *
@@ -128,6 +375,7 @@ export async function createMovie(req: Request, res: Response) {
  * @param {Response} res - Express response object.
  * @returns {Promise<void>} Resolves after sending the HTTP response.
  * @remarks
+ * - The movie is also removed from every list of the user.
  * - Responds with HTTP 204 (no content) when the movie is deleted.
  * - Responds with HTTP 404 if the movie does not exist.
  * - Responds with HTTP 500 and an error payload on unexpected failure.
@@ -143,9 +391,115 @@ export async function deleteMovie(req: Request, res: Response) {
     if (!movie) {
       return res.status(404).json({ msg: 'Película no encontrada o no tienes permiso para eliminarla' });
     }
+
+    await removeMovieFromLists(req.user.userId, movie.pexelsId);
     
     res.status(200).json({ msg: 'Película eliminada exitosamente', movie });
   } catch (error) {
     res.status(500).json({ msg: 'Error al eliminar la película', error });
   }
 }
+
+/**
+ * Exports the authenticated user's saved movies and ratings.
+ *
+ * @function exportMovies
+ * @async
+ * @param {Request} req - Express request object.
+ * @param {string} [req.query.format] - `json` (default) or `csv`.
+ * @param {Response} res - Express response object.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - One row per video with `pexelsId`, `title`, `pexelUser`, `miniatureUrl`, `saved`, `savedAt`,
+ *   `rating`, `notes` and `tags`; videos only rated have `saved: false`. `importMovies` accepts the same file.
+ * - Responds with the file as an attachment (`{ exportedAt, items }` for JSON).
+ * - Responds with HTTP 400 for an unknown format and 500 on unexpected failure.
+ */
+export async function exportMovies(req: Request, res: Response) {
+  try {
+    const format = String(req.query.format || 'json');
+    if (format !== 'json' && format !== 'csv') {
+      return res.status(400).json({ message: 'Formato inválido', allowed: ['json', 'csv'] });
+    }
+
+    const items = await buildMovieTransferRows(req.user.userId);
+    const exportedAt = new Date();
+    const fileName = `film-unity-peliculas-${exportedAt.toISOString().slice(0, 10)}.${format}`;
+
+    res.set('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.set('Cache-Control', 'no-store');
+
+    if (format === 'csv') {
+      res.set('Content-Type', 'text/csv; charset=utf-8');
+      return res.send(toCsv(items, MOVIE_TRANSFER_COLUMNS));
+    }
+    res.json({ exportedAt, items });
+  } catch (error) {
+    console.error('Error al exportar películas:', error);
+    res.status(500).json({ message: 'Error al exportar las películas' });
+  }
+}
+
+/**
+ * Imports saved movies and ratings from a file produced by `exportMovies`.
+ *
+ * @function importMovies
+ * @async
+ * @param {Request} req - Express request object.
+ * @param {string} [req.query.format] - `json` or `csv`; defaults to the request `Content-Type`.
+ * @param {string|Object} req.body - CSV text (`Content-Type: text/csv`), or JSON `{ items }` or an array of rows.
+ * @param {Response} res - Express response object.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Only `pexelsId` is required per row; `saved` defaults to `true`. Title, author and thumbnail
+ *   of new movies are taken from the `Video` catalog.
+ * - Ratings are not imported for users with an unverified email when the policy restricts ratings
+ *   (`UNVERIFIED_USER_RESTRICTIONS`); those rows are reported as failed unless a movie was saved.
+ * - Responds with HTTP 200 and `{ summary: { imported, skipped, failed }, rows }`, with one
+ *   report per row (see `ImportRowReport`).
+ * - Responds with HTTP 400 for an unreadable or empty file, 413 for more than 500 rows, and 500 on
+ *   unexpected failure.
+ */
+export async function importMovies(req: Request, res: Response) {
+  try {
+    const format = String(req.query.format || (req.is('text/csv') || typeof req.body === 'string' ? 'csv' : 'json'));
+    if (format !== 'json' && format !== 'csv') {
+      return res.status(400).json({ message: 'Formato inválido', allowed: ['json', 'csv'] });
+    }
+
+    let rows: any;
+    if (format === 'csv') {
+      if (typeof req.body !== 'string') {
+        return res.status(400).json({ message: 'Envía el archivo CSV con Content-Type: text/csv' });
+      }
+      try {
+        rows = parseCsv(req.body);
+      } catch (error) {
+        return res.status(400).json({ message: 'El archivo CSV no es válido' });
+      }
+    } else {
+      rows = Array.isArray(req.body) ? req.body : req.body?.items;
+    }
+
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return res.status(400).json({ message: 'El archivo no contiene filas para importar' });
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return res.status(413).json({ message: `Puedes importar máximo ${MAX_IMPORT_ROWS} filas a la vez` });
+    }
+
+    // Ratings follow the same verification policy as POST /ratings
+    const allowRatings =
+      !isRestrictedForUnverified('ratings') ||
+      Boolean((await User.findById(req.user.userId).select('emailVerified'))?.emailVerified);
+
+    const reports = await importMovieRows(req.user.userId, rows, allowRatings);
+    const summary = { imported: 0, skipped: 0, failed: 0 };
+    for (const report of reports) summary[report.status]++;
+
+    res.status(200).json({ summary, rows: reports });
+  } catch (error) {
+    console.error('Error al importar películas:', error);
+    res.status(500).json({ message: 'Error al importar las películas' });
+  }
+}
@@ -0,0 +1,321 @@
+/**
+ * @file oidc.controller.ts
+ * @description Controller functions for OpenID Connect sign-in (authorization code with PKCE):
+ * provider list, redirect to the provider, callback handling with account linking by
+ * verified email, and unlinking of providers.
+ */
+
+import { Request, Response, NextFunction } from "express";
+import User from "../models/user.model";
+import AccessToken from "../models/accessToken.model";
+import { startSession, revokeSessions, signMfaPendingToken } from "../utils/session";
+import { getEmailLockState } from "../utils/loginThrottle";
+import { normalizeEmail } from "../utils/emailAddress";
+import { recordSecurityEvent, recordLogin } from "../utils/securityEvents";
+import {
+  OidcProvider,
+  listOidcProviders,
+  getOidcProvider,
+  createAuthorizationRequest,
+  exchangeAuthorizationCode,
+} from "../utils/oidc";
+
+const jwt = require("jsonwebtoken");
+
+/**
+ * Cookie holding the state, nonce and PKCE verifier between the redirect and the callback.
+ */
+const STATE_COOKIE = "oidc_state";
+
+/**
+ * Time the user has to complete the sign-in at the provider.
+ */
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Options of the state cookie. It must be `sameSite: "lax"` so the browser sends it
+ * on the top-level redirect back from the provider.
+ *
+ * @returns {Object} Cookie options restricted to the OIDC routes.
+ */
+function stateCookieOptions() {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    path: "/api/auth/oidc",
+  };
+}
+
+/**
+ * Builds the callback URL registered at the provider.
+ *
+ * @param {OidcProvider} provider - Identity provider.
+ * @returns {string} `<OIDC_REDIRECT_BASE_URL>/api/auth/oidc/<id>/callback` (the base defaults to
+ *   `http://localhost:<PORT>`).
+ */
+function callbackUrl(provider: OidcProvider): string {
+  const base = process.env.OIDC_REDIRECT_BASE_URL || `http://localhost:${process.env.PORT || 4000}`;
+  return `${base.replace(/\/+$/, "")}/api/auth/oidc/${provider.id}/callback`;
+}
+
+/**
+ * Sends the browser back to the frontend with the result of the sign-in.
+ *
+ * @param {Response} res - Express response object.
+ * @param {Object} query - Query parameters (`status`, `error`, `provider`).
+ * @param {string} [mfaToken] - Token to complete a two-factor login; sent in the fragment so it
+ *   does not reach server logs.
+ */
+function redirectToFrontend(res: Response, query: Record<string, string>, mfaToken?: string) {
+  const url = `${process.env.FRONTEND_URL}/acceso-externo?${new URLSearchParams(query).toString()}`;
+  res.redirect(mfaToken ? `${url}#mfaToken=${encodeURIComponent(mfaToken)}` : url);
+}
+
+/**
+ * Lists the identity providers users can sign in with.
+ *
+ * @function listProviders
+ * @param {Request} req - Express request object.
+ * @param {Response} res - Express response object.
+ * @returns {void} Responds with `[{ id, name, url }]`, where `url` starts the sign-in.
+ */
+export function listProviders(req: Request, res: Response) {
+  res.json(
+    listOidcProviders().map((provider) => ({
+      id: provider.id,
+      name: provider.name,
+      url: `/api/auth/oidc/${provider.id}`,
+    }))
+  );
+}
+
+/**
+ * Starts the sign-in with an identity provider by redirecting the browser to it.
+ *
+ * @function startOidcLogin
+ * @async
+ * @param {Request} req - Express request object.
+ * @param {string} req.params.provider - Provider identifier.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the redirect.
+ * @remarks
+ * - Stores `state`, `nonce` and the PKCE verifier in a signed, short-lived cookie.
+ * - Responds with HTTP 404 for an unknown provider; redirects to the frontend with
+ *   `error=provider_unavailable` if the provider cannot be reached.
+ */
+export async function startOidcLogin(req: Request, res: Response, next: NextFunction) {
+  const provider = getOidcProvider(String(req.params.provider));
+  if (!provider) {
+    return res.status(404).json({ message: "Proveedor no encontrado" });
+  }
+
+  try {
+    const authorization = await createAuthorizationRequest(provider, callbackUrl(provider));
+
+    const stateToken = jwt.sign(
+      {
+        purpose: "oidc_state",
+        provider: provider.id,
+        state: authorization.state,
+        nonce: authorization.nonce,
+        codeVerifier: authorization.codeVerifier,
+      },
+      process.env.JWT_SECRET,
+      { expiresIn: Math.floor(STATE_TTL_MS / 1000) }
+    );
+
+    res.cookie(STATE_COOKIE, stateToken, { ...stateCookieOptions(), maxAge: STATE_TTL_MS });
+    res.redirect(authorization.url);
+  } catch (error) {
+    console.error(`Error starting OIDC login with "${provider.id}":`, error);
+    redirectToFrontend(res, { status: "error", error: "provider_unavailable", provider: provider.id });
+  }
+}
+
+/**
+ * Finds the account for an external identity, linking or creating it when needed.
+ *
+ * @async
+ * @param {Request} req - Express request object (for the audit log).
+ * @param {OidcProvider} provider - Identity provider.
+ * @param {Object} identity - Verified identity returned by the provider.
+ * @returns {Promise<any>} The user document, or a string error code.
+ * @remarks
+ * - An unknown identity is linked to the account with the same email only if the provider
+ *   verified it. If that account never verified its email, its password, sessions and access
+ *   tokens are dropped, since whoever registered it may not own the address.
+ */
+async function resolveUser(req: Request, provider: OidcProvider, identity: any): Promise<any> {
+  const linked = await User.findOne({
+    identities: { $elemMatch: { provider: provider.id, subject: identity.subject } },
+  });
+  if (linked) return linked;
+
+  if (!identity.email || !identity.emailVerified) return "email_not_verified";
+
+  const newIdentity = { provider: provider.id, subject: identity.subject, email: identity.email, linkedAt: new Date() };
+
+  const existing = await User.findOne({ email: normalizeEmail(identity.email) });
+  if (existing) {
+    if (existing.deletedAt) return "account_deleted";
+
+    existing.identities.push(newIdentity);
+    if (!existing.emailVerified) {
+      existing.emailVerified = true;
+      existing.password = undefined;
+      existing.passwordHistory = [];
+      await revokeSessions({ userId: existing._id }, "identity_linked");
+      await AccessToken.updateMany({ userId: existing._id, revokedAt: null }, { $set: { revokedAt: new Date() } });
+    }
+    await existing.save();
+    await recordSecurityEvent(req, existing._id, "identity_linked", { provider: provider.id });
+    return existing;
+  }
+
+  const user = new User({
+    firstName: identity.firstName || identity.email.split("@")[0],
+    lastName: identity.lastName,
+    email: normalizeEmail(identity.email),
+    emailVerified: true,
+    identities: [newIdentity],
+  });
+  await user.save();
+  await recordSecurityEvent(req, user._id, "identity_linked", { provider: provider.id, accountCreated: true });
+  return user;
+}
+
+/**
+ * Completes the sign-in with an identity provider and redirects the browser to the frontend.
+ *
+ * @function oidcCallback
+ * @async
+ * @param {Request} req - Express request object.
+ * @param {string} req.params.provider - Provider identifier.
+ * @param {string} req.query.code - Authorization code.
+ * @param {string} req.query.state - State of the authorization request.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the redirect.
+ * @remarks
+ * - Redirects to `<FRONTEND_URL>/acceso-externo` with `status=success`, `status=mfa_required`
+ *   (and `#mfaToken=` to be completed through `verifyMfa`) or `status=error&error=<code>`, where the
+ *   code is one of `access_denied`, `invalid_state`, `provider_error`, `email_not_verified`,
+ *   `account_deleted` or `account_locked`.
+ * - Accounts created here have no password, last name or age; they can be completed later through
+ *   `updateProfile` and `setPassword`.
+ * - Opens the session like `login` and records the same security events.
+ */
+export async function oidcCallback(req: Request, res: Response, next: NextFunction) {
+  const provider = getOidcProvider(String(req.params.provider));
+  if (!provider) {
+    return res.status(404).json({ message: "Proveedor no encontrado" });
+  }
+
+  const stateToken = req.cookies[STATE_COOKIE];
+  res.clearCookie(STATE_COOKIE, stateCookieOptions());
+
+  const fail = (error: string) => redirectToFrontend(res, { status: "error", error, provider: provider.id });
+
+  try {
+    if (req.query.error) {
+      return fail("access_denied");
+    }
+
+    let saved: any;
+    try {
+      saved = jwt.verify(stateToken, process.env.JWT_SECRET);
+    } catch (err) {
+      return fail("invalid_state");
+    }
+    if (saved.purpose !== "oidc_state" || saved.provider !== provider.id || saved.state !== req.query.state || !req.query.code) {
+      return fail("invalid_state");
+    }
+
+    let identity;
+    try {
+      identity = await exchangeAuthorizationCode(
+        provider,
+        String(req.query.code),
+        saved.codeVerifier,
+        saved.nonce,
+        callbackUrl(provider)
+      );
+    } catch (error) {
+      console.error(`Error completing OIDC login with "${provider.id}":`, error);
+      return fail("provider_error");
+    }
+
+    const user = await resolveUser(req, provider, identity);
+    if (typeof user === "string") {
+      return fail(user);
+    }
+
+    if (user.deletedAt) {
+      return fail("account_deleted");
+    }
+
+    const lockState = await getEmailLockState(user.email);
+    if (!lockState.allowed) {
+      return fail("account_locked");
+    }
+
+    if (user.mfaEnabled) {
+      return redirectToFrontend(res, { status: "mfa_required", provider: provider.id }, signMfaPendingToken(user));
+    }
+
+    await startSession(req, res, user);
+    await recordLogin(req, user, { method: "oidc", provider: provider.id });
+
+    redirectToFrontend(res, { status: "success", provider: provider.id });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Unlinks an identity provider from the authenticated user's account.
+ *
+ * @function unlinkProvider
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} req.params.provider - Provider identifier.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Responds with HTTP 404 if the provider is not linked, and 409 if it is the last one and the
+ *   account has no password or an incomplete profile (last name and age).
+ */
+export async function unlinkProvider(req: Request, res: Response, next: NextFunction) {
+  try {
+    const user = await User.findById(req.user.userId);
+    if (!user) {
+      return res.status(404).json({ message: "Usuario no encontrado" });
+    }
+
+    const providerId = String(req.params.provider).toLowerCase();
+    const remaining = user.identities.filter((identity: any) => identity.provider !== providerId);
+    if (remaining.length === user.identities.length) {
+      return res.status(404).json({ message: "Proveedor no vinculado" });
+    }
+
+    if (remaining.length === 0) {
+      if (!user.password) {
+        return res.status(409).json({ message: "Establece una contraseña antes de desvincular tu único método de acceso" });
+      }
+      if (!user.lastName || !user.age) {
+        return res.status(409).json({ message: "Completa tu perfil antes de desvincular tu único proveedor" });
+      }
+    }
+
+    user.identities = remaining;
+    await user.save();
+    await recordSecurityEvent(req, user._id, "identity_unlinked", { provider: providerId });
+
+    res.json({ message: "Proveedor desvinculado" });
+  } catch (error) {
+    next(error);
+  }
+}
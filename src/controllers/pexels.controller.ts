@@ -1,34 +1,75 @@
 /**
  * @file Pexels API controller.
- * @description Handles integration with Pexels API to fetch popular videos,
+ * @description Handles the video catalog (Pexels, or the provider set in `VIDEO_PROVIDER`) to fetch popular videos,
  * search videos by query, and retrieve specific videos by ID.
  */
 import { Request, Response } from 'express';
-import { createClient } from "pexels";
+import { parseWatchedFilter, getWatchedPexelsIds } from '../utils/watchProgress';
+import { cachedPexelsCall, sendCached } from '../utils/pexelsCache';
+import { videoProvider } from '../config/videoProvider';
+import { VideoProviderError } from '../providers/videoProvider';
+import { upsertVideos } from '../utils/videoCatalog';
+import { parseVideoFormat, toVideoDto, toVideoPageDto } from '../utils/videoDto';
 
-const client = createClient(process.env.PEXELS_API_KEY as string);
+/**
+ * Answers a failed catalog call.
+ *
+ * @param {Response} res - Express response object.
+ * @param {unknown} err - Error thrown by the video provider.
+ * @param {string} fallbackMessage - Message for unexpected errors.
+ * @returns {Response} The mapped status (404, 429 or 503 with `Retry-After`, 502) with
+ *   `{ error, retryAfter }`, or 500 with `{ error: fallbackMessage }`.
+ */
+function sendProviderError(res: Response, err: unknown, fallbackMessage: string) {
+  if (err instanceof VideoProviderError) {
+    if (err.retryAfter) {
+      res.set("Retry-After", String(err.retryAfter));
+    }
+    return res.status(err.status).json({ error: err.message, retryAfter: err.retryAfter });
+  }
+  console.error(err);
+  return res.status(500).json({ error: fallbackMessage });
+}
 
 /**
  * Fetches a list of popular videos from the Pexels API.
  *
  * @function getPopularMovies
  * @async
- * @param {Request} _req - Express request object (unused).
+ * @param {Request} req - Express request object (reads `If-None-Match`).
+ * @param {string} [req.query.quality=auto] - Preferred quality of the `selected` source: `hd`, `sd` or `auto`.
+ * @param {number} [req.query.maxWidth] - Widest source acceptable for `selected`.
+ * @param {string} [req.query.raw] - `true` to get the provider payload instead of the normalized format.
  * @param {Response} res - Express response object.
  * @returns {Promise<void>} Resolves after sending the HTTP response.
  * @remarks
  * - Retrieves up to 10 of the most popular videos from Pexels.
- * - Requires a valid `PEXELS_API_KEY` environment variable.
- * - Responds with HTTP 200 and the API response JSON on success.
- * - Responds with HTTP 500 if the request fails.
+ * - Responds with a normalized page `{ page, perPage, totalResults, videos }` (see `utils/videoDto`).
+ * - Served by the configured video provider (`VIDEO_PROVIDER`, Pexels by default).
+ * - Served from the Pexels cache (see `utils/pexelsCache`) with `Cache-Control`, `ETag` and `X-Cache` headers.
+ * - Videos fetched from the provider are stored in the local `Video` catalog.
+ * - Responds with HTTP 200 on success, or 304 if `If-None-Match` matches.
+ * - Responds with HTTP 400 if `quality`, `maxWidth` or `raw` are invalid.
+ * - Responds with HTTP 429 or 503 (with `Retry-After`) when the Pexels quota is exhausted or Pexels
+ *   is unavailable, and there is no cached response.
+ * - Responds with HTTP 500 if the request fails otherwise.
  */
-export const getPopularMovies = async (_req: Request, res: Response) => {
+export const getPopularMovies = async (req: Request, res: Response) => {
   try {
-    const data = await client.videos.popular({ per_page: 10, min_width: 1280, min_height: 720 });
-    res.json(data);
+    const format = parseVideoFormat(req.query);
+    if (typeof format === "string") {
+      return res.status(400).json({ error: format });
+    }
+
+    const params = { per_page: 10, min_width: 1280, min_height: 720 };
+    const result = await cachedPexelsCall("popular", { provider: videoProvider.name, ...params }, async () => {
+      const data = await videoProvider.popular(params);
+      await upsertVideos(data.videos);
+      return data;
+    });
+    sendCached(req, res, result, format.raw ? result.value : toVideoPageDto(result.value, format));
   } catch (err) {
-    console.error(err);
-    res.status(500).json({ error: "Failed to fetch popular videos" });
+    sendProviderError(res, err, "Failed to fetch popular videos");
   }
 };
 
@@ -40,14 +81,24 @@ export const getPopularMovies = async (_req: Request, res: Response) => {
  * @param {Request} req - Express request object.
  * @param {object} req.query - Query parameters.
  * @param {string} req.query.query - Search term for videos.
+ * @param {string} [req.query.watched] - `true` to only keep videos the user watched, `false` to hide them.
+ * @param {string} [req.query.quality=auto] - Preferred quality of the `selected` source: `hd`, `sd` or `auto`.
+ * @param {number} [req.query.maxWidth] - Widest source acceptable for `selected`.
+ * @param {string} [req.query.raw] - `true` to get the provider payload instead of the normalized format.
  * @param {Response} res - Express response object.
  * @returns {Promise<void>} Resolves after sending the HTTP response.
  * @remarks
  * - Returns up to 10 videos that match the search query.
- * - Requires a valid `PEXELS_API_KEY` environment variable.
- * - Responds with HTTP 200 and the Pexels API JSON data on success.
- * - Responds with HTTP 400 if query parameter is missing.
- * - Responds with HTTP 500 if the request fails.
+ * - Responds with a normalized page `{ page, perPage, totalResults, videos }` (see `utils/videoDto`).
+ * - The `watched` filter applies to the requested page, so it may return fewer than `per_page` videos.
+ * - Served by the configured video provider (`VIDEO_PROVIDER`, Pexels by default).
+ * - Served from the Pexels cache (see `utils/pexelsCache`); the `ETag` covers the filtered body.
+ * - Videos fetched from the provider are stored in the local `Video` catalog.
+ * - Responds with HTTP 200 on success, or 304 if `If-None-Match` matches.
+ * - Responds with HTTP 400 if query parameter is missing, or `quality`, `maxWidth` or `raw` are invalid.
+ * - Responds with HTTP 429 or 503 (with `Retry-After`) when the Pexels quota is exhausted or Pexels
+ *   is unavailable, and there is no cached response.
+ * - Responds with HTTP 500 if the request fails otherwise.
  */
 export const getSearchedMovies = async (req: Request, res: Response) => {
   try {
@@ -66,12 +117,33 @@ export const getSearchedMovies = async (req: Request, res: Response) => {
     if (!searchQuery) {
       return res.status(400).json({ error: "Query parameter 'query' is required" });
     }
-    
-    const data = await client.videos.search({ query: searchQuery, per_page: perPage, orientation, size, locale, page });
-    res.json(data);
+
+    const watched = parseWatchedFilter(req.query.watched);
+    if (watched === null) {
+      return res.status(400).json({ error: "watched must be true or false" });
+    }
+
+    const format = parseVideoFormat(req.query);
+    if (typeof format === "string") {
+      return res.status(400).json({ error: format });
+    }
+
+    const params = { query: searchQuery, per_page: perPage, orientation, size, locale, page };
+    const result = await cachedPexelsCall("search", { provider: videoProvider.name, ...params }, async () => {
+      const data = await videoProvider.search(params);
+      await upsertVideos(data.videos);
+      return data;
+    });
+
+    let data = result.value;
+    if (watched !== undefined) {
+      const watchedIds = new Set(await getWatchedPexelsIds(req.user.userId));
+      data = { ...data, videos: data.videos.filter((video: any) => watchedIds.has(String(video.id)) === watched) };
+    }
+
+    sendCached(req, res, result, format.raw ? data : toVideoPageDto(data, format));
   } catch (err) {
-    console.error(err);
-    res.status(500).json({ error: "Failed to fetch searched videos" });
+    sendProviderError(res, err, "Failed to fetch searched videos");
   }
 };
 
@@ -83,19 +155,38 @@ export const getSearchedMovies = async (req: Request, res: Response) => {
  * @param {Request} req - Express request object.
  * @param {object} req.params - Route parameters.
  * @param {string} req.params.id - Unique identifier for the Pexels video.
+ * @param {string} [req.query.quality=auto] - Preferred quality of the `selected` source: `hd`, `sd` or `auto`.
+ * @param {number} [req.query.maxWidth] - Widest source acceptable for `selected`.
+ * @param {string} [req.query.raw] - `true` to get the provider payload instead of the normalized format.
  * @param {Response} res - Express response object.
  * @returns {Promise<void>} Resolves after sending the HTTP response.
  * @remarks
- * - Requires a valid `PEXELS_API_KEY` environment variable.
- * - Responds with HTTP 200 and the video details on success.
- * - Responds with HTTP 500 if the request fails.
+ * - Served by the configured video provider (`VIDEO_PROVIDER`, Pexels by default).
+ * - Served from the Pexels cache (see `utils/pexelsCache`) with `Cache-Control`, `ETag` and `X-Cache` headers.
+ * - The video is stored in the local `Video` catalog when fetched from the provider.
+ * - Responds with HTTP 200 and the normalized video (see `utils/videoDto`) on success, or 304 if
+ *   `If-None-Match` matches.
+ * - Responds with HTTP 400 if `quality`, `maxWidth` or `raw` are invalid.
+ * - Responds with HTTP 404 if the catalog does not know the video.
+ * - Responds with HTTP 429 or 503 (with `Retry-After`) when the Pexels quota is exhausted or Pexels
+ *   is unavailable, and there is no cached response.
+ * - Responds with HTTP 500 if the request fails otherwise.
  */
 export const getSearchedMovieById = async (req: Request, res: Response) => {
   try {
-    const data = await client.videos.show({ id: req.params.id });
-    res.json(data);
+    const format = parseVideoFormat(req.query);
+    if (typeof format === "string") {
+      return res.status(400).json({ error: format });
+    }
+
+    const id = String(req.params.id);
+    const result = await cachedPexelsCall("video", { provider: videoProvider.name, id }, async () => {
+      const video = await videoProvider.getById(id);
+      await upsertVideos([video]);
+      return video;
+    });
+    sendCached(req, res, result, format.raw ? result.value : toVideoDto(result.value, format));
   } catch (err) {
-    console.error(err);
-    res.status(500).json({ error: "Failed to fetch searched video by id" });
+    sendProviderError(res, err, "Failed to fetch searched video by id");
   }
 };
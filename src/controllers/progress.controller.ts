@@ -0,0 +1,222 @@
+/**
+ * @file progress.controller.ts
+ * @description Controller functions for playback progress: storing the position reported by
+ * the player, the "continue watching" row, and marking videos as watched.
+ */
+
+import { Request, Response, NextFunction } from "express";
+import WatchProgress from "../models/watchProgress.model";
+import Movie from "../models/movie.model";
+
+/**
+ * Progress settings, configurable through environment variables.
+ *
+ * @property {number} completedRatio - Fraction of the video after which it counts as watched
+ *   (`WATCH_COMPLETED_RATIO`, default 0.9).
+ * @property {number} minPosition - Seconds a video must be played to appear in "continue watching"
+ *   (`WATCH_MIN_POSITION_SECONDS`, default 5).
+ */
+const config = {
+  completedRatio: Math.min(Number(process.env.WATCH_COMPLETED_RATIO) || 0.9, 1),
+  minPosition: Number(process.env.WATCH_MIN_POSITION_SECONDS ?? 5) || 0,
+};
+
+/**
+ * Default and maximum number of videos returned by "continue watching".
+ */
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+/**
+ * Progress of a video as read from the `WatchProgress` collection.
+ */
+interface ProgressEntry {
+  pexelsId: string;
+  position: number;
+  duration: number;
+  completed: boolean;
+  completedAt?: Date;
+  title?: string;
+  pexelUser?: string;
+  miniatureUrl?: string;
+  updatedAt: Date;
+}
+
+/**
+ * Shapes a progress document for the client.
+ *
+ * @param {ProgressEntry} progress - WatchProgress document or plain object.
+ * @returns {Object} `{ pexelsId, position, duration, percent, completed, completedAt, title, pexelUser, miniatureUrl, updatedAt }`.
+ */
+function toResponse(progress: ProgressEntry) {
+  return {
+    pexelsId: progress.pexelsId,
+    position: progress.position,
+    duration: progress.duration,
+    percent: progress.duration ? Math.min(Math.round((progress.position / progress.duration) * 100), 100) : 0,
+    completed: progress.completed,
+    completedAt: progress.completedAt,
+    title: progress.title,
+    pexelUser: progress.pexelUser,
+    miniatureUrl: progress.miniatureUrl,
+    updatedAt: progress.updatedAt,
+  };
+}
+
+/**
+ * Stores the playback position of a video for the authenticated user.
+ *
+ * @function saveProgress
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} req.params.pexelsId - Pexels video ID.
+ * @param {number} req.body.position - Playback position in seconds.
+ * @param {number} req.body.duration - Video duration in seconds.
+ * @param {boolean} [req.body.completed] - Marks the video as watched (`true`) or not (`false`) explicitly.
+ * @param {string} [req.body.title] - Video title, shown in "continue watching".
+ * @param {string} [req.body.pexelUser] - Pexels author name.
+ * @param {string} [req.body.miniatureUrl] - Thumbnail URL.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Reaching `WATCH_COMPLETED_RATIO` of the video marks it as watched; it stays watched when the
+ *   user plays it again, unless `completed: false` is sent.
+ * - Responds with the stored progress, or HTTP 400 for invalid values.
+ */
+export async function saveProgress(req: Request, res: Response, next: NextFunction) {
+  try {
+    const pexelsId = String(req.params.pexelsId).trim();
+    const { completed, title, pexelUser, miniatureUrl } = req.body;
+    const duration = Number(req.body.duration);
+    let position = Number(req.body.position);
+
+    if (!Number.isFinite(position) || !Number.isFinite(duration) || position < 0 || duration <= 0) {
+      return res.status(400).json({ message: "position y duration deben ser números válidos (segundos)" });
+    }
+    if (completed !== undefined && typeof completed !== "boolean") {
+      return res.status(400).json({ message: "completed debe ser true o false" });
+    }
+    position = Math.min(position, duration);
+
+    const now = new Date();
+    const update: Record<string, any> = { $set: { position, duration, updatedAt: now } };
+    for (const [field, value] of Object.entries({ title, pexelUser, miniatureUrl })) {
+      if (typeof value === "string" && value.trim()) update.$set[field] = value.trim();
+    }
+
+    if (completed === false) {
+      update.$set.completed = false;
+      update.$unset = { completedAt: 1 };
+    } else if (completed === true || position >= duration * config.completedRatio) {
+      update.$set.completed = true;
+      update.$min = { completedAt: now };
+    }
+
+    const progress = await WatchProgress.findOneAndUpdate(
+      { userId: req.user.userId, pexelsId },
+      update,
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+
+    res.json(toResponse(progress));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Retrieves the authenticated user's progress on a video.
+ *
+ * @function getProgress
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} req.params.pexelsId - Pexels video ID.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Responds with HTTP 404 if the user never played the video.
+ */
+export async function getProgress(req: Request, res: Response, next: NextFunction) {
+  try {
+    const progress = await WatchProgress.findOne({ userId: req.user.userId, pexelsId: String(req.params.pexelsId) });
+    if (!progress) {
+      return res.status(404).json({ message: "Sin progreso para este video" });
+    }
+
+    res.json(toResponse(progress));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Lists the videos the authenticated user started but did not finish, most recent first.
+ *
+ * @function continueWatching
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {number} [req.query.limit] - Number of videos (1-50, default 20).
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Videos played for less than `WATCH_MIN_POSITION_SECONDS` are left out.
+ * - Title and thumbnail come from the progress reports, or from the user's saved movie when the
+ *   player did not send them.
+ */
+export async function continueWatching(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.user.userId;
+    const limit = Math.min(Math.max(Number(req.query.limit) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    const entries: ProgressEntry[] = await WatchProgress.find({ userId, completed: false, position: { $gte: config.minPosition } })
+      .sort({ updatedAt: -1 })
+      .limit(limit)
+      .lean();
+
+    const missing = entries.filter((entry) => !entry.miniatureUrl || !entry.title).map((entry) => entry.pexelsId);
+    if (missing.length) {
+      const movies = await Movie.find({ userId, pexelsId: { $in: missing } }).select("pexelsId title pexelUser miniatureUrl").lean();
+      const byPexelsId = new Map(movies.map((movie: any) => [movie.pexelsId, movie]));
+      for (const entry of entries) {
+        const movie: any = byPexelsId.get(entry.pexelsId);
+        if (!movie) continue;
+        entry.title = entry.title || movie.title;
+        entry.pexelUser = entry.pexelUser || movie.pexelUser;
+        entry.miniatureUrl = entry.miniatureUrl || movie.miniatureUrl;
+      }
+    }
+
+    res.json(entries.map(toResponse));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Forgets the authenticated user's progress on a video (also clears the watched flag).
+ *
+ * @function deleteProgress
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} req.params.pexelsId - Pexels video ID.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Responds with HTTP 404 if there was no progress for the video.
+ */
+export async function deleteProgress(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await WatchProgress.deleteOne({ userId: req.user.userId, pexelsId: String(req.params.pexelsId) });
+    if (result.deletedCount !== 1) {
+      return res.status(404).json({ message: "Sin progreso para este video" });
+    }
+
+    res.json({ message: "Progreso eliminado" });
+  } catch (error) {
+    next(error);
+  }
+}
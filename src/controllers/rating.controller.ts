@@ -5,6 +5,8 @@
 
 import { Request, Response } from "express";
 import Rating from "../models/rating.model";
+import { resolveVideo, sendVideoUnavailable } from "../utils/videoCatalog";
+import { VideoProviderError } from "../providers/videoProvider";
 
 /**
  * Creates a new rating or updates an existing rating for a movie.
@@ -26,6 +28,8 @@ import Rating from "../models/rating.model";
  * - Responds with HTTP 201 for new rating or HTTP 200 for updated rating.
  * - Responds with HTTP 400 if required fields are missing or value is out of range (1-5).
  * - Responds with HTTP 401 if user is not authenticated.
+ * - Responds with HTTP 404 if the video does not exist (new ratings are linked to its catalog record).
+ * - Responds with HTTP 429 or 503 (with `Retry-After`) if the video cannot be verified right now.
  * - Responds with HTTP 500 on server error.
  * @example
  * POST /api/ratings
@@ -59,10 +63,18 @@ export const createOrUpdateRating = async (req: Request, res: Response) => {
       return res.status(200).json({ message: "Rating updated", rating: existingRating });
     }
 
-    // Otherwise, create a new rating
-    const newRating = await Rating.create({ userId, moviePexelsId, value });
+    // Otherwise, create a new rating of an existing video
+    const video = await resolveVideo(moviePexelsId);
+    if (!video) {
+      return res.status(404).json({ message: "Video not found" });
+    }
+
+    const newRating = await Rating.create({ userId, moviePexelsId: video.pexelsId, videoId: video._id, value });
     res.status(201).json({ message: "Rating created", rating: newRating });
   } catch (error) {
+    if (error instanceof VideoProviderError) {
+      return sendVideoUnavailable(res, error);
+    }
     console.error("Error creating/updating rating:", error);
     res.status(500).json({ message: "Server error creating/updating rating" });
   }
@@ -178,7 +190,7 @@ export const getRatingsByUser = async (req: Request, res: Response) => {
  * @remarks
  * - Verifies that the authenticated user is the owner of the rating.
  * - Responds with HTTP 200 and a success message when deleted.
- * - Responds with HTTP 403 if user is not the rating owner.
+ * - Responds with HTTP 403 if user is not the rating owner (also for anonymized ratings of purged accounts).
  * - Responds with HTTP 404 if rating is not found.
  * - Responds with HTTP 500 on server error.
  * @example
@@ -198,7 +210,8 @@ export const deleteRating = async (req: Request, res: Response) => {
       return res.status(404).json({ message: "Rating not found" });
     }
 
-    if (rating.userId.toString() !== userId) {
+    // userId is null for anonymized ratings of purged accounts, which nobody owns
+    if (rating.userId?.toString() !== userId) {
       return res.status(403).json({ message: "Unauthorized to delete this rating" });
     }
 
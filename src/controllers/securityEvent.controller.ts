@@ -0,0 +1,65 @@
+/**
+ * @file securityEvent.controller.ts
+ * @description Controller functions for users to review their security audit log.
+ */
+
+import { Request, Response, NextFunction } from "express";
+import SecurityEvent, { SECURITY_EVENT_TYPES, isSecurityEventType } from "../models/securityEvent.model";
+
+/**
+ * Default and maximum number of events returned per page.
+ */
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Lists the authenticated user's security events, newest first.
+ *
+ * @function listSecurityEvents
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} [req.query.type] - Only return events of this type (one of `SECURITY_EVENT_TYPES`).
+ * @param {string} [req.query.before] - ISO date; only return events older than it (next page).
+ * @param {number} [req.query.limit] - Page size (1-100, default 50).
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Responds with `{ events, nextBefore }`; `nextBefore` is `null` on the last page.
+ * - Responds with HTTP 400 for an unknown type or an invalid date.
+ */
+export async function listSecurityEvents(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { type, before } = req.query;
+    const limit = Math.min(Math.max(Number(req.query.limit) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    const filter: Record<string, unknown> = { userId: req.user.userId };
+
+    if (type !== undefined) {
+      if (!isSecurityEventType(type)) {
+        return res.status(400).json({ message: "Tipo de evento inválido", allowed: SECURITY_EVENT_TYPES });
+      }
+      filter.type = type;
+    }
+
+    if (before !== undefined) {
+      const beforeDate = new Date(String(before));
+      if (Number.isNaN(beforeDate.getTime())) {
+        return res.status(400).json({ message: "Fecha inválida" });
+      }
+      filter.createdAt = { $lt: beforeDate };
+    }
+
+    const events = await SecurityEvent.find(filter)
+      .select("type ip device userAgent metadata createdAt")
+      .sort({ createdAt: -1 })
+      .limit(limit);
+
+    res.json({
+      events,
+      nextBefore: events.length === limit ? events[events.length - 1].createdAt : null,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
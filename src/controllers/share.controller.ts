@@ -0,0 +1,283 @@
+/**
+ * @file share.controller.ts
+ * @description Controller functions for public share links of lists: publishing, regenerating
+ * and revoking a link, its view counts, and the public read-only view of a shared list.
+ */
+
+import { Request, Response, NextFunction } from "express";
+import List from "../models/list.model";
+import ListShare from "../models/listShare.model";
+import Rating from "../models/rating.model";
+import User from "../models/user.model";
+import { consumeRateLimit } from "../utils/rateLimit";
+import { sendThrottled } from "../utils/loginThrottle";
+
+const cryptoModule = require("crypto");
+const mongoose = require("mongoose");
+
+/**
+ * Share settings, configurable through environment variables.
+ *
+ * @property {number} maxViewsPerIp - Public views per IP and minute (`SHARE_VIEW_MAX_PER_IP`, default 120),
+ *   which also keeps slugs from being guessed by brute force.
+ */
+const config = {
+  maxViewsPerIp: Number(process.env.SHARE_VIEW_MAX_PER_IP) || 120,
+};
+
+/**
+ * Builds the public URL of a share link.
+ *
+ * @param {string} slug - Share slug.
+ * @returns {string} `<FRONTEND_URL>/lista/<slug>`.
+ */
+function shareUrl(slug: string): string {
+  return `${process.env.FRONTEND_URL}/lista/${slug}`;
+}
+
+/**
+ * Shapes a share link for its owner.
+ *
+ * @param {any} share - ListShare document.
+ * @returns {Object} `{ slug, url, active, views, lastViewedAt, createdAt, revokedAt }`.
+ */
+function toResponse(share: any) {
+  return {
+    slug: share.slug,
+    url: shareUrl(share.slug),
+    active: share.active,
+    views: share.views,
+    lastViewedAt: share.lastViewedAt,
+    createdAt: share.createdAt,
+    revokedAt: share.revokedAt,
+  };
+}
+
+/**
+ * Finds a list of the authenticated user.
+ *
+ * @async
+ * @param {Request} req - Express request object (expects `req.params.listId` and `req.user.userId`).
+ * @returns {Promise<any>} The list document, or `null` if it does not exist or belongs to someone else.
+ */
+async function findOwnList(req: Request): Promise<any> {
+  const listId = String(req.params.listId);
+  if (!mongoose.isValidObjectId(listId)) return null;
+  return List.findOne({ _id: listId, userId: req.user.userId }).select("_id userId");
+}
+
+/**
+ * Creates the active share link of a list, or returns the existing one.
+ *
+ * @async
+ * @param {any} list - List document.
+ * @returns {Promise<{ share: any, created: boolean }>} The active link and whether it is new.
+ */
+async function getOrCreateShare(list: any): Promise<{ share: any; created: boolean }> {
+  const existing = await ListShare.findOne({ listId: list._id, active: true });
+  if (existing) return { share: existing, created: false };
+
+  try {
+    const share = await ListShare.create({
+      userId: list.userId,
+      listId: list._id,
+      slug: cryptoModule.randomBytes(16).toString("base64url"),
+    });
+    return { share, created: true };
+  } catch (error: any) {
+    // Another request published the list at the same time
+    if (error?.code === 11000) {
+      const share = await ListShare.findOne({ listId: list._id, active: true });
+      if (share) return { share, created: false };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Publishes a list through a share link.
+ *
+ * @function shareList
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} req.params.listId - List id (the default "Favoritos" list can be shared too).
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Responds with HTTP 201 and the new link, or 200 with the link already active.
+ * - Responds with HTTP 404 if the list does not exist.
+ */
+export async function shareList(req: Request, res: Response, next: NextFunction) {
+  try {
+    const list = await findOwnList(req);
+    if (!list) {
+      return res.status(404).json({ message: "Lista no encontrada" });
+    }
+
+    const { share, created } = await getOrCreateShare(list);
+    res.status(created ? 201 : 200).json(toResponse(share));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Replaces the share link of a list with a new one; the old link stops working.
+ *
+ * @function regenerateShare
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} req.params.listId - List id.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Also publishes a list that had no active link. Responds with HTTP 201 and the new link, or 404
+ *   if the list does not exist.
+ */
+export async function regenerateShare(req: Request, res: Response, next: NextFunction) {
+  try {
+    const list = await findOwnList(req);
+    if (!list) {
+      return res.status(404).json({ message: "Lista no encontrada" });
+    }
+
+    await ListShare.updateMany({ listId: list._id, active: true }, { $set: { active: false, revokedAt: new Date() } });
+
+    const { share } = await getOrCreateShare(list);
+    res.status(201).json(toResponse(share));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Revokes the share link of a list.
+ *
+ * @function revokeShare
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} req.params.listId - List id.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Responds with HTTP 404 if the list does not exist or is not shared.
+ */
+export async function revokeShare(req: Request, res: Response, next: NextFunction) {
+  try {
+    const list = await findOwnList(req);
+    if (!list) {
+      return res.status(404).json({ message: "Lista no encontrada" });
+    }
+
+    const result = await ListShare.updateMany(
+      { listId: list._id, active: true },
+      { $set: { active: false, revokedAt: new Date() } }
+    );
+    if (result.modifiedCount === 0) {
+      return res.status(404).json({ message: "La lista no está compartida" });
+    }
+
+    res.json({ message: "Enlace revocado" });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Lists the share links of a list, active and revoked, with their view counts.
+ *
+ * @function listShares
+ * @async
+ * @param {Request} req - Express request object (expects `req.user.userId`).
+ * @param {string} req.params.listId - List id.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Newest first. Responds with HTTP 404 if the list does not exist.
+ */
+export async function listShares(req: Request, res: Response, next: NextFunction) {
+  try {
+    const list = await findOwnList(req);
+    if (!list) {
+      return res.status(404).json({ message: "Lista no encontrada" });
+    }
+
+    const shares = await ListShare.find({ listId: list._id }).sort({ createdAt: -1 });
+    res.json(shares.map(toResponse));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Returns a shared list to anyone with the link.
+ *
+ * @function getSharedList
+ * @async
+ * @param {Request} req - Express request object (no authentication).
+ * @param {string} req.params.slug - Share slug.
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Error handling middleware.
+ * @returns {Promise<void>} Resolves after sending the HTTP response.
+ * @remarks
+ * - Responds with `{ name, owner, itemCount, views, items }`, where `owner` is only the first name and
+ *   each item is `{ pexelsId, title, pexelUser, miniatureUrl, addedAt, averageRating, totalRatings }`
+ *   (ratings of every user).
+ * - Every call counts as a view. Rate-limited per IP (429 with `Retry-After`).
+ * - Responds with HTTP 404 for unknown or revoked links, and for lists of accounts pending deletion.
+ */
+export async function getSharedList(req: Request, res: Response, next: NextFunction) {
+  try {
+    const limit = await consumeRateLimit(`share-view:ip:${req.ip || "unknown"}`, config.maxViewsPerIp, 60 * 1000);
+    if (!limit.allowed) {
+      return sendThrottled(res, limit);
+    }
+
+    const share = await ListShare.findOneAndUpdate(
+      { slug: String(req.params.slug), active: true },
+      { $inc: { views: 1 }, $set: { lastViewedAt: new Date() } },
+      { new: true }
+    );
+    const [list, owner] = share
+      ? await Promise.all([
+          List.findById(share.listId).populate("items.movieId", "title pexelUser miniatureUrl"),
+          User.findById(share.userId).select("firstName deletedAt"),
+        ])
+      : [null, null];
+    if (!list || !owner || owner.deletedAt) {
+      return res.status(404).json({ message: "Lista no encontrada o ya no está compartida" });
+    }
+
+    const pexelsIds = list.items.map((item: any) => item.pexelsId);
+    const ratings = await Rating.aggregate([
+      { $match: { moviePexelsId: { $in: pexelsIds } } },
+      { $group: { _id: "$moviePexelsId", averageRating: { $avg: "$value" }, totalRatings: { $sum: 1 } } },
+    ]);
+    const ratingsById = new Map<string, any>(ratings.map((rating: any) => [rating._id, rating]));
+
+    res.set("Cache-Control", "no-store");
+    res.json({
+      name: list.name,
+      owner: owner.firstName,
+      itemCount: list.items.length,
+      views: share.views,
+      items: list.items
+        .filter((item: any) => item.movieId)
+        .map((item: any) => ({
+          pexelsId: item.pexelsId,
+          title: item.movieId.title,
+          pexelUser: item.movieId.pexelUser,
+          miniatureUrl: item.movieId.miniatureUrl,
+          addedAt: item.addedAt,
+          averageRating: ratingsById.get(item.pexelsId)?.averageRating || 0,
+          totalRatings: ratingsById.get(item.pexelsId)?.totalRatings || 0,
+        })),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -13,12 +13,34 @@ import movieRoutes from './routes/movie.routes';
 import pexelsRoutes from './routes/pexels.routes';
 import commentsRoutes from './routes/comment.routes';
 import ratingRoutes from './routes/rating.routes';
+import adminRoutes from './routes/admin.routes';
+import listRoutes from './routes/list.routes';
+import progressRoutes from './routes/progress.routes';
+import shareRoutes from './routes/share.routes';
+import { startAccountPurgeScheduler } from './utils/accountDeletion';
+import { startDataExportScheduler } from './utils/dataExport';
+import { migrateMoviesToFavorites } from './utils/lists';
+import { linkRecordsToVideos } from './utils/videoCatalog';
+import { grandfatherExistingAccounts } from './middleware/verifiedEmail';
+import { normalizeStoredEmails } from './utils/emailAddress';
 const cookieParser = require('cookie-parser');
 
 dotenv.config();
 
 const app = express();
 
+/**
+ * Proxy trust configuration.
+ *
+ * @remarks
+ * - When deployed behind a reverse proxy (e.g. Render), set `TRUST_PROXY` (hop count or
+ *   Express trust value) so `req.ip` reflects the client IP used by login throttling.
+ */
+if (process.env.TRUST_PROXY) {
+  const trustProxy = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', Number.isNaN(trustProxy) ? process.env.TRUST_PROXY : trustProxy);
+}
+
 /**
  * Express CORS configuration.
  *
@@ -31,7 +53,7 @@ app.use(
   cors({
     origin: true,
     credentials: true,
-    methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+    methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'Authorization'],
   })
 );
@@ -46,13 +68,21 @@ app.use(cookieParser());
  * @remarks
  * - `/api/auth`: Authentication and user management.
  * - `/api/movies`: Movie CRUD operations.
+ * - `/api/lists`: Named lists of saved movies.
+ * - `/api/shared`: Public, read-only view of shared lists.
+ * - `/api/progress`: Playback progress and "continue watching".
  * - `/api/pexels`: Pexels API integration (video content).
+ * - `/api/admin`: User and role management (admins only).
  */
 app.use('/api/auth', authRoutes);
 app.use('/api/movies', movieRoutes);
+app.use('/api/lists', listRoutes);
+app.use('/api/shared', shareRoutes);
+app.use('/api/progress', progressRoutes);
 app.use('/api/pexels', pexelsRoutes);
 app.use('/api/comments', commentsRoutes);
 app.use('/api/ratings', ratingRoutes);
+app.use('/api/admin', adminRoutes);
 
 /**
  * Health check endpoint.
@@ -98,4 +128,81 @@ app.listen(PORT, () => console.log(`Servidor en puerto ${PORT}`));
  * - Uses the environment variable `MONGODB_URI` from `.env`.
  * - Logs a success message when connected or terminates on error.
  */
-connectDB();
\ No newline at end of file
+connectDB();
+
+/**
+ * Marks the accounts created before email verification existed as verified.
+ *
+ * @function grandfatherExistingAccounts
+ * @returns {Promise<number>} Number of accounts updated.
+ * @remarks
+ * - Idempotent; only accounts without a stored `emailVerified` field are updated.
+ */
+grandfatherExistingAccounts()
+  .then((updated) => {
+    if (updated) console.log(`Cuentas existentes marcadas como verificadas: ${updated}`);
+  })
+  .catch((error) => console.error("Error grandfathering existing accounts:", error));
+
+/**
+ * Normalizes (trims and lowercases) the emails of accounts created before emails were normalized on write.
+ *
+ * @function normalizeStoredEmails
+ * @returns {Promise<number>} Number of accounts updated.
+ * @remarks
+ * - Idempotent; accounts whose normalized email is taken by another account are logged and skipped.
+ */
+normalizeStoredEmails()
+  .then((updated) => {
+    if (updated) console.log(`Correos de cuentas existentes normalizados: ${updated}`);
+  })
+  .catch((error) => console.error("Error normalizing stored emails:", error));
+
+/**
+ * Starts the periodic purge of deleted accounts whose grace period is over.
+ *
+ * @function startAccountPurgeScheduler
+ * @returns {void}
+ * @remarks
+ * - Interval configured with `ACCOUNT_PURGE_INTERVAL_MINUTES` (default 60).
+ */
+startAccountPurgeScheduler();
+
+/**
+ * Starts the periodic pickup of pending or interrupted personal data exports.
+ *
+ * @function startDataExportScheduler
+ * @returns {void}
+ * @remarks
+ * - Interval configured with `DATA_EXPORT_INTERVAL_MINUTES` (default 5).
+ */
+startDataExportScheduler();
+
+/**
+ * Moves the movies saved before named lists existed into each user's default "Favoritos" list.
+ *
+ * @function migrateMoviesToFavorites
+ * @returns {Promise<number>} Number of default lists created.
+ * @remarks
+ * - Idempotent; users that already have a default list are skipped.
+ */
+migrateMoviesToFavorites()
+  .then((created) => {
+    if (created) console.log(`Listas "Favoritos" creadas: ${created}`);
+  })
+  .catch((error) => console.error("Error migrating saved movies to lists:", error));
+
+/**
+ * Links the movies, comments and ratings saved before the video catalog existed to their
+ * catalog video.
+ *
+ * @function linkRecordsToVideos
+ * @returns {Promise<number>} Number of documents linked.
+ * @remarks
+ * - Idempotent; stops at the first provider failure and resumes on the next startup.
+ */
+linkRecordsToVideos()
+  .then((linked) => {
+    if (linked) console.log(`Documentos enlazados al catálogo de videos: ${linked}`);
+  })
+  .catch((error) => console.error("Error linking records to catalog videos:", error));
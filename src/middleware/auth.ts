@@ -1,38 +1,82 @@
 /**
  * @file auth.js
- * @description Authentication middleware that validates the JWT token from cookies.
+ * @description Authentication middleware that validates the JWT token from cookies or
+ * the `Authorization: Bearer` header (JWT access token or personal access token).
  */
 
 
 const jwt = require("jsonwebtoken");
 import { Request, Response, NextFunction } from "express";
+import Session from "../models/session.model";
+import { UserRole } from "../models/user.model";
+import { ACCESS_TOKEN_PREFIX, AccessTokenScope, findActiveAccessToken } from "../utils/accessTokens";
 
 /**
- * Extends the Express `Request` interface to include an optional `user` property.
+ * Identity attached to `req.user` by `authMiddleware`.
+ *
+ * @property {string} userId - Authenticated user's id.
+ * @property {string} email - Authenticated user's email.
+ * @property {UserRole} role - Role at the time the token was issued.
+ * @property {"session" | "pat"} authType - Whether the request uses a session (cookie/JWT) or a personal access token.
+ * @property {string} [sid] - Session the JWT belongs to (session auth only).
+ * @property {AccessTokenScope[]} [scopes] - Granted scopes (personal access tokens only; sessions have full access).
+ * @property {string} [tokenId] - Personal access token id (personal access tokens only).
+ */
+export interface AuthUser {
+  userId: string;
+  email: string;
+  role: UserRole;
+  authType: "session" | "pat";
+  sid?: string;
+  scopes?: AccessTokenScope[];
+  tokenId?: string;
+}
+
+/**
+ * Extends the Express `Request` interface to include the `user` property.
+ * It is only populated on routes guarded by `authMiddleware`.
  */
 declare global {
   namespace Express {
     interface Request {
-      user?: any;
+      user: AuthUser;
     }
   }
 }
 
 /**
- * Authentication middleware that verifies the JWT token stored in cookies.
+ * Reads the credential of a request.
+ *
+ * @param {Request} req - Express request object.
+ * @returns {string | undefined} The `Authorization: Bearer` value if present, otherwise the `token` cookie.
+ */
+function extractToken(req: Request): string | undefined {
+  const header = req.get("authorization");
+  if (header && /^Bearer\s+/i.test(header)) {
+    return header.replace(/^Bearer\s+/i, "").trim();
+  }
+  return req.cookies.token;
+}
+
+/**
+ * Authentication middleware that verifies the JWT access token or personal access token.
  *
  * @function authMiddleware
  * @async
  * @param {Request} req - Express request object.
  * @param {Object} req.cookies - Cookies sent by the client.
  * @param {string} [req.cookies.token] - Authentication JWT token.
+ * @param {string} [req.headers.authorization] - `Bearer <JWT access token | personal access token>`; takes precedence over the cookie.
  * @param {Response} res - Express response object.
  * @param {NextFunction} next - Function to pass control to the next middleware.
- * @returns {void} Sends a 401 Unauthorized response if the token is missing or invalid; otherwise calls `next()`.
+ * @returns {Promise<void>} Sends a 401 Unauthorized response if the token is missing, invalid, or its session was revoked; otherwise calls `next()`.
  * @throws {Error} If the JWT verification fails due to expiration or tampering.
  * @remarks
  * - Requires `JWT_SECRET` to be defined in environment variables.
- * - On success, attaches the decoded token payload to `req.user`.
+ * - Rejects tokens whose session (`sid` claim) was revoked or expired, so signing out a device takes effect immediately.
+ * - Personal access tokens (prefix `fu_pat_`) must be active; their scopes are attached to `req.user.scopes`
+ *   and enforced per route with `requireScope`.
+ * - On success, attaches the authenticated identity to `req.user`.
  * - Designed for use in routes that require authentication.
  *
  * @example
@@ -41,21 +85,61 @@ declare global {
  * });
  */
 
-function authMiddleware(req: Request, res: Response, next: NextFunction) {
+async function authMiddleware(req: Request, res: Response, next: NextFunction) {
 
-  const token = req.cookies.token;
+  const token = extractToken(req);
 
   if (!token) {
     return res.status(401).json({ message: "Access denied, token missing" });
   }
 
+  if (token.startsWith(ACCESS_TOKEN_PREFIX)) {
+    try {
+      const found = await findActiveAccessToken(token);
+      if (!found) {
+        return res.status(401).json({ message: "Invalid, revoked or expired access token" });
+      }
+
+      req.user = {
+        userId: found.user._id.toString(),
+        email: found.user.email,
+        role: found.user.role || "user",
+        authType: "pat",
+        scopes: found.accessToken.scopes,
+        tokenId: found.accessToken._id.toString(),
+      };
+      return next();
+    } catch (err) {
+      return next(err);
+    }
+  }
+
+  let decoded: any;
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET);
-    req.user = decoded; // attach user data to request
-    return next();
+    decoded = jwt.verify(token, process.env.JWT_SECRET);
   } catch (err) {
     return res.status(401).json({ message: "Invalid or expired token" });
   }
+
+  if (!decoded.sid) {
+    return res.status(401).json({ message: "Session revoked or expired" });
+  }
+
+  try {
+    const activeSession = await Session.exists({
+      _id: decoded.sid,
+      revokedAt: null,
+      expiresAt: { $gt: new Date() },
+    });
+    if (!activeSession) {
+      return res.status(401).json({ message: "Session revoked or expired" });
+    }
+  } catch (err) {
+    return next(err);
+  }
+
+  req.user = { ...decoded, role: decoded.role || "user", authType: "session" }; // attach user data to request
+  return next();
 }
 
 module.exports = authMiddleware;
\ No newline at end of file
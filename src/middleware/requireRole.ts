@@ -0,0 +1,47 @@
+/**
+ * @file requireRole.ts
+ * @description Role-based authorization middleware.
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { UserRole } from "../models/user.model";
+
+/**
+ * Tells whether the authenticated user holds one of the given roles.
+ *
+ * @param {Request} req - Express request object (expects `req.user` set by `authMiddleware`).
+ * @param {...UserRole} roles - Accepted roles.
+ * @returns {boolean} `true` if `req.user.role` is one of `roles`.
+ *
+ * @example
+ * const canModerate = hasRole(req, "moderator", "admin");
+ */
+export function hasRole(req: Request, ...roles: UserRole[]): boolean {
+  return Boolean(req.user && roles.includes(req.user.role));
+}
+
+/**
+ * Builds a middleware that only lets through users holding one of the given roles.
+ *
+ * @function requireRole
+ * @param {...UserRole} roles - Accepted roles.
+ * @returns {Function} Express middleware. Must run after `authMiddleware`.
+ * @remarks
+ * - Responds with HTTP 401 if the request is unauthenticated and 403 if the role is not accepted.
+ *
+ * @example
+ * router.get("/users", authMiddleware, requireRole("admin"), listUsers);
+ */
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user || !req.user.userId) {
+      return res.status(401).json({ message: "Access denied, token missing" });
+    }
+
+    if (!hasRole(req, ...roles)) {
+      return res.status(403).json({ message: "Insufficient permissions" });
+    }
+
+    return next();
+  };
+}
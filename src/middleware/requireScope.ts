@@ -0,0 +1,46 @@
+/**
+ * @file requireScope.ts
+ * @description Scope-based authorization for requests authenticated with personal access tokens.
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { AccessTokenScope } from "../utils/accessTokens";
+
+/**
+ * Builds a middleware that requires a scope from personal access tokens.
+ *
+ * @function requireScope
+ * @param {AccessTokenScope} scope - Scope needed by the guarded route.
+ * @returns {Function} Express middleware. Must run after `authMiddleware`.
+ * @remarks
+ * - Session (cookie or JWT) requests have full access and always pass.
+ * - Responds with HTTP 403 when a personal access token lacks the scope.
+ *
+ * @example
+ * router.post("/", authMiddleware, requireScope("ratings:write"), createOrUpdateRating);
+ */
+export function requireScope(scope: AccessTokenScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.user?.authType === "pat" && !req.user.scopes?.includes(scope)) {
+      return res.status(403).json({ message: `Access token missing required scope: ${scope}` });
+    }
+    return next();
+  };
+}
+
+/**
+ * Middleware that rejects personal access tokens, for account management routes
+ * (sessions, tokens, password, two-factor...) that only an interactive session may use.
+ *
+ * @function requireSession
+ * @param {Request} req - Express request object (expects `req.user` set by `authMiddleware`).
+ * @param {Response} res - Express response object.
+ * @param {NextFunction} next - Function to pass control to the next middleware.
+ * @returns {void} Responds with HTTP 403 for personal access tokens; otherwise calls `next()`.
+ */
+export function requireSession(req: Request, res: Response, next: NextFunction) {
+  if (req.user?.authType !== "session") {
+    return res.status(403).json({ message: "This action requires signing in, access tokens are not allowed" });
+  }
+  return next();
+}
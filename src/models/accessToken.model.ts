@@ -0,0 +1,71 @@
+/**
+ * @file accessToken.model.ts
+ * @description Definition of the AccessToken (personal access token) schema and model in MongoDB using Mongoose.
+ */
+
+const mongoose = require("mongoose");
+
+
+/**
+ * Schema for the `AccessToken` collection.
+ *
+ * Represents a personal access token created by a user for scripts or mobile clients.
+ * Only the hash of the token is stored; the plain value is shown once on creation.
+ *
+ * @typedef {Object} AccessToken
+ * @property {mongoose.Types.ObjectId} userId - Reference to the user who owns this token.
+ * @property {string} name - Label chosen by the user (required, maximum 60 characters).
+ * @property {string} tokenHash - SHA-256 hash of the token (unique).
+ * @property {string} prefix - First characters of the token, to help the user recognize it.
+ * @property {string[]} scopes - Granted scopes (e.g. `movies:read`, `ratings:write`).
+ * @property {Date} [expiresAt] - Expiration date; tokens without it never expire.
+ * @property {Date} [lastUsedAt] - Last time the token authenticated a request.
+ * @property {Date} [revokedAt] - Date the token was revoked, if any.
+ * @property {Date} createdAt - Token creation date (automatic).
+ */
+
+
+const accessTokenSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User', // Reference to the User model
+    required: true,
+    index: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 60
+  },
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  prefix: {
+    type: String,
+    required: true
+  },
+  scopes: {
+    type: [String],
+    default: []
+  },
+  expiresAt: Date,
+  lastUsedAt: Date,
+  revokedAt: Date,
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+/**
+ * Mongoose model for the `AccessToken` collection.
+ *
+ * @type {mongoose.Model<AccessToken>}
+ */
+
+const AccessToken = mongoose.model('AccessToken', accessTokenSchema);
+
+export default AccessToken; // Export the AccessToken model
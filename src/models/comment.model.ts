@@ -15,8 +15,11 @@ const mongoose = require("mongoose");
  * @typedef {Object} commentSchema
  * @property {string} description - Comment description (required, maximum 100 characters).
  * @property {string} moviePexelsId - Comment movie id (required).
+ * @property {mongoose.Types.ObjectId} [videoId] - Reference to the catalog video of `moviePexelsId`.
+ *           Missing on comments created before the catalog existed.
  * @property {Date} createdAt - Comment creation date (automatic).
  * @property {mongoose.Types.ObjectId} userId - Reference to the user who added this comment.
+ *           `null` once the author's account was purged and the comment anonymized.
  */
 
 
@@ -24,13 +27,17 @@ const commentSchema = new mongoose.Schema({
     userId: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User', // Reference to the User model
-      required: true
+      default: null // set to null when the author's account is purged (anonymized)
     },
   moviePexelsId: {
     type: String,
     required: true,
     trim: true
   },
+  videoId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Video' // Reference to the Video model
+  },
   description: {
     type: String,
     required: true,
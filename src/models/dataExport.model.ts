@@ -0,0 +1,80 @@
+/**
+ * @file dataExport.model.ts
+ * @description Definition of the DataExport schema and model in MongoDB using Mongoose.
+ */
+
+const mongoose = require("mongoose");
+
+
+/**
+ * Schema for the `DataExport` collection.
+ *
+ * Represents a personal data export requested by a user. The archive is generated
+ * asynchronously and can be downloaded with the emailed link until it expires.
+ *
+ * @typedef {Object} DataExport
+ * @property {mongoose.Types.ObjectId} userId - Reference to the user who requested the export.
+ * @property {string} status - `pending`, `processing`, `ready` or `failed`.
+ * @property {boolean} [inProgress] - Set while `pending` or `processing`; a unique index allows one
+ *   export in progress per user.
+ * @property {string} [downloadTokenHash] - SHA-256 hash of the token included in the download link.
+ * @property {mongoose.Types.ObjectId} [archiveFileId] - GridFS file of the generated ZIP archive (JSON + CSV
+ *   files), in the `dataExportArchives` bucket.
+ * @property {number} [size] - Archive size in bytes.
+ * @property {string} [error] - Failure reason when `status` is `failed`.
+ * @property {number} attempts - Generation attempts made so far.
+ * @property {Date} [lockedUntil] - Lease held by the process generating the archive.
+ * @property {Date} [completedAt] - Date the archive was generated.
+ * @property {Date} expiresAt - The export (and its link) is removed by a TTL index after this date.
+ * @property {Date} createdAt - Request date (automatic).
+ */
+
+
+const dataExportSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User', // Reference to the User model
+    required: true,
+    index: true
+  },
+  status: {
+    type: String,
+    enum: ["pending", "processing", "ready", "failed"],
+    default: "pending"
+  },
+  inProgress: Boolean,
+  downloadTokenHash: String,
+  archiveFileId: mongoose.Schema.Types.ObjectId,
+  size: Number,
+  error: String,
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  lockedUntil: Date,
+  completedAt: Date,
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Expired exports are removed automatically (their archives by utils/dataExport)
+dataExportSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// A single export in progress per user, even with concurrent requests
+dataExportSchema.index({ userId: 1, inProgress: 1 }, { unique: true, partialFilterExpression: { inProgress: true } });
+
+/**
+ * Mongoose model for the `DataExport` collection.
+ *
+ * @type {mongoose.Model<DataExport>}
+ */
+
+const DataExport = mongoose.model('DataExport', dataExportSchema);
+
+export default DataExport; // Export the DataExport model
@@ -0,0 +1,91 @@
+/**
+ * @file list.model.ts
+ * @description Definition of the List schema and model in MongoDB using Mongoose.
+ */
+
+const mongoose = require("mongoose");
+
+
+/**
+ * Schema for the `List` collection.
+ *
+ * Named collection of saved videos owned by a user (e.g. "Ver más tarde"). Every user has a
+ * default "Favoritos" list, which is the one `POST /api/movies` adds to. The same video can be
+ * in several lists; each item references the user's `Movie` document for that video.
+ *
+ * @typedef {Object} List
+ * @property {mongoose.Types.ObjectId} userId - Reference to the user who owns the list.
+ * @property {string} name - List name (required, unique per user ignoring case).
+ * @property {number} position - Position of the list among the user's lists (ascending).
+ * @property {boolean} isDefault - Whether this is the user's "Favoritos" list (cannot be deleted).
+ * @property {Object[]} items - Videos in the list, in display order.
+ * @property {mongoose.Types.ObjectId} items.movieId - Reference to the saved `Movie`.
+ * @property {string} items.pexelsId - Pexels video ID (same as the referenced movie).
+ * @property {Date} items.addedAt - Date the video was added to the list.
+ * @property {Date} createdAt - List creation date (automatic).
+ */
+
+
+const listItemSchema = new mongoose.Schema({
+  movieId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Movie', // Reference to the Movie model
+    required: true
+  },
+  pexelsId: {
+    type: String,
+    required: true
+  },
+  addedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const listSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User', // Reference to the User model
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 60
+  },
+  position: {
+    type: Number,
+    default: 0
+  },
+  isDefault: {
+    type: Boolean,
+    default: false
+  },
+  items: {
+    type: [listItemSchema],
+    default: []
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// A user's lists in display order, and the lists containing a video (when it is deleted)
+listSchema.index({ userId: 1, position: 1 });
+listSchema.index({ userId: 1, "items.pexelsId": 1 });
+
+// Names are unique per user ignoring case, and each user has a single default list
+listSchema.index({ userId: 1, name: 1 }, { unique: true, collation: { locale: "es", strength: 2 } });
+listSchema.index({ userId: 1 }, { unique: true, partialFilterExpression: { isDefault: true } });
+
+/**
+ * Mongoose model for the `List` collection.
+ *
+ * @type {mongoose.Model<List>}
+ */
+
+const List = mongoose.model('List', listSchema);
+
+export default List; // Export the List model
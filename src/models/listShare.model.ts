@@ -0,0 +1,72 @@
+/**
+ * @file listShare.model.ts
+ * @description Definition of the ListShare schema and model in MongoDB using Mongoose.
+ */
+
+const mongoose = require("mongoose");
+
+
+/**
+ * Schema for the `ListShare` collection.
+ *
+ * Public, read-only link to one of a user's lists. The slug is random and unguessable; a list has
+ * at most one active link at a time, and revoked links are kept so their view counts stay visible.
+ *
+ * @typedef {Object} ListShare
+ * @property {mongoose.Types.ObjectId} userId - Reference to the owner of the list.
+ * @property {mongoose.Types.ObjectId} listId - Reference to the shared list.
+ * @property {string} slug - Random identifier used in the public URL (unique).
+ * @property {boolean} active - `false` once the link is revoked or regenerated.
+ * @property {number} views - Number of times the shared list was opened.
+ * @property {Date} [lastViewedAt] - Date of the last view.
+ * @property {Date} [revokedAt] - Date the link stopped working.
+ * @property {Date} createdAt - Link creation date (automatic).
+ */
+
+
+const listShareSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User', // Reference to the User model
+    required: true
+  },
+  listId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'List', // Reference to the List model
+    required: true
+  },
+  slug: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  active: {
+    type: Boolean,
+    default: true
+  },
+  views: {
+    type: Number,
+    default: 0
+  },
+  lastViewedAt: Date,
+  revokedAt: Date,
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Link history of a list, and a single active link per list
+listShareSchema.index({ listId: 1, createdAt: -1 });
+listShareSchema.index({ listId: 1 }, { unique: true, partialFilterExpression: { active: true } });
+listShareSchema.index({ userId: 1 });
+
+/**
+ * Mongoose model for the `ListShare` collection.
+ *
+ * @type {mongoose.Model<ListShare>}
+ */
+
+const ListShare = mongoose.model('ListShare', listShareSchema);
+
+export default ListShare; // Export the ListShare model
@@ -0,0 +1,68 @@
+/**
+ * @file loginThrottle.model.ts
+ * @description Definition of the LoginThrottle schema and model in MongoDB using Mongoose.
+ */
+
+const mongoose = require("mongoose");
+
+
+/**
+ * Schema for the `LoginThrottle` collection.
+ *
+ * Tracks failed login attempts for a single key (an email address or an IP address)
+ * so throttling survives restarts and is shared between server instances.
+ *
+ * @typedef {Object} LoginThrottle
+ * @property {string} key - Throttled key, `email:<address>` or `ip:<address>` (unique).
+ * @property {string} kind - Type of key: `email` or `ip`.
+ * @property {number} failures - Failed attempts inside the current window.
+ * @property {Date} lastFailureAt - Date of the last failed attempt.
+ * @property {Date} [lockedUntil] - The key is locked until this date.
+ * @property {string} [unlockTokenHash] - SHA-256 hash of the emailed unlock token (email keys only).
+ * @property {Date} expiresAt - The document is removed by a TTL index after this date.
+ */
+
+
+const loginThrottleSchema = new mongoose.Schema({
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  kind: {
+    type: String,
+    enum: ["email", "ip"],
+    required: true
+  },
+  failures: {
+    type: Number,
+    default: 0
+  },
+  lastFailureAt: {
+    type: Date,
+    default: Date.now
+  },
+  lockedUntil: Date,
+  unlockTokenHash: {
+    type: String,
+    index: true,
+    sparse: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+});
+
+// Old failures are forgotten automatically once the window (or the lock) is over
+loginThrottleSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Mongoose model for the `LoginThrottle` collection.
+ *
+ * @type {mongoose.Model<LoginThrottle>}
+ */
+
+const LoginThrottle = mongoose.model('LoginThrottle', loginThrottleSchema);
+
+export default LoginThrottle; // Export the LoginThrottle model
@@ -17,7 +17,11 @@ const mongoose = require("mongoose");
  * @property {string} pexelUser - Pexels user/author name (required).
  * @property {string} pexelsId - Pexels video ID (required).
  * @property {string} miniatureUrl - Movie miniature/thumbnail url (required).
+ * @property {mongoose.Types.ObjectId} [videoId] - Reference to the catalog video, where title, author
+ *   and thumbnail are copied from. Missing on movies saved before the catalog existed.
  * @property {mongoose.Types.ObjectId} userId - Reference to the user who added this movie.
+ * @property {string} [notes] - Private notes of the user about the movie.
+ * @property {string[]} tags - Free-form tags of the user (normalized with `normalizeTags`).
  * @property {Date} createdAt - Movie creation date (automatic).
  */
 
@@ -42,17 +46,41 @@ const movieSchema = new mongoose.Schema({
     type: String,
     required: true,
   },
+  videoId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Video' // Reference to the Video model
+  },
   userId: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User', // Reference to the User model
     required: true
   },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: 2000
+  },
+  tags: {
+    type: [String],
+    default: []
+  },
   createdAt: {
     type: Date,
     default: Date.now
   }
 });
 
+// Pages of a user's movies for each sort of `listMovies` (with `_id` as tie-breaker)
+movieSchema.index({ userId: 1, createdAt: -1, _id: -1 });
+movieSchema.index({ userId: 1, title: 1, _id: 1 }, { collation: { locale: "es" } });
+
+// Lookups of a saved video and the author filter
+movieSchema.index({ userId: 1, pexelsId: 1 });
+movieSchema.index({ userId: 1, pexelUser: 1 });
+
+// Tag filter and tag vocabulary
+movieSchema.index({ userId: 1, tags: 1 });
+
 /**
  * Mongoose model for the `Movie` collection.
  *
@@ -0,0 +1,65 @@
+/**
+ * @file pexelsCache.model.ts
+ * @description Definition of the PexelsCache schema and model in MongoDB using Mongoose.
+ */
+
+const mongoose = require("mongoose");
+
+
+/**
+ * Schema for the `PexelsCache` collection.
+ *
+ * Cached Pexels API responses, used when `PEXELS_CACHE_BACKEND=mongo` so every server
+ * instance shares the same cache.
+ *
+ * @typedef {Object} PexelsCache
+ * @property {string} key - Endpoint and normalized parameters of the request (unique).
+ * @property {Object} value - Response body returned by Pexels.
+ * @property {string} etag - ETag of the body, sent to our clients.
+ * @property {Date} storedAt - Date the response was fetched from Pexels.
+ * @property {Date} freshUntil - Until when the response is served without asking Pexels again.
+ * @property {Date} expiresAt - Until when the response may still be served if Pexels fails;
+ *   the document is removed by a TTL index afterwards.
+ */
+
+
+const pexelsCacheSchema = new mongoose.Schema({
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  value: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true
+  },
+  etag: {
+    type: String,
+    required: true
+  },
+  storedAt: {
+    type: Date,
+    required: true
+  },
+  freshUntil: {
+    type: Date,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+});
+
+// Entries are removed once they can no longer be served, even as stale
+pexelsCacheSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Mongoose model for the `PexelsCache` collection.
+ *
+ * @type {mongoose.Model<PexelsCache>}
+ */
+
+const PexelsCache = mongoose.model('PexelsCache', pexelsCacheSchema);
+
+export default PexelsCache; // Export the PexelsCache model
@@ -0,0 +1,49 @@
+/**
+ * @file rateLimit.model.ts
+ * @description Definition of the RateLimit schema and model in MongoDB using Mongoose.
+ */
+
+const mongoose = require("mongoose");
+
+
+/**
+ * Schema for the `RateLimit` collection.
+ *
+ * Counts the requests made for a key (e.g. `forgot-password:ip:<address>`) inside a
+ * fixed window, so limits survive restarts and are shared between server instances.
+ *
+ * @typedef {Object} RateLimit
+ * @property {string} key - Limited key (unique).
+ * @property {number} count - Requests made in the current window.
+ * @property {Date} expiresAt - End of the window; the document is removed by a TTL index afterwards.
+ */
+
+
+const rateLimitSchema = new mongoose.Schema({
+  key: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  count: {
+    type: Number,
+    default: 0
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+});
+
+// The counter is reset automatically once the window is over
+rateLimitSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Mongoose model for the `RateLimit` collection.
+ *
+ * @type {mongoose.Model<RateLimit>}
+ */
+
+const RateLimit = mongoose.model('RateLimit', rateLimitSchema);
+
+export default RateLimit; // Export the RateLimit model
@@ -15,8 +15,11 @@ const mongoose = require("mongoose");
  * @typedef {Object} ratingSchema
  * @property {number} value - Rating value (required, between 1 and 5).
  * @property {string} moviePexelsId - Rating movie id (required).
+ * @property {mongoose.Types.ObjectId} [videoId] - Reference to the catalog video of `moviePexelsId`.
+ *           Missing on ratings created before the catalog existed.
  * @property {Date} createdAt - Rating creation date (automatic).
  * @property {mongoose.Types.ObjectId} userId - Reference to the user who added this rating.
+ *           `null` once the author's account was purged and the rating anonymized.
  */
 
 
@@ -24,13 +27,17 @@ const ratingSchema = new mongoose.Schema({
     userId: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User', // Reference to the User model
-      required: true
+      default: null // set to null when the author's account is purged (anonymized)
     },
   moviePexelsId: {
     type: String,
     required: true,
     trim: true
   },
+  videoId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Video' // Reference to the Video model
+  },
   value: {
     type: Number,
     required: true,
@@ -39,6 +46,9 @@ const ratingSchema = new mongoose.Schema({
   }
 });
 
+// Averages per video (also joined into the saved movies list)
+ratingSchema.index({ moviePexelsId: 1 });
+
 /**
  * Mongoose model for the `Rating` collection.
  *
@@ -0,0 +1,104 @@
+/**
+ * @file securityEvent.model.ts
+ * @description Definition of the SecurityEvent schema and model in MongoDB using Mongoose.
+ */
+
+const mongoose = require("mongoose");
+
+/**
+ * Kinds of security relevant actions recorded for a user.
+ *
+ * @constant
+ */
+export const SECURITY_EVENT_TYPES = [
+  "login",
+  "login_failed",
+  "logout",
+  "password_change",
+  "password_reset",
+  "password_set",
+  "profile_update",
+  "email_change_requested",
+  "email_change_confirmed",
+  "email_change_undone",
+  "account_deletion",
+  "identity_linked",
+  "identity_unlinked",
+] as const;
+
+/**
+ * Kind of a security event.
+ */
+export type SecurityEventType = typeof SECURITY_EVENT_TYPES[number];
+
+/**
+ * Checks whether a value (e.g. a query parameter) is a known security event type.
+ *
+ * @param {unknown} value - Value to check.
+ * @returns {boolean} `true` if it is one of `SECURITY_EVENT_TYPES`.
+ */
+export function isSecurityEventType(value: unknown): value is SecurityEventType {
+  return (SECURITY_EVENT_TYPES as readonly unknown[]).includes(value);
+}
+
+/**
+ * Retention of security events in days, configurable through
+ * `SECURITY_EVENT_RETENTION_DAYS` (defaults to 365 days).
+ */
+const RETENTION_DAYS = Number(process.env.SECURITY_EVENT_RETENTION_DAYS) || 365;
+
+
+/**
+ * Schema for the `SecurityEvent` collection.
+ *
+ * Audit log of the security relevant actions of a user (logins, password and email
+ * changes, account deletion), shown to the user through `/api/auth/security-events`.
+ *
+ * @typedef {Object} SecurityEvent
+ * @property {mongoose.Types.ObjectId} userId - Reference to the user the event belongs to.
+ * @property {string} type - One of `SECURITY_EVENT_TYPES`.
+ * @property {string} ip - IP address the request came from.
+ * @property {string} userAgent - Raw `User-Agent` header of the request.
+ * @property {string} device - Human readable device label (e.g. "Chrome en Windows").
+ * @property {Object} [metadata] - Extra details of the event (e.g. failure reason, changed fields).
+ * @property {Date} createdAt - Event date; events are removed by a TTL index after the retention period.
+ */
+
+
+const securityEventSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User', // Reference to the User model
+    required: true
+  },
+  type: {
+    type: String,
+    enum: SECURITY_EVENT_TYPES,
+    required: true
+  },
+  ip: String,
+  userAgent: String,
+  device: String,
+  metadata: mongoose.Schema.Types.Mixed,
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// History listing (newest first) and known device lookups on login
+securityEventSchema.index({ userId: 1, createdAt: -1 });
+securityEventSchema.index({ userId: 1, type: 1, device: 1, ip: 1 });
+
+// Old events are removed automatically after the retention period
+securityEventSchema.index({ createdAt: 1 }, { expireAfterSeconds: RETENTION_DAYS * 24 * 60 * 60 });
+
+/**
+ * Mongoose model for the `SecurityEvent` collection.
+ *
+ * @type {mongoose.Model<SecurityEvent>}
+ */
+
+const SecurityEvent = mongoose.model('SecurityEvent', securityEventSchema);
+
+export default SecurityEvent; // Export the SecurityEvent model
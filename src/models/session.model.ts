@@ -0,0 +1,84 @@
+/**
+ * @file session.model.ts
+ * @description Definition of the Session schema and model in MongoDB using Mongoose.
+ */
+
+const mongoose = require("mongoose");
+
+
+/**
+ * Schema for the `Session` collection.
+ *
+ * Represents a signed-in device of a user. Each session holds the hash of its
+ * current refresh token, which is rotated on every refresh.
+ *
+ * @typedef {Object} Session
+ * @property {mongoose.Types.ObjectId} userId - Reference to the user who owns this session.
+ * @property {string} refreshTokenHash - SHA-256 hash of the current refresh token.
+ * @property {string[]} previousTokenHashes - Hashes of already rotated refresh tokens (used for reuse detection).
+ * @property {string} device - Human readable device label (e.g. "Chrome en Windows").
+ * @property {string} ip - IP address of the last request made with this session.
+ * @property {string} userAgent - Raw `User-Agent` header of the last request.
+ * @property {Date} lastUsedAt - Date of the last login or refresh.
+ * @property {Date} expiresAt - Refresh token expiration; expired sessions are removed by a TTL index.
+ * @property {Date} [revokedAt] - Date the session was revoked, if any.
+ * @property {string} [revokedReason] - Why the session was revoked (logout, password change, reuse...).
+ * @property {Date} createdAt - Session creation date (automatic).
+ */
+
+
+const sessionSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User', // Reference to the User model
+    required: true,
+    index: true
+  },
+  refreshTokenHash: {
+    type: String,
+    required: true
+  },
+  previousTokenHashes: {
+    type: [String],
+    default: []
+  },
+  device: {
+    type: String,
+    default: "Dispositivo desconocido"
+  },
+  ip: {
+    type: String,
+    default: ""
+  },
+  userAgent: {
+    type: String,
+    default: ""
+  },
+  lastUsedAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: Date,
+  revokedReason: String,
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// MongoDB removes the document once the refresh token can no longer be used
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Mongoose model for the `Session` collection.
+ *
+ * @type {mongoose.Model<Session>}
+ */
+
+const Session = mongoose.model('Session', sessionSchema);
+
+export default Session; // Export the Session model
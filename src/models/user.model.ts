@@ -4,6 +4,8 @@
  * @description Definition of the User schema and model in MongoDB using Mongoose.
  */
 
+import { isPasswordHash } from "../utils/passwordPolicy";
+
 const mongoose = require("mongoose");
 
 /**
@@ -14,16 +16,83 @@ const mongoose = require("mongoose");
  *
  * @typedef {Object} User
  * @property {string} firstName - User's first name (required).
- * @property {string} lastName - User's last name (required).
- * @property {number} age - User's age (minimum 13 years).
+ * @property {string} lastName - User's last name (required, except for accounts created through an identity provider).
+ * @property {number} age - User's age (minimum 13 years; may be completed later by accounts created through an identity provider).
  * @property {string} email - Unique and valid email address (required).
- * @property {string} password - Encrypted password, at least 8 characters,
- *                               including uppercase, lowercase, number, and symbol.
- * @property {string} [resetPasswordToken] - Temporary token for password recovery.
+ * @property {string} [password] - bcrypt hash of the password; the plain password is checked
+ *                                 beforehand by `utils/passwordPolicy`. Accounts created through an
+ *                                 identity provider have none until they set one.
+ * @property {string[]} passwordHistory - Hashes of the previous passwords, most recent first
+ *                                        (`PASSWORD_HISTORY_SIZE` entries at most).
+ * @property {string} role - Access role: `user` (default), `moderator` or `admin`.
+ * @property {string} [resetPasswordTokenHash] - SHA-256 hash of the temporary password recovery token.
  * @property {Date} [resetPasswordExpires] - Expiration of the password recovery token.
+ * @property {boolean} emailVerified - Whether the user confirmed ownership of the email address.
+ * @property {string} [emailVerificationTokenHash] - SHA-256 hash of the pending verification token.
+ * @property {Date} [emailVerificationExpires] - Expiration of the verification token.
+ * @property {Date} [emailVerificationSentAt] - Last time a verification email was sent.
+ * @property {string} [pendingEmail] - New address requested by the user, awaiting confirmation.
+ * @property {string} [emailChangeTokenHash] - SHA-256 hash of the token sent to the new address.
+ * @property {Date} [emailChangeExpires] - Expiration of the email change confirmation token.
+ * @property {string} [previousEmail] - Address replaced by the last confirmed change (used to undo it).
+ * @property {string} [emailChangeUndoTokenHash] - SHA-256 hash of the undo token sent to the old address.
+ * @property {Date} [emailChangeUndoExpires] - End of the period in which the change can be undone.
+ * @property {string} [magicLinkTokenHash] - SHA-256 hash of the pending sign-in link token.
+ * @property {Date} [magicLinkExpires] - Expiration of the sign-in link.
+ * @property {boolean} mfaEnabled - Whether TOTP two-factor authentication is active.
+ * @property {string} [mfaSecret] - Base32 TOTP secret of the active configuration.
+ * @property {string} [mfaPendingSecret] - Secret generated during enrollment, awaiting confirmation.
+ * @property {string[]} mfaRecoveryCodes - SHA-256 hashes of the unused one-time recovery codes.
+ * @property {number} [mfaLastUsedStep] - Time step of the last accepted TOTP code (replay protection).
+ * @property {Date} [deletedAt] - Date the user asked to delete the account (soft delete).
+ * @property {Date} [purgeAfter] - End of the grace period; the account and its data are purged afterwards.
+ * @property {Date} [purgeLockedUntil] - Lease held by the process currently purging the account.
+ * @property {Object[]} identities - Linked OpenID Connect identities (`provider`, `subject`, `email`, `linkedAt`).
  * @property {Date} createdAt - Automatic user creation date.
  */
 
+/**
+ * Roles a user can hold, from least to most privileged.
+ *
+ * @constant
+ */
+export const USER_ROLES = ["user", "moderator", "admin"] as const;
+
+/**
+ * Access role of a user.
+ */
+export type UserRole = typeof USER_ROLES[number];
+
+/**
+ * Whether a user document may omit the fields that identity providers do not supply
+ * (password, last name, age): only accounts with a linked identity can.
+ *
+ * @this {any} User document being validated.
+ * @returns {boolean} `true` if the fields are required.
+ */
+function requiredWithoutIdentity(this: any): boolean {
+  return !this.identities?.length;
+}
+
+/**
+ * Schema of an external identity linked to a user.
+ */
+const identitySchema = new mongoose.Schema({
+  provider: {
+    type: String,
+    required: true
+  },
+  subject: {
+    type: String,
+    required: true
+  },
+  email: String,
+  linkedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
 const userSchema = new mongoose.Schema({
   firstName: {
     type: String,
@@ -32,42 +101,118 @@ const userSchema = new mongoose.Schema({
   },
   lastName: {
     type: String,
-    required: true,
+    required: requiredWithoutIdentity,
     trim: true
   },
   age: {
     type: Number,
-    required: true,
+    required: requiredWithoutIdentity,
     min: [13, "La edad mínima permitida es 13 años"]
   },
   email: {
     type: String,
     required: true,
     unique: true, // duplicate emails are not allowed
+    lowercase: true, // stored normalized (see utils/emailAddress), so the unique index ignores case
+    trim: true,
     match: [/^\S+@\S+\.\S+$/, "El email no es válido"]
   },
   password: {
     type: String,
-    required: true,
-    minlength: [8, "La contraseña debe tener al menos 8 caracteres"],
+    required: requiredWithoutIdentity,
     validate: {
-      validator: function (value: string) {
-        // Must contain at least: 1 lowercase, 1 uppercase, 1 number, and 1 special character
-        return /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[\W_]).{8,}$/.test(value);
-      },
-      message:
-        "La contraseña debe incluir al menos una letra mayúscula, una minúscula y un caracter especial"
+      // Complexity rules live in utils/passwordPolicy; here only hashed values are accepted
+      validator: isPasswordHash,
+      message: "La contraseña debe almacenarse cifrada"
     }
   },
-  resetPasswordToken: String,
+  passwordHistory: {
+    type: [String],
+    default: []
+  },
+  role: {
+    type: String,
+    enum: USER_ROLES,
+    default: "user"
+  },
+  resetPasswordTokenHash: {
+    type: String,
+    index: true,
+    sparse: true
+  },
   resetPasswordExpires: Date,
-  
+  emailVerified: {
+    type: Boolean,
+    default: false
+  },
+  emailVerificationTokenHash: {
+    type: String,
+    index: true,
+    sparse: true
+  },
+  emailVerificationExpires: Date,
+  emailVerificationSentAt: Date,
+  pendingEmail: {
+    type: String,
+    lowercase: true,
+    trim: true,
+    match: [/^\S+@\S+\.\S+$/, "El email no es válido"]
+  },
+  emailChangeTokenHash: {
+    type: String,
+    index: true,
+    sparse: true
+  },
+  emailChangeExpires: Date,
+  previousEmail: {
+    type: String,
+    lowercase: true,
+    trim: true
+  },
+  emailChangeUndoTokenHash: {
+    type: String,
+    index: true,
+    sparse: true
+  },
+  emailChangeUndoExpires: Date,
+  magicLinkTokenHash: {
+    type: String,
+    index: true,
+    sparse: true
+  },
+  magicLinkExpires: Date,
+  mfaEnabled: {
+    type: Boolean,
+    default: false
+  },
+  mfaSecret: String,
+  mfaPendingSecret: String,
+  mfaRecoveryCodes: {
+    type: [String],
+    default: []
+  },
+  mfaLastUsedStep: Number,
+  deletedAt: Date,
+  purgeAfter: {
+    type: Date,
+    index: true,
+    sparse: true
+  },
+  purgeLockedUntil: Date,
+  identities: {
+    type: [identitySchema],
+    default: []
+  },
+
   createdAt: {
     type: Date,
     default: Date.now
   }
 });
 
+// Lookup of the account linked to an external identity
+userSchema.index({ "identities.provider": 1, "identities.subject": 1 }, { sparse: true });
+
 /**
  * Optional middleware to encrypt the password before saving.
  *
@@ -84,6 +229,19 @@ const userSchema = new mongoose.Schema({
 //   }
 // });
 
+/**
+ * Projection that removes credentials and pending tokens from user documents.
+ * Use it whenever a user is returned to a client.
+ *
+ * @constant
+ * @type {string}
+ */
+export const USER_PRIVATE_FIELDS =
+  "-password -passwordHistory -resetPasswordTokenHash -resetPasswordExpires -emailVerificationTokenHash -emailVerificationExpires -emailVerificationSentAt" +
+  " -emailChangeTokenHash -emailChangeExpires -previousEmail -emailChangeUndoTokenHash -emailChangeUndoExpires" +
+  " -magicLinkTokenHash -magicLinkExpires" +
+  " -mfaSecret -mfaPendingSecret -mfaRecoveryCodes -mfaLastUsedStep -purgeLockedUntil";
+
 /**
  * Mongoose model for the `User` collection.
  *
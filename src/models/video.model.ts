@@ -0,0 +1,107 @@
+/**
+ * @file video.model.ts
+ * @description Definition of the Video schema and model in MongoDB using Mongoose.
+ */
+
+const mongoose = require("mongoose");
+
+
+/**
+ * Schema for the `Video` collection.
+ *
+ * Local copy of the catalog metadata of a video, upserted whenever the video is fetched from the
+ * video provider or referenced by a saved movie, comment or rating. It is the source of truth for
+ * titles, authors and thumbnails; clients no longer supply them.
+ *
+ * @typedef {Object} Video
+ * @property {string} pexelsId - Catalog video ID (required, unique).
+ * @property {string} provider - Provider the metadata came from (`pexels`, `fixtures`).
+ * @property {string} title - Title derived from the video page slug.
+ * @property {string} pexelUser - Author name.
+ * @property {string} [pexelUserUrl] - Author profile URL.
+ * @property {string} [url] - Video page URL.
+ * @property {string} miniatureUrl - Thumbnail URL.
+ * @property {number} [duration] - Duration in seconds.
+ * @property {number} [width] - Width in pixels.
+ * @property {number} [height] - Height in pixels.
+ * @property {string[]} pictures - Preview pictures, in order.
+ * @property {Object[]} files - Video files `{ quality, fileType, width, height, fps, link }`.
+ * @property {string[]} tags - Catalog tags, when the provider has them.
+ * @property {Date} fetchedAt - Last time the metadata was refreshed from the provider.
+ * @property {Date} createdAt - Date the video was first seen (automatic).
+ */
+
+
+const videoFileSchema = new mongoose.Schema({
+  quality: String,
+  fileType: String,
+  width: Number,
+  height: Number,
+  fps: Number,
+  link: {
+    type: String,
+    required: true
+  }
+}, { _id: false });
+
+const videoSchema = new mongoose.Schema({
+  pexelsId: {
+    type: String,
+    required: true,
+    unique: true,
+    trim: true
+  },
+  provider: {
+    type: String,
+    default: "pexels"
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  pexelUser: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  pexelUserUrl: String,
+  url: String,
+  miniatureUrl: {
+    type: String,
+    required: true
+  },
+  duration: Number,
+  width: Number,
+  height: Number,
+  pictures: {
+    type: [String],
+    default: []
+  },
+  files: {
+    type: [videoFileSchema],
+    default: []
+  },
+  tags: {
+    type: [String],
+    default: []
+  },
+  fetchedAt: {
+    type: Date,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+/**
+ * Mongoose model for the `Video` collection.
+ *
+ * @type {mongoose.Model<Video>}
+ */
+
+const Video = mongoose.model('Video', videoSchema);
+
+export default Video; // Export the Video model
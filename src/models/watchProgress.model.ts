@@ -0,0 +1,82 @@
+/**
+ * @file watchProgress.model.ts
+ * @description Definition of the WatchProgress schema and model in MongoDB using Mongoose.
+ */
+
+const mongoose = require("mongoose");
+
+
+/**
+ * Schema for the `WatchProgress` collection.
+ *
+ * Playback state of a Pexels video for a user, reported periodically by the player.
+ * Feeds the "continue watching" row and the `watched` filter of movies and Pexels searches.
+ *
+ * @typedef {Object} WatchProgress
+ * @property {mongoose.Types.ObjectId} userId - Reference to the user watching the video.
+ * @property {string} pexelsId - Pexels video ID (required, one document per user and video).
+ * @property {number} position - Last playback position in seconds.
+ * @property {number} duration - Video duration in seconds.
+ * @property {boolean} completed - Whether the user finished (or marked as watched) the video.
+ * @property {Date} [completedAt] - Date the video was first completed.
+ * @property {string} [title] - Video title, for the "continue watching" row.
+ * @property {string} [pexelUser] - Pexels user/author name.
+ * @property {string} [miniatureUrl] - Video thumbnail url.
+ * @property {Date} updatedAt - Date of the last reported position.
+ */
+
+
+const watchProgressSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User', // Reference to the User model
+    required: true
+  },
+  pexelsId: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  position: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  duration: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  completed: {
+    type: Boolean,
+    default: false
+  },
+  completedAt: Date,
+  title: {
+    type: String,
+    trim: true
+  },
+  pexelUser: {
+    type: String,
+    trim: true
+  },
+  miniatureUrl: String,
+  updatedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// One document per user and video, and the "continue watching" row (most recent first)
+watchProgressSchema.index({ userId: 1, pexelsId: 1 }, { unique: true });
+watchProgressSchema.index({ userId: 1, completed: 1, updatedAt: -1 });
+
+/**
+ * Mongoose model for the `WatchProgress` collection.
+ *
+ * @type {mongoose.Model<WatchProgress>}
+ */
+
+const WatchProgress = mongoose.model('WatchProgress', watchProgressSchema);
+
+export default WatchProgress; // Export the WatchProgress model
@@ -0,0 +1,49 @@
+import path from "path";
+import { createFixtureProvider } from "./fixture.provider";
+import { VideoProviderError } from "./videoProvider";
+
+const provider = createFixtureProvider(path.resolve(__dirname, "../../fixtures/videos"));
+
+describe("fixture provider", () => {
+  it("lists popular videos in file order, with Pexels-shaped pages", async () => {
+    const page = await provider.popular({ per_page: 2 });
+
+    expect(page).toMatchObject({ page: 1, per_page: 2, total_results: 3 });
+    expect(page.videos.map((video: any) => video.id)).toEqual([3190131, 4057411]);
+  });
+
+  it("filters popular videos by minimum size", async () => {
+    const page = await provider.popular({ min_width: 3000 });
+
+    expect(page.videos.map((video: any) => video.id)).toEqual([4057411]);
+  });
+
+  it("matches every word of a search against the slug, author and tags", async () => {
+    expect((await provider.search({ query: "Sea Waves" })).videos.map((video: any) => video.id)).toEqual([3190131]);
+    expect((await provider.search({ query: "bosque" })).videos.map((video: any) => video.id)).toEqual([5752729]);
+    expect((await provider.search({ query: "sea forest" })).total_results).toBe(0);
+  });
+
+  it("honours orientation and size in searches", async () => {
+    const portrait = await provider.search({ query: "movies", orientation: "portrait" });
+    const large = await provider.search({ query: "movies", size: "large" });
+
+    expect(portrait.videos.map((video: any) => video.id)).toEqual([5752729]);
+    expect(large.videos.map((video: any) => video.id)).toEqual([4057411]);
+  });
+
+  it("returns a video by id and answers 404 for unknown ids", async () => {
+    expect((await provider.getById("4057411")).url).toBe("https://www.pexels.com/video/city-lights-at-night-4057411/");
+
+    await expect(provider.getById("1")).rejects.toEqual(expect.any(VideoProviderError));
+    await expect(provider.getById("1")).rejects.toMatchObject({ status: 404 });
+  });
+
+  it("answers 503 when the fixtures directory cannot be read", async () => {
+    const missing = createFixtureProvider(path.resolve(__dirname, "does-not-exist"));
+    const consoleError = jest.spyOn(console, "error").mockImplementation(() => undefined);
+
+    await expect(missing.popular({})).rejects.toMatchObject({ status: 503 });
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * @file providers/fixture.provider.ts
+ * @description Video provider that serves videos from JSON files on disk, so development and
+ * automated tests work without a Pexels key or network access.
+ */
+
+import { VideoProvider, VideoProviderError, PopularVideosParams, SearchVideosParams } from "./videoProvider";
+
+const fs = require("fs/promises");
+const path = require("path");
+
+/**
+ * Minimum width of each Pexels `size` filter (large 4K, medium Full HD, small HD).
+ */
+const SIZE_MIN_WIDTH: Record<string, number> = { large: 3840, medium: 1920, small: 1280 };
+
+/**
+ * Reads every `*.json` file of a directory, in file name order.
+ *
+ * @async
+ * @param {string} dir - Fixtures directory.
+ * @returns {Promise<any[]>} The videos, de-duplicated by id (first one wins).
+ * @remarks
+ * - Each file may hold a video object, an array of videos, or a Pexels page (`{ videos: [...] }`).
+ *   Videos use the Pexels format; an optional `tags` array is matched by searches.
+ */
+async function loadFixtures(dir: string): Promise<any[]> {
+  const files = (await fs.readdir(dir)).filter((file: string) => file.endsWith(".json")).sort();
+  const videos = new Map<string, any>();
+
+  for (const file of files) {
+    const content = JSON.parse(await fs.readFile(path.join(dir, file), "utf8"));
+    const entries = Array.isArray(content) ? content : Array.isArray(content?.videos) ? content.videos : [content];
+    for (const video of entries) {
+      if (video?.id === undefined) {
+        console.error(`Skipping fixture video without id in ${file}`);
+        continue;
+      }
+      if (!videos.has(String(video.id))) videos.set(String(video.id), video);
+    }
+  }
+  return [...videos.values()];
+}
+
+/**
+ * Words a search query is matched against: the slug of the video page, the author and the tags.
+ *
+ * @param {any} video - Fixture video.
+ * @returns {string} Lowercase searchable text.
+ */
+function searchableText(video: any): string {
+  const slug = String(video.url || "").split("/").filter(Boolean).pop() || "";
+  return [slug.replace(/-/g, " "), video.user?.name, ...(Array.isArray(video.tags) ? video.tags : [])]
+    .join(" ")
+    .toLowerCase();
+}
+
+/**
+ * Builds a Pexels-shaped page.
+ *
+ * @param {any[]} videos - Every matching video.
+ * @param {number} [page=1] - Page number.
+ * @param {number} [perPage=15] - Page size.
+ * @returns {Object} `{ page, per_page, total_results, videos }`.
+ */
+function paginate(videos: any[], page = 1, perPage = 15) {
+  return {
+    page,
+    per_page: perPage,
+    total_results: videos.length,
+    videos: videos.slice((page - 1) * perPage, page * perPage),
+  };
+}
+
+/**
+ * Creates a provider serving the fixtures of a directory.
+ *
+ * @param {string} dir - Directory with the JSON fixtures; read on first use and kept in memory.
+ * @returns {VideoProvider} The fixture provider.
+ * @remarks
+ * - Searches match every word of the query (case-insensitive) and honour `orientation` and `size`;
+ *   popular videos are the fixtures in file order, filtered by `min_width` / `min_height`.
+ * - Answers 404 for unknown ids and 503 when the directory cannot be read.
+ */
+export function createFixtureProvider(dir: string): VideoProvider {
+  let catalog: Promise<any[]> | null = null;
+
+  const videos = () => {
+    catalog ??= loadFixtures(dir).catch((error) => {
+      catalog = null;
+      console.error(`Error loading video fixtures from ${dir}:`, error);
+      throw new VideoProviderError("Video catalog unavailable", 503);
+    });
+    return catalog;
+  };
+
+  return {
+    name: "fixtures",
+
+    async popular({ page, per_page, min_width = 0, min_height = 0 }: PopularVideosParams) {
+      const matches = (await videos()).filter((video) => video.width >= min_width && video.height >= min_height);
+      return paginate(matches, page, per_page);
+    },
+
+    async search({ query, page, per_page, orientation, size }: SearchVideosParams) {
+      const words = String(query).toLowerCase().split(/\s+/).filter(Boolean);
+      const minWidth = SIZE_MIN_WIDTH[size || ""] || 0;
+
+      const matches = (await videos()).filter((video) => {
+        const text = searchableText(video);
+        if (!words.every((word) => text.includes(word))) return false;
+        if (orientation === "landscape" && !(video.width > video.height)) return false;
+        if (orientation === "portrait" && !(video.width < video.height)) return false;
+        if (orientation === "square" && video.width !== video.height) return false;
+        return Math.max(video.width, video.height) >= minWidth;
+      });
+      return paginate(matches, page, per_page);
+    },
+
+    async getById(id: string) {
+      const video = (await videos()).find((candidate) => String(candidate.id) === String(id));
+      if (!video) {
+        throw new VideoProviderError("Video not found", 404);
+      }
+      return video;
+    },
+  };
+}
@@ -0,0 +1,20 @@
+/**
+ * @file providers/pexels.provider.ts
+ * @description Video provider backed by the Pexels API (through `utils/pexelsClient`, which
+ * handles quota, retries and the circuit breaker).
+ */
+
+import { VideoProvider } from "./videoProvider";
+import { pexelsClient } from "../utils/pexelsClient";
+
+/**
+ * Pexels video catalog. Requires a valid `PEXELS_API_KEY` environment variable.
+ */
+const pexelsProvider: VideoProvider = {
+  name: "pexels",
+  popular: (params) => pexelsClient.videos.popular({ ...params }),
+  search: (params) => pexelsClient.videos.search({ ...params }),
+  getById: (id) => pexelsClient.videos.show({ id }),
+};
+
+export default pexelsProvider;
@@ -0,0 +1,58 @@
+/**
+ * @file providers/videoProvider.ts
+ * @description Contract of the video catalogs the API can browse (Pexels, local fixtures, ...).
+ * Providers answer with Pexels-shaped payloads so controllers do not depend on the catalog in use;
+ * the active provider is chosen in `config/videoProvider.ts`.
+ */
+
+/**
+ * Error of a catalog call, with the HTTP status our API should answer with.
+ *
+ * @property {number} status - e.g. 404 unknown video, 429 quota exhausted, 503 catalog unavailable.
+ * @property {number} [retryAfter] - Seconds until the call is worth retrying.
+ */
+export class VideoProviderError extends Error {
+  constructor(message: string, public status: number, public retryAfter?: number) {
+    super(message);
+    this.name = "VideoProviderError";
+  }
+}
+
+/**
+ * Parameters of the popular videos listing.
+ */
+export interface PopularVideosParams {
+  page?: number;
+  per_page?: number;
+  min_width?: number;
+  min_height?: number;
+}
+
+/**
+ * Parameters of a video search.
+ */
+export interface SearchVideosParams {
+  query: string;
+  page?: number;
+  per_page?: number;
+  orientation?: string;
+  size?: string;
+  locale?: string;
+}
+
+/**
+ * A video catalog.
+ *
+ * @property {string} name - Provider identifier (`pexels`, `fixtures`), also part of cache keys.
+ * @property {Function} popular - Resolves to a page `{ page, per_page, total_results, videos }`.
+ * @property {Function} search - Resolves to a page `{ page, per_page, total_results, videos }`.
+ * @property {Function} getById - Resolves to a single video.
+ * @remarks
+ * - Failures must be thrown as `VideoProviderError` (404 when the video does not exist).
+ */
+export interface VideoProvider {
+  name: string;
+  popular(params: PopularVideosParams): Promise<any>;
+  search(params: SearchVideosParams): Promise<any>;
+  getById(id: string): Promise<any>;
+}
@@ -0,0 +1,75 @@
+/**
+ * @file admin.routes.ts
+ * @description Defines administration endpoints to manage users and their roles, and to monitor
+ * the Pexels quota.
+ * Every route requires an interactive session (no access tokens) of a user with the `admin` role.
+ */
+
+import { Router } from 'express';
+import { listUsers, getUser, updateUserRole, deleteUser, getPexelsQuota } from '../controllers/admin.controller';
+import { requireRole } from '../middleware/requireRole';
+import { requireSession } from '../middleware/requireScope';
+const authMiddleware = require("../middleware/auth");
+
+const router = Router();
+
+router.use(authMiddleware, requireSession, requireRole('admin'));
+
+/**
+ * @route GET /admin/users
+ * @description Lists users, optionally filtered by text or role, with pagination.
+ * @access Private (admin)
+ * @example
+ * GET /admin/users?search=doe&role=moderator&page=1&limit=20
+ * Response:
+ * {
+ *   "users": [{ "_id": "6721a9c4...", "email": "john@example.com", "role": "moderator" }],
+ *   "total": 1,
+ *   "page": 1,
+ *   "limit": 20
+ * }
+ */
+router.get('/users', listUsers);
+
+/**
+ * @route GET /admin/users/:id
+ * @description Retrieves a single user without sensitive fields.
+ * @access Private (admin)
+ */
+router.get('/users/:id', getUser);
+
+/**
+ * @route PUT /admin/users/:id/role
+ * @description Changes a user's role.
+ * @access Private (admin)
+ * @example
+ * PUT /admin/users/6721a9c4.../role
+ * {
+ *   "role": "moderator"
+ * }
+ */
+router.put('/users/:id/role', updateUserRole);
+
+/**
+ * @route DELETE /admin/users/:id
+ * @description Deletes a user account immediately, with its saved movies, ratings, comments and sessions.
+ * @access Private (admin)
+ */
+router.delete('/users/:id', deleteUser);
+
+/**
+ * @route GET /admin/pexels/quota
+ * @description Shows the Pexels quota usage, the circuit breaker state and request counters.
+ * @access Private (admin)
+ * @example
+ * GET /admin/pexels/quota
+ * Response:
+ * {
+ *   "quota": { "limit": 20000, "remaining": 19850, "used": 150, "resetAt": "2025-11-01T00:00:00.000Z", "updatedAt": "..." },
+ *   "breaker": { "state": "closed", "consecutiveFailures": 0, "openUntil": null },
+ *   "stats": { "requests": 152, "retries": 3, "failures": 1, "rejected": 0 }
+ * }
+ */
+router.get('/pexels/quota', getPexelsQuota);
+
+export default router;
@@ -5,13 +5,20 @@
  */
 
 import { Router } from 'express';
-import { signup, login, logout, forgotPassword, validateResetToken, resetPassword, getProfile, updateProfile, deleteProfile, session, changePassword } from '../controllers/auth.controller';
+import { signup, verifyEmail, resendVerification, login, logout, refresh, listSessions, revokeSession, revokeOtherSessions, forgotPassword, validateResetToken, resetPassword, unlockAccount, getProfile, updateProfile, confirmEmailChange, undoEmailChange, deleteProfile, restoreDeletedAccount, session, changePassword, setPassword } from '../controllers/auth.controller';
+import { setupMfa, confirmMfa, verifyMfa, disableMfa } from '../controllers/mfa.controller';
+import { requestMagicLink, verifyMagicLink } from '../controllers/magicLink.controller';
+import { listProviders, startOidcLogin, oidcCallback, unlinkProvider } from '../controllers/oidc.controller';
+import { createAccessToken, listAccessTokens, revokeAccessToken } from '../controllers/accessToken.controller';
+import { createDataExport, getDataExportStatus, downloadDataExport } from '../controllers/dataExport.controller';
+import { listSecurityEvents } from '../controllers/securityEvent.controller';
 const authMiddleware = require("../middleware/auth");
+import { requireScope, requireSession } from '../middleware/requireScope';
 const router = Router();
 
 /**
  * @route POST /auth/register
- * @description Registers a new user in the system.
+ * @description Registers a new user in the system and emails a verification link.
  * @access Public
  * @example
  * POST /auth/register
@@ -25,9 +32,34 @@ const router = Router();
  */
 router.post('/register', signup);
 
+/**
+ * @route POST /auth/verify-email
+ * @description Confirms the user's email address with the token sent after registration.
+ * @access Public
+ * @example
+ * POST /auth/verify-email
+ * {
+ *   "token": "abc123def456"
+ * }
+ */
+router.post('/verify-email', verifyEmail);
+
+/**
+ * @route POST /auth/resend-verification
+ * @description Sends a new verification email (same answer whether or not the account exists).
+ * @access Public
+ * @example
+ * POST /auth/resend-verification
+ * {
+ *   "email": "john@example.com"
+ * }
+ */
+router.post('/resend-verification', resendVerification);
+
 /**
  * @route POST /auth/login
- * @description Authenticates a user and issues a JWT cookie.
+ * @description Authenticates a user, opens a session and issues the access and refresh cookies.
+ * With two-factor authentication enabled, responds with `{ mfaRequired: true, mfaToken }` instead.
  * @access Public
  * @example
  * POST /auth/login
@@ -38,17 +70,264 @@ router.post('/register', signup);
  */
 router.post('/login', login);
 
+/**
+ * @route POST /auth/magic-link
+ * @description Emails a single-use, short-lived sign-in link (same answer whether or not the account exists).
+ * @access Public
+ * @example
+ * POST /auth/magic-link
+ * {
+ *   "email": "john@example.com"
+ * }
+ */
+router.post('/magic-link', requestMagicLink);
+
+/**
+ * @route POST /auth/magic-link/verify
+ * @description Signs in with the token from a magic link and issues the same cookies as `/auth/login`.
+ * With two-factor authentication enabled, responds with `{ mfaRequired: true, mfaToken }` instead.
+ * @access Public
+ * @example
+ * POST /auth/magic-link/verify
+ * {
+ *   "token": "abc123def456"
+ * }
+ */
+router.post('/magic-link/verify', verifyMagicLink);
+
+/**
+ * @route GET /auth/oidc/providers
+ * @description Lists the external identity providers (OpenID Connect) users can sign in with.
+ * @access Public
+ * @example
+ * GET /auth/oidc/providers
+ * Response:
+ * [
+ *   { "id": "google", "name": "Google", "url": "/api/auth/oidc/google" }
+ * ]
+ */
+router.get('/oidc/providers', listProviders);
+
+/**
+ * @route DELETE /auth/oidc/identities/:provider
+ * @description Unlinks an identity provider from the authenticated user's account.
+ * @access Private (requires a signed-in session)
+ */
+router.delete('/oidc/identities/:provider', authMiddleware, requireSession, unlinkProvider);
+
+/**
+ * @route GET /auth/oidc/:provider
+ * @description Starts the sign-in with an identity provider (authorization code with PKCE);
+ * the browser is redirected to the provider. Meant to be opened by the browser, not fetched.
+ * @access Public
+ */
+router.get('/oidc/:provider', startOidcLogin);
+
+/**
+ * @route GET /auth/oidc/:provider/callback
+ * @description Callback registered at the provider. Signs the user in (linking or creating the
+ * account by verified email) and redirects to `<FRONTEND_URL>/acceso-externo?status=...`.
+ * @access Public (requires the state cookie set by `/auth/oidc/:provider`)
+ */
+router.get('/oidc/:provider/callback', oidcCallback);
+
+/**
+ * @route POST /auth/mfa/verify
+ * @description Completes a two-factor login with a TOTP or recovery code and issues the session cookies.
+ * @access Public (requires the `mfaToken` returned by `/auth/login`)
+ * @example
+ * POST /auth/mfa/verify
+ * {
+ *   "mfaToken": "eyJhbGciOi...",
+ *   "code": "123456"
+ * }
+ */
+router.post('/mfa/verify', verifyMfa);
+
+/**
+ * @route POST /auth/mfa/setup
+ * @description Starts two-factor enrollment and returns the TOTP secret and `otpauth://` URI.
+ * @access Private (requires JWT authentication)
+ */
+router.post('/mfa/setup', authMiddleware, requireSession, setupMfa);
+
+/**
+ * @route POST /auth/mfa/confirm
+ * @description Enables two-factor authentication with a first valid code and returns the recovery codes.
+ * @access Private (requires JWT authentication)
+ * @example
+ * POST /auth/mfa/confirm
+ * {
+ *   "code": "123456"
+ * }
+ */
+router.post('/mfa/confirm', authMiddleware, requireSession, confirmMfa);
+
+/**
+ * @route POST /auth/mfa/disable
+ * @description Disables two-factor authentication after confirming the current password.
+ * @access Private (requires JWT authentication)
+ */
+router.post('/mfa/disable', authMiddleware, requireSession, disableMfa);
+
 /**
  * @route POST /auth/logout
- * @description Logs out the authenticated user by clearing the token cookie.
+ * @description Logs out the user by revoking the current session and clearing the auth cookies.
  * @access Public
  */
 router.post('/logout', logout);
 
+/**
+ * @route POST /auth/refresh
+ * @description Rotates the refresh token cookie and issues a new access token cookie.
+ * Reusing an already rotated refresh token revokes the whole session.
+ * @access Public (requires the `refreshToken` cookie)
+ */
+router.post('/refresh', refresh);
+
+/**
+ * @route POST /auth/restore-account
+ * @description Restores an account pending deletion during its grace period.
+ * @access Public
+ * @example
+ * POST /auth/restore-account
+ * {
+ *   "email": "john@example.com",
+ *   "password": "Secret123!"
+ * }
+ */
+router.post('/restore-account', restoreDeletedAccount);
+
+/**
+ * @route GET /auth/sessions
+ * @description Lists the authenticated user's active sessions (devices).
+ * @access Private (requires JWT authentication)
+ * @example
+ * GET /auth/sessions
+ * Response:
+ * [
+ *   {
+ *     "_id": "6750c1e2...",
+ *     "device": "Chrome en Windows",
+ *     "ip": "181.50.1.23",
+ *     "lastUsedAt": "2024-01-15T10:30:00.000Z",
+ *     "current": true
+ *   }
+ * ]
+ */
+router.get('/sessions', authMiddleware, requireSession, listSessions);
+
+/**
+ * @route DELETE /auth/sessions
+ * @description Revokes every session of the authenticated user except the current one.
+ * @access Private (requires JWT authentication)
+ */
+router.delete('/sessions', authMiddleware, requireSession, revokeOtherSessions);
+
+/**
+ * @route DELETE /auth/sessions/:id
+ * @description Revokes a single session of the authenticated user (remote sign out).
+ * @access Private (requires JWT authentication)
+ */
+router.delete('/sessions/:id', authMiddleware, requireSession, revokeSession);
+
+/**
+ * @route GET /auth/security-events
+ * @description Lists the authenticated user's security history (logins, failed logins, password
+ * and email changes, account deletion), newest first.
+ * @access Private (requires a signed-in session)
+ * @example
+ * GET /auth/security-events?type=login&limit=20
+ * Response:
+ * {
+ *   "events": [
+ *     {
+ *       "_id": "6762c3d4...",
+ *       "type": "login",
+ *       "ip": "181.50.1.23",
+ *       "device": "Chrome en Windows",
+ *       "metadata": { "method": "password" },
+ *       "createdAt": "2024-01-15T10:30:00.000Z"
+ *     }
+ *   ],
+ *   "nextBefore": null
+ * }
+ */
+router.get('/security-events', authMiddleware, requireSession, listSecurityEvents);
+
+/**
+ * @route POST /auth/tokens
+ * @description Creates a personal access token for `Authorization: Bearer` use by scripts and mobile clients.
+ * The plain token is only returned in this response.
+ * @access Private (requires a signed-in session)
+ * @example
+ * POST /auth/tokens
+ * {
+ *   "name": "Script de respaldo",
+ *   "scopes": ["movies:read", "ratings:write"],
+ *   "expiresInDays": 90
+ * }
+ * Response:
+ * {
+ *   "token": "fu_pat_Q2x8...",
+ *   "accessToken": { "_id": "6760a1b2...", "name": "Script de respaldo", "prefix": "fu_pat_Q2x8aB", "scopes": ["movies:read", "ratings:write"] }
+ * }
+ */
+router.post('/tokens', authMiddleware, requireSession, createAccessToken);
+
+/**
+ * @route GET /auth/tokens
+ * @description Lists the authenticated user's active personal access tokens (without their values).
+ * @access Private (requires a signed-in session)
+ */
+router.get('/tokens', authMiddleware, requireSession, listAccessTokens);
+
+/**
+ * @route DELETE /auth/tokens/:id
+ * @description Revokes a personal access token.
+ * @access Private (requires a signed-in session)
+ */
+router.delete('/tokens/:id', authMiddleware, requireSession, revokeAccessToken);
+
+/**
+ * @route POST /auth/export
+ * @description Requests an export of the user's profile, saved movies, comments and ratings
+ * (JSON and CSV in a ZIP archive). The download link is emailed when the archive is ready.
+ * @access Private (requires a signed-in session)
+ * @example
+ * POST /auth/export
+ * Response (202):
+ * {
+ *   "exportId": "6761b2c3...",
+ *   "status": "pending"
+ * }
+ */
+router.post('/export', authMiddleware, requireSession, createDataExport);
+
+/**
+ * @route GET /auth/export/:id
+ * @description Retrieves the status of a data export (`pending`, `processing`, `ready` or `failed`).
+ * @access Private (requires a signed-in session)
+ */
+router.get('/export/:id', authMiddleware, requireSession, getDataExportStatus);
+
+/**
+ * @route GET /auth/export/:id/download?token=...
+ * @description Downloads a ready data export with the token from the emailed link, until it expires.
+ * @access Public (requires the download token)
+ */
+router.get('/export/:id/download', downloadDataExport);
+
 /**
  * @route POST /auth/forgot-password
- * @description Sends a password reset email with a temporary recovery token.
+ * @description Sends a password reset email with a temporary recovery token. Answers the same
+ * whether or not the account exists, and is rate-limited per email and IP.
  * @access Public
+ * @example
+ * POST /auth/forgot-password
+ * {
+ *   "email": "john@example.com"
+ * }
  */
 router.post('/forgot-password', forgotPassword);
 
@@ -64,7 +343,8 @@ router.post('/validate-reset-token', validateResetToken);
 
 /**
  * @route POST /auth/reset-password
- * @description Resets the user's password using a valid token from the reset email.
+ * @description Resets the user's password using a valid token from the reset email,
+ * signs out every device and emails a notice to the account.
  * @access Public
  * @example
  * POST /auth/reset-password
@@ -75,26 +355,65 @@ router.post('/validate-reset-token', validateResetToken);
  */
 router.post('/reset-password', resetPassword);
 
+/**
+ * @route POST /auth/unlock-account
+ * @description Unlocks an account locked after too many failed logins, using the emailed token.
+ * @access Public
+ * @example
+ * POST /auth/unlock-account
+ * {
+ *   "token": "abc123def456"
+ * }
+ */
+router.post('/unlock-account', unlockAccount);
+
 /**
  * @route GET /auth/profile
  * @description Retrieves the authenticated user's profile.
  * @access Private (requires JWT authentication)
  */
-router.get('/profile', authMiddleware, getProfile);
+router.get('/profile', authMiddleware, requireScope('profile:read'), getProfile);
 
 /**
  * @route PUT /auth/profile
- * @description Updates the authenticated user's profile information.
+ * @description Updates the authenticated user's profile information. A new email stays pending
+ * until confirmed from the link sent to it; the current address receives an undo link.
  * @access Private (requires JWT authentication)
  */
-router.put('/profile', authMiddleware, updateProfile);
+router.put('/profile', authMiddleware, requireSession, updateProfile);
+
+/**
+ * @route POST /auth/confirm-email-change
+ * @description Applies a pending email change with the token sent to the new address.
+ * @access Public
+ * @example
+ * POST /auth/confirm-email-change
+ * {
+ *   "token": "abc123def456"
+ * }
+ */
+router.post('/confirm-email-change', confirmEmailChange);
+
+/**
+ * @route POST /auth/undo-email-change
+ * @description Cancels or reverts an email change with the token sent to the old address,
+ * and signs out every device.
+ * @access Public
+ * @example
+ * POST /auth/undo-email-change
+ * {
+ *   "token": "abc123def456"
+ * }
+ */
+router.post('/undo-email-change', undoEmailChange);
 
 /**
  * @route DELETE /auth/profile
- * @description Deletes the authenticated user's account after confirming password.
+ * @description Schedules the deletion of the authenticated user's account after confirming password.
+ * The account can be restored during the grace period; afterwards it is purged with its data.
  * @access Private (requires JWT authentication)
  */
-router.delete('/profile', authMiddleware, deleteProfile);
+router.delete('/profile', authMiddleware, requireSession, deleteProfile);
 
 /**
  * @route GET /auth/session
@@ -103,6 +422,24 @@ router.delete('/profile', authMiddleware, deleteProfile);
  */
 router.get('/session', authMiddleware, session);
 
-router.post('/change-password', authMiddleware, changePassword);
+/**
+ * @route POST /auth/set-password
+ * @description Sets a first password on an account created through an identity provider.
+ * @access Private (requires a signed-in session)
+ * @example
+ * POST /auth/set-password
+ * {
+ *   "password": "NuevaContraseña123!"
+ * }
+ */
+router.post('/set-password', authMiddleware, requireSession, setPassword);
+
+/**
+ * @route POST /auth/change-password
+ * @description Changes the authenticated user's password, signs out their other devices and
+ * revokes their personal access tokens.
+ * @access Private (requires a signed-in session)
+ */
+router.post('/change-password', authMiddleware, requireSession, changePassword);
 
 export default router;
@@ -13,13 +13,15 @@ import {
   updateComment,
 } from "../controllers/comment.controller";
 const authMiddleware = require("../middleware/auth");
+import { requireVerifiedEmail } from "../middleware/verifiedEmail";
+import { requireScope } from "../middleware/requireScope";
 
 const router = Router();
 
 /**
  * @route POST /comments
  * @description Creates a new comment for a movie.
- * @access Private (requires JWT authentication)
+ * @access Private (requires JWT authentication and, per the verification policy, a verified email)
  * @param {string} description - Comment text content (required).
  * @param {string} moviePexelsId - Pexels movie ID to comment on (required).
  * @returns {Object} The newly created comment with user reference.
@@ -38,7 +40,7 @@ const router = Router();
  *   "createdAt": "2024-01-15T10:30:00.000Z"
  * }
  */
-router.post("/", authMiddleware, createComment);
+router.post("/", authMiddleware, requireScope("comments:write"), requireVerifiedEmail("comments"), createComment);
 
 /**
  * @route GET /comments/movie/:moviePexelsId
@@ -54,7 +56,7 @@ router.post("/", authMiddleware, createComment);
  *   "otherComments": [{ "_id": "...", "description": "Other comment", "userId": {...} }]
  * }
  */
-router.get("/movie/:moviePexelsId", authMiddleware, getCommentsByMovie);
+router.get("/movie/:moviePexelsId", authMiddleware, requireScope("comments:read"), getCommentsByMovie);
 
 /**
  * @route GET /comments/user/:userId
@@ -74,11 +76,11 @@ router.get("/movie/:moviePexelsId", authMiddleware, getCommentsByMovie);
  *   }
  * ]
  */
-router.get("/user/:userId", authMiddleware, getCommentsByUser);
+router.get("/user/:userId", authMiddleware, requireScope("comments:read"), getCommentsByUser);
 
 /**
  * @route DELETE /comments/:id
- * @description Deletes a comment (only the comment owner can delete).
+ * @description Deletes a comment (the comment owner, or any moderator/admin, can delete).
  * @access Private (requires JWT authentication)
  * @param {string} id - Comment identifier.
  * @returns {Object} Success message.
@@ -89,12 +91,12 @@ router.get("/user/:userId", authMiddleware, getCommentsByUser);
  *   "message": "Comment deleted successfully"
  * }
  */
-router.delete("/:id", authMiddleware, deleteComment);
+router.delete("/:id", authMiddleware, requireScope("comments:write"), deleteComment);
 
 /**
  * @route PUT /comments/:id
  * @description Updates a comment's description (only the comment owner can update).
- * @access Private (requires JWT authentication)
+ * @access Private (requires JWT authentication and, per the verification policy, a verified email)
  * @param {string} id - Comment identifier.
  * @param {string} description - New comment text content (required).
  * @returns {Object} Success message with updated comment.
@@ -109,6 +111,6 @@ router.delete("/:id", authMiddleware, deleteComment);
  *   "comment": { "_id": "...", "description": "Updated comment text", ... }
  * }
  */
-router.put("/:id", authMiddleware, updateComment);
+router.put("/:id", authMiddleware, requireScope("comments:write"), requireVerifiedEmail("comments"), updateComment);
 
 export default router;
\ No newline at end of file
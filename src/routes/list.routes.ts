@@ -0,0 +1,172 @@
+/**
+ * @file list.routes.ts
+ * @description Defines routes for the user's named lists of saved movies.
+ * Includes creating, renaming, reordering and deleting lists, managing the videos in each list,
+ * and publishing lists through share links.
+ */
+
+import { Router } from "express";
+import {
+  listLists,
+  getList,
+  createList,
+  renameList,
+  deleteList,
+  reorderLists,
+  addListItem,
+  removeListItem,
+  reorderListItems,
+} from "../controllers/list.controller";
+import { shareList, regenerateShare, revokeShare, listShares } from "../controllers/share.controller";
+const authMiddleware = require("../middleware/auth");
+import { requireVerifiedEmail } from "../middleware/verifiedEmail";
+import { requireScope } from "../middleware/requireScope";
+
+const router = Router();
+
+/**
+ * @route GET /lists
+ * @description Retrieves the authenticated user's lists in their display order.
+ * @access Private (requires JWT authentication)
+ * @returns {Array<Object>} Lists without their items.
+ * @example
+ * GET /lists
+ * Response:
+ * [
+ *   { "_id": "6744c1f2...", "name": "Favoritos", "position": 0, "isDefault": true, "itemCount": 12 },
+ *   { "_id": "6744c20a...", "name": "Ver más tarde", "position": 1, "isDefault": false, "itemCount": 3 }
+ * ]
+ */
+router.get("/", authMiddleware, requireScope("movies:read"), listLists);
+
+/**
+ * @route POST /lists
+ * @description Creates a list at the end of the user's lists.
+ * @access Private (requires JWT authentication and, per the verification policy, a verified email)
+ * @param {string} name - List name (required, unique per user).
+ * @example
+ * POST /lists
+ * { "name": "Documentales de naturaleza" }
+ */
+router.post("/", authMiddleware, requireScope("movies:write"), requireVerifiedEmail("movies"), createList);
+
+/**
+ * @route PUT /lists/order
+ * @description Sets the order of the user's lists.
+ * @access Private (requires JWT authentication)
+ * @param {string[]} listIds - Ids of all the user's lists, in the new order.
+ * @example
+ * PUT /lists/order
+ * { "listIds": ["6744c20a...", "6744c1f2..."] }
+ */
+router.put("/order", authMiddleware, requireScope("movies:write"), reorderLists);
+
+/**
+ * @route GET /lists/:listId
+ * @description Retrieves a list with its videos, in order.
+ * @access Private (requires JWT authentication)
+ * @param {string} listId - List id.
+ * @example
+ * GET /lists/6744c20a...
+ * Response:
+ * {
+ *   "_id": "6744c20a...",
+ *   "name": "Ver más tarde",
+ *   "items": [{ "pexelsId": "3190131", "addedAt": "...", "movie": { "title": "...", "miniatureUrl": "..." } }]
+ * }
+ */
+router.get("/:listId", authMiddleware, requireScope("movies:read"), getList);
+
+/**
+ * @route PUT /lists/:listId
+ * @description Renames a list.
+ * @access Private (requires JWT authentication)
+ * @param {string} listId - List id.
+ * @param {string} name - New name.
+ */
+router.put("/:listId", authMiddleware, requireScope("movies:write"), renameList);
+
+/**
+ * @route DELETE /lists/:listId
+ * @description Deletes a list (not the default one); its videos stay saved.
+ * @access Private (requires JWT authentication)
+ * @param {string} listId - List id.
+ */
+router.delete("/:listId", authMiddleware, requireScope("movies:write"), deleteList);
+
+/**
+ * @route POST /lists/:listId/items
+ * @description Adds a video to a list, saving it as a movie of the user (with the catalog metadata) if needed.
+ * @access Private (requires JWT authentication and, per the verification policy, a verified email)
+ * @param {string} listId - List id.
+ * @param {string} pexelsId - Pexels video ID (required).
+ * @example
+ * POST /lists/6744c20a.../items
+ * { "pexelsId": "3190131" }
+ */
+router.post(
+  "/:listId/items",
+  authMiddleware,
+  requireScope("movies:write"),
+  requireVerifiedEmail("movies"),
+  addListItem
+);
+
+/**
+ * @route PUT /lists/:listId/items/order
+ * @description Sets the order of the videos in a list.
+ * @access Private (requires JWT authentication)
+ * @param {string} listId - List id.
+ * @param {string[]} pexelsIds - Pexels IDs of all the videos in the list, in the new order.
+ * @example
+ * PUT /lists/6744c20a.../items/order
+ * { "pexelsIds": ["857195", "3190131"] }
+ */
+router.put("/:listId/items/order", authMiddleware, requireScope("movies:write"), reorderListItems);
+
+/**
+ * @route DELETE /lists/:listId/items/:pexelsId
+ * @description Removes a video from a list; it stays saved in the user's other lists.
+ * @access Private (requires JWT authentication)
+ * @param {string} listId - List id.
+ * @param {string} pexelsId - Pexels video ID.
+ */
+router.delete("/:listId/items/:pexelsId", authMiddleware, requireScope("movies:write"), removeListItem);
+
+/**
+ * @route GET /lists/:listId/shares
+ * @description Retrieves the share links of a list (active and revoked) with their view counts.
+ * @access Private (requires JWT authentication)
+ * @param {string} listId - List id.
+ * @example
+ * GET /lists/6744c20a.../shares
+ * Response:
+ * [{ "slug": "q3XbV0m9kQ2tY7pLrW1aZg", "url": "https://.../lista/q3XbV0m9kQ2tY7pLrW1aZg", "active": true, "views": 12 }]
+ */
+router.get("/:listId/shares", authMiddleware, requireScope("movies:read"), listShares);
+
+/**
+ * @route POST /lists/:listId/share
+ * @description Publishes a list through a public share link (returns the active one if it exists).
+ * @access Private (requires JWT authentication and, per the verification policy, a verified email)
+ * @param {string} listId - List id.
+ */
+router.post("/:listId/share", authMiddleware, requireScope("movies:write"), requireVerifiedEmail("movies"), shareList);
+
+/**
+ * @route PUT /lists/:listId/share
+ * @description Replaces the share link with a new one; the previous link stops working.
+ * @access Private (requires JWT authentication and, per the verification policy, a verified email)
+ * @param {string} listId - List id.
+ */
+router.put("/:listId/share", authMiddleware, requireScope("movies:write"), requireVerifiedEmail("movies"), regenerateShare);
+
+/**
+ * @route DELETE /lists/:listId/share
+ * @description Revokes the share link of a list.
+ * @access Private (requires JWT authentication)
+ * @param {string} listId - List id.
+ */
+router.delete("/:listId/share", authMiddleware, requireScope("movies:write"), revokeShare);
+
+export default router;
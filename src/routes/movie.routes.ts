@@ -4,30 +4,106 @@
  * Includes listing, retrieving, creating, and deleting movies.
  */
 
-import { Router } from 'express';
-import { listMovies, getMovie, createMovie, deleteMovie } from '../controllers/movies.controller';
+import { Router, text } from 'express';
+import {
+  listMovies,
+  getMovie,
+  createMovie,
+  deleteMovie,
+  exportMovies,
+  importMovies,
+  updateMovie,
+  listTags,
+} from '../controllers/movies.controller';
 const authMiddleware = require("../middleware/auth");
+import { requireVerifiedEmail } from "../middleware/verifiedEmail";
+import { requireScope } from "../middleware/requireScope";
 const router = Router();
 
 /**
  * @route GET /movies
- * @description Retrieves all movies stored in the database, sorted by creation date.
+ * @description Retrieves the user's saved movies a page at a time, sorted and filtered.
  * @access Public
- * @returns {Array<Object>} List of movies with their associated user information.
+ * @param {string} [sort=-createdAt] - `createdAt`, `title` or `rating`, prefixed with `-` for descending order.
+ * @param {number} [limit=20] - Page size (1-100).
+ * @param {string} [cursor] - `nextCursor` of the previous page.
+ * @param {string} [title] - Title substring (case-insensitive).
+ * @param {string} [pexelUser] - Pexels author (case-insensitive).
+ * @param {string} [from] - Saved on or after this ISO date.
+ * @param {string} [to] - Saved on or before this ISO date.
+ * @param {boolean} [watched] - Only return watched (`true`) or unwatched (`false`) movies.
+ * @param {string} [tags] - Comma separated tags the movies must have.
+ * @param {string} [tagMatch=all] - `all` to require every tag, `any` for at least one.
+ * @returns {Object} `{ movies, nextCursor, total }`.
  * @example
- * GET /movies
+ * GET /movies?sort=title&limit=2&title=camera
  * Response:
- * [
- *   {
- *     "_id": "673d4a12...",
- *     "title": "Sample Movie",
- *     "videoUrl": "https://...",
- *     "miniatureUrl": "https://...",
- *     "userId": { "_id": "6721a9c4...", "email": "user@example.com" }
- *   }
- * ]
+ * {
+ *   "movies": [
+ *     {
+ *       "_id": "673d4a12...",
+ *       "title": "Sample Movie",
+ *       "pexelUser": "Chris Gonzalez",
+ *       "pexelsId": "3190131",
+ *       "miniatureUrl": "https://...",
+ *       "averageRating": 4.5
+ *     }
+ *   ],
+ *   "nextCursor": "WyJTYW1wbGUgTW92aWUiLCI2NzNkNGExMiJd",
+ *   "total": 37
+ * }
+ */
+router.get('/', authMiddleware, requireScope('movies:read'), listMovies);
+
+/**
+ * @route GET /movies/tags
+ * @description Retrieves the user's tag vocabulary with the number of movies for each tag.
+ * @access Private (requires JWT authentication)
+ * @example
+ * GET /movies/tags
+ * Response:
+ * [{ "tag": "naturaleza", "count": 12 }, { "tag": "para compartir", "count": 3 }]
+ */
+router.get('/tags', authMiddleware, requireScope('movies:read'), listTags);
+
+/**
+ * @route GET /movies/export
+ * @description Downloads the user's saved movies and ratings.
+ * @access Private (requires JWT authentication)
+ * @param {string} [format=json] - `json` or `csv`.
+ * @example
+ * GET /movies/export?format=csv
+ * Response (attachment):
+ * pexelsId,title,pexelUser,miniatureUrl,saved,savedAt,rating,notes,tags
+ * 3190131,A Modern Video Camera Recorder,Chris Gonzalez,https://...,true,2024-01-15T10:30:00.000Z,5,,naturaleza;mar
+ */
+router.get('/export', authMiddleware, requireScope('movies:read'), requireScope('ratings:read'), exportMovies);
+
+/**
+ * @route POST /movies/import
+ * @description Imports saved movies and ratings from an export, reporting the outcome of each row.
+ * @access Private (requires JWT authentication and, per the verification policy, a verified email)
+ * @param {string} [format] - `json` or `csv` (defaults to the request `Content-Type`).
+ * @example
+ * POST /movies/import
+ * Content-Type: text/csv
+ * pexelsId,rating
+ * 3190131,5
+ * Response:
+ * {
+ *   "summary": { "imported": 1, "skipped": 0, "failed": 0 },
+ *   "rows": [{ "row": 1, "pexelsId": "3190131", "status": "imported", "movie": "created", "rating": "created" }]
+ * }
  */
-router.get('/', authMiddleware, listMovies);
+router.post(
+  '/import',
+  authMiddleware,
+  requireScope('movies:write'),
+  requireScope('ratings:write'),
+  requireVerifiedEmail('movies'),
+  text({ type: 'text/csv', limit: '1mb' }),
+  importMovies
+);
 
 /**
  * @route GET /movies/:id
@@ -45,36 +121,45 @@ router.get('/', authMiddleware, listMovies);
  *   "miniatureUrl": "https://..."
  * }
  */
-router.get('/:id', authMiddleware, getMovie);
+router.get('/:id', authMiddleware, requireScope('movies:read'), getMovie);
 
 /**
  * @route POST /movies
- * @description Creates a new movie associated with the authenticated user.
- * @access Private (requires JWT authentication)
- * @param {string} title - Movie title (required).
- * @param {string} pexelUser - Pexels user/author name (required).
+ * @description Creates a new movie associated with the authenticated user. Title, author and
+ * thumbnail are taken from the video catalog.
+ * @access Private (requires JWT authentication and, per the verification policy, a verified email)
  * @param {string} pexelsId - Pexels video ID (required).
- * @param {string} miniatureUrl - Movie thumbnail URL (required).
  * @example
  * POST /movies
  * {
- *   "title": "A Modern Video Camera Recorder Mounted On A Camera Stand",
- *   "pexelUser": "Chris Gonzalez",
- *   "pexelsId": "3190131",
- *   "miniatureUrl": "https://images.pexels.com/videos/3190131/free-video-3190131.jpg?auto=compress&cs=tinysrgb&fit=crop&h=630&w=1200"
+ *   "pexelsId": "3190131"
  * }
  * Response:
  * {
  *   "_id": "673d4b33...",
- *   "title": "A Modern Video Camera Recorder Mounted On A Camera Stand",
+ *   "title": "A modern video camera recorder mounted on a camera stand",
  *   "pexelUser": "Chris Gonzalez",
  *   "pexelsId": "3190131",
  *   "miniatureUrl": "https://...",
+ *   "videoId": "673d4b20...",
  *   "userId": "6721a9c4...",
  *   "createdAt": "2024-01-15T10:30:00.000Z"
  * }
  */
-router.post('/', authMiddleware, createMovie);
+router.post('/', authMiddleware, requireScope('movies:write'), requireVerifiedEmail('movies'), createMovie);
+
+/**
+ * @route PATCH /movies/:id
+ * @description Updates the private notes and tags of a saved movie.
+ * @access Private (requires JWT authentication)
+ * @param {string} id - Pexels video ID of the saved movie.
+ * @param {string} [notes] - Private notes.
+ * @param {string[]} [tags] - Tags, replacing the current ones.
+ * @example
+ * PATCH /movies/3190131
+ * { "notes": "Ver con los niños", "tags": ["naturaleza", "mar"] }
+ */
+router.patch('/:id', authMiddleware, requireScope('movies:write'), updateMovie);
 
 /**
  * @route DELETE /movies/:id
@@ -86,6 +171,6 @@ router.post('/', authMiddleware, createMovie);
  * DELETE /movies/673d4a12
  * Response: 204 No Content
  */
-router.delete('/:id', authMiddleware, deleteMovie);
+router.delete('/:id', authMiddleware, requireScope('movies:write'), deleteMovie);
 
 export default router;
@@ -7,6 +7,7 @@
 import { Router } from 'express';
 import { getPopularMovies, getSearchedMovies, getSearchedMovieById } from '../controllers/pexels.controller';
 const authMiddleware = require("../middleware/auth");
+import { requireScope } from '../middleware/requireScope';
 
 const router = Router();
 
@@ -14,18 +15,38 @@ const router = Router();
  * @route GET /pexels/popular
  * @description Retrieves a list of the most popular videos from the Pexels API.
  * @access Private (requires JWT authentication)
- * @returns {Array<Object>} List of popular videos from Pexels.
+ * @param {string} [quality=auto] - Preferred quality of each video's `selected` source (`hd`, `sd`, `auto`).
+ * @param {number} [maxWidth] - Widest source acceptable for `selected`.
+ * @param {boolean} [raw=false] - Return the Pexels payload instead of the normalized format.
+ * @returns {Object} Page of normalized videos.
  * @example
- * GET /pexels/popular
+ * GET /pexels/popular?quality=hd&maxWidth=1920
  * Response:
  * {
+ *   "page": 1,
+ *   "perPage": 10,
+ *   "totalResults": 1000,
  *   "videos": [
- *     { "id": 12345, "url": "https://videos.pexels.com/...", "user": { "name": "John Doe" } },
- *     { "id": 67890, "url": "https://videos.pexels.com/...", "user": { "name": "Jane Smith" } }
+ *     {
+ *       "id": "3190131",
+ *       "title": "Sea waves",
+ *       "author": { "name": "John Doe", "url": "https://www.pexels.com/@john-doe" },
+ *       "duration": 18,
+ *       "width": 1920,
+ *       "height": 1080,
+ *       "url": "https://www.pexels.com/video/sea-waves-3190131/",
+ *       "thumbnail": "https://images.pexels.com/videos/3190131/pictures/preview-0.jpg",
+ *       "poster": "https://images.pexels.com/videos/3190131/free-video-3190131.jpg",
+ *       "sources": [
+ *         { "quality": "hd", "label": "1080p", "type": "video/mp4", "width": 1920, "height": 1080, "fps": 25, "url": "https://videos.pexels.com/..." },
+ *         { "quality": "sd", "label": "540p", "type": "video/mp4", "width": 960, "height": 540, "fps": 25, "url": "https://videos.pexels.com/..." }
+ *       ],
+ *       "selected": { "quality": "hd", "label": "1080p", "type": "video/mp4", "width": 1920, "height": 1080, "fps": 25, "url": "https://videos.pexels.com/..." }
+ *     }
  *   ]
  * }
  */
-router.get('/popular', authMiddleware, getPopularMovies);
+router.get('/popular', authMiddleware, requireScope('pexels:read'), getPopularMovies);
 
 /**
  * @route GET /pexels/search?query=keyword&per_page=10&page=1
@@ -37,38 +58,52 @@ router.get('/popular', authMiddleware, getPopularMovies);
  * @param {string} [orientation=landscape] - Video orientation (optional).
  * @param {string} [size=small] - Video size (optional).
  * @param {string} [locale=es-ES] - Locale for results (optional).
- * @returns {Array<Object>} List of videos matching the query.
+ * @param {boolean} [watched] - Only keep videos the user watched (`true`) or hide them (`false`).
+ * @param {string} [quality=auto] - Preferred quality of each video's `selected` source (`hd`, `sd`, `auto`).
+ * @param {number} [maxWidth] - Widest source acceptable for `selected`.
+ * @param {boolean} [raw=false] - Return the Pexels payload instead of the normalized format.
+ * @returns {Object} Page of normalized videos matching the query (same format as `/pexels/popular`).
  * @example
  * GET /pexels/search  (returns 10 videos of "movies")
  * GET /pexels/search?per_page=5  (returns 5 videos of "movies")
  * GET /pexels/search?query=nature&per_page=1  (returns 1 video of "nature")
  * GET /pexels/search?query=pets&per_page=3&page=2  (returns 3 videos of "pets", page 2)
+ * GET /pexels/search?query=nature&quality=sd  (selects an SD file of each video)
+ * GET /pexels/search?query=nature&raw=true  (returns the Pexels payload)
  * Response:
  * {
+ *   "page": 1,
+ *   "perPage": 10,
+ *   "totalResults": 240,
  *   "videos": [
- *     { "id": 78901, "url": "https://videos.pexels.com/...", "user": { "name": "Alex" } }
+ *     { "id": "78901", "title": "Dog running", "author": { "name": "Alex" }, "sources": [...], "selected": {...} }
  *   ]
  * }
  */
-router.get('/search', authMiddleware, getSearchedMovies);
+router.get('/search', authMiddleware, requireScope('pexels:read'), getSearchedMovies);
 
 /**
  * @route GET /pexels/searchById/:id
  * @description Retrieves details of a specific Pexels video by its ID.
  * @access Private (requires JWT authentication)
  * @param {string} id - Unique identifier of the Pexels video.
- * @returns {Object} Detailed information about the requested video.
+ * @param {string} [quality=auto] - Preferred quality of the `selected` source (`hd`, `sd`, `auto`).
+ * @param {number} [maxWidth] - Widest source acceptable for `selected`.
+ * @param {boolean} [raw=false] - Return the Pexels payload instead of the normalized format.
+ * @returns {Object} The normalized video (same format as the items of `/pexels/popular`).
  * @example
- * GET /pexels/searchById/12345
+ * GET /pexels/searchById/12345?maxWidth=1280
  * Response:
  * {
- *   "id": 12345,
- *   "width": 1920,
- *   "height": 1080,
- *   "url": "https://videos.pexels.com/...",
- *   "user": { "id": 22, "name": "John Doe" }
+ *   "id": "12345",
+ *   "title": "City lights at night",
+ *   "author": { "name": "John Doe", "url": "https://www.pexels.com/@john-doe" },
+ *   "width": 3840,
+ *   "height": 2160,
+ *   "sources": [...],
+ *   "selected": { "quality": "hd", "label": "720p", "width": 1280, "height": 720, "url": "https://videos.pexels.com/..." }
  * }
  */
-router.get('/searchById/:id', authMiddleware, getSearchedMovieById);
+router.get('/searchById/:id', authMiddleware, requireScope('pexels:read'), getSearchedMovieById);
 
 export default router;
\ No newline at end of file
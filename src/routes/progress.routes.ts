@@ -0,0 +1,66 @@
+/**
+ * @file progress.routes.ts
+ * @description Defines routes for playback progress and "continue watching".
+ */
+
+import { Router } from "express";
+import { saveProgress, getProgress, continueWatching, deleteProgress } from "../controllers/progress.controller";
+const authMiddleware = require("../middleware/auth");
+import { requireScope } from "../middleware/requireScope";
+
+const router = Router();
+
+/**
+ * @route GET /progress/continue-watching
+ * @description Retrieves the videos the user started but did not finish, most recent first.
+ * @access Private (requires JWT authentication)
+ * @param {number} [limit] - Number of videos (1-50, default 20).
+ * @example
+ * GET /progress/continue-watching?limit=10
+ * Response:
+ * [
+ *   {
+ *     "pexelsId": "3190131",
+ *     "position": 42.5,
+ *     "duration": 120,
+ *     "percent": 35,
+ *     "completed": false,
+ *     "title": "A Modern Video Camera Recorder Mounted On A Camera Stand",
+ *     "miniatureUrl": "https://...",
+ *     "updatedAt": "2024-01-15T10:30:00.000Z"
+ *   }
+ * ]
+ */
+router.get("/continue-watching", authMiddleware, requireScope("progress:read"), continueWatching);
+
+/**
+ * @route GET /progress/:pexelsId
+ * @description Retrieves the user's progress on a video.
+ * @access Private (requires JWT authentication)
+ * @param {string} pexelsId - Pexels video ID.
+ */
+router.get("/:pexelsId", authMiddleware, requireScope("progress:read"), getProgress);
+
+/**
+ * @route PUT /progress/:pexelsId
+ * @description Stores the playback position of a video; reaching the end marks it as watched.
+ * @access Private (requires JWT authentication)
+ * @param {string} pexelsId - Pexels video ID.
+ * @param {number} position - Playback position in seconds (required).
+ * @param {number} duration - Video duration in seconds (required).
+ * @param {boolean} [completed] - Marks the video as watched or not explicitly.
+ * @example
+ * PUT /progress/3190131
+ * { "position": 42.5, "duration": 120, "title": "...", "miniatureUrl": "https://..." }
+ */
+router.put("/:pexelsId", authMiddleware, requireScope("progress:write"), saveProgress);
+
+/**
+ * @route DELETE /progress/:pexelsId
+ * @description Forgets the user's progress on a video.
+ * @access Private (requires JWT authentication)
+ * @param {string} pexelsId - Pexels video ID.
+ */
+router.delete("/:pexelsId", authMiddleware, requireScope("progress:write"), deleteProgress);
+
+export default router;
@@ -12,13 +12,15 @@ import {
   deleteRating,
 } from "../controllers/rating.controller";
 const authMiddleware = require("../middleware/auth");
+import { requireVerifiedEmail } from "../middleware/verifiedEmail";
+import { requireScope } from "../middleware/requireScope";
 
 const router = Router();
 
 /**
  * @route POST /ratings
  * @description Creates a new rating or updates an existing rating for a movie.
- * @access Private (requires JWT authentication)
+ * @access Private (requires JWT authentication and, per the verification policy, a verified email)
  * @param {number} value - Rating value between 1 and 5 (required).
  * @param {string} moviePexelsId - Pexels movie ID to rate (required).
  * @returns {Object} The created or updated rating with success message.
@@ -49,7 +51,7 @@ const router = Router();
  *   }
  * }
  */
-router.post("/", authMiddleware, createOrUpdateRating);
+router.post("/", authMiddleware, requireScope("ratings:write"), requireVerifiedEmail("ratings"), createOrUpdateRating);
 
 /**
  * @route GET /ratings/movie/:moviePexelsId
@@ -72,7 +74,7 @@ router.post("/", authMiddleware, createOrUpdateRating);
  *   "userRating": 0
  * }
  */
-router.get("/movie/:moviePexelsId", authMiddleware, getAverageRatingByMovie);
+router.get("/movie/:moviePexelsId", authMiddleware, requireScope("ratings:read"), getAverageRatingByMovie);
 
 /**
  * @route GET /ratings/user/:userId
@@ -98,7 +100,7 @@ router.get("/movie/:moviePexelsId", authMiddleware, getAverageRatingByMovie);
  *   }
  * ]
  */
-router.get("/user/:userId", authMiddleware, getRatingsByUser);
+router.get("/user/:userId", authMiddleware, requireScope("ratings:read"), getRatingsByUser);
 
 /**
  * @route DELETE /ratings/:id
@@ -113,6 +115,6 @@ router.get("/user/:userId", authMiddleware, getRatingsByUser);
  *   "message": "Rating deleted successfully"
  * }
  */
-router.delete("/:id", authMiddleware, deleteRating);
+router.delete("/:id", authMiddleware, requireScope("ratings:write"), deleteRating);
 
 export default router;
\ No newline at end of file
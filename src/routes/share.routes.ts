@@ -0,0 +1,38 @@
+/**
+ * @file share.routes.ts
+ * @description Defines the public, read-only routes of shared lists.
+ */
+
+import { Router } from "express";
+import { getSharedList } from "../controllers/share.controller";
+
+const router = Router();
+
+/**
+ * @route GET /shared/:slug
+ * @description Retrieves a shared list with thumbnails and average ratings, counting a view.
+ * @access Public
+ * @param {string} slug - Share slug from the link.
+ * @example
+ * GET /shared/q3XbV0m9kQ2tY7pLrW1aZg
+ * Response:
+ * {
+ *   "name": "Documentales de naturaleza",
+ *   "owner": "Laura",
+ *   "itemCount": 1,
+ *   "views": 12,
+ *   "items": [
+ *     {
+ *       "pexelsId": "3190131",
+ *       "title": "A Modern Video Camera Recorder Mounted On A Camera Stand",
+ *       "pexelUser": "Chris Gonzalez",
+ *       "miniatureUrl": "https://...",
+ *       "averageRating": 4.5,
+ *       "totalRatings": 10
+ *     }
+ *   ]
+ * }
+ */
+router.get("/:slug", getSharedList);
+
+export default router;
@@ -0,0 +1,85 @@
+/**
+ * @file utils/accessTokens.ts
+ * @description Scopes, generation and lookup of personal access tokens used with
+ * `Authorization: Bearer` by scripts and mobile clients.
+ */
+
+import AccessToken from "../models/accessToken.model";
+import User from "../models/user.model";
+import { hashToken } from "./session";
+
+const cryptoModule = require("crypto");
+
+/**
+ * Prefix of every personal access token, used to tell them apart from JWT access tokens.
+ */
+export const ACCESS_TOKEN_PREFIX = "fu_pat_";
+
+/**
+ * Scopes that can be granted to a personal access token.
+ *
+ * @constant
+ */
+export const ACCESS_TOKEN_SCOPES = [
+  "profile:read",
+  "movies:read",
+  "movies:write",
+  "ratings:read",
+  "ratings:write",
+  "comments:read",
+  "comments:write",
+  "progress:read",
+  "progress:write",
+  "pexels:read",
+] as const;
+
+/**
+ * Scope that can be granted to a personal access token.
+ */
+export type AccessTokenScope = typeof ACCESS_TOKEN_SCOPES[number];
+
+/**
+ * `lastUsedAt` is only written when older than this, to avoid a write on every request.
+ */
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * Generates a new personal access token.
+ *
+ * @returns {{ token: string, tokenHash: string, prefix: string }} Plain token (shown once), its hash and display prefix.
+ */
+export function generateAccessToken() {
+  const token = `${ACCESS_TOKEN_PREFIX}${cryptoModule.randomBytes(32).toString("base64url")}`;
+  return {
+    token,
+    tokenHash: hashToken(token),
+    prefix: token.slice(0, ACCESS_TOKEN_PREFIX.length + 6),
+  };
+}
+
+/**
+ * Resolves a plain personal access token to its owner.
+ *
+ * @async
+ * @param {string} token - Token received in the `Authorization` header.
+ * @returns {Promise<{ accessToken: any, user: any } | null>} The active token and its user, or `null`
+ *   if the token is unknown, revoked, expired, or its user no longer exists or is pending deletion.
+ */
+export async function findActiveAccessToken(token: string) {
+  const now = new Date();
+  const accessToken = await AccessToken.findOne({
+    tokenHash: hashToken(token),
+    revokedAt: null,
+    $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }],
+  });
+  if (!accessToken) return null;
+
+  const user = await User.findById(accessToken.userId).select("email role deletedAt");
+  if (!user || user.deletedAt) return null;
+
+  if (!accessToken.lastUsedAt || now.getTime() - accessToken.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await AccessToken.updateOne({ _id: accessToken._id }, { $set: { lastUsedAt: now } });
+  }
+
+  return { accessToken, user };
+}
@@ -0,0 +1,181 @@
+/**
+ * @file utils/accountDeletion.ts
+ * @description Account deletion workflow: soft delete with a grace period, restoration,
+ * and the hard purge of the user's data once the grace period is over.
+ */
+
+import User from "../models/user.model";
+import Movie from "../models/movie.model";
+import List from "../models/list.model";
+import ListShare from "../models/listShare.model";
+import WatchProgress from "../models/watchProgress.model";
+import Comment from "../models/comment.model";
+import Rating from "../models/rating.model";
+import Session from "../models/session.model";
+import AccessToken from "../models/accessToken.model";
+import LoginThrottle from "../models/loginThrottle.model";
+import SecurityEvent from "../models/securityEvent.model";
+import { deleteUserExports } from "./dataExport";
+
+/**
+ * Deletion settings, configurable through environment variables.
+ *
+ * @property {number} graceMs - Time the user has to restore the account (`ACCOUNT_DELETION_GRACE_DAYS`, default 30; 0 purges immediately).
+ * @property {"anonymize" | "delete"} comments - What happens to the user's comments (`ACCOUNT_PURGE_COMMENTS`, default `anonymize`).
+ * @property {"anonymize" | "delete"} ratings - What happens to the user's ratings (`ACCOUNT_PURGE_RATINGS`, default `anonymize`,
+ *   which keeps movie averages unchanged).
+ * @property {number} intervalMs - How often due accounts are purged (`ACCOUNT_PURGE_INTERVAL_MINUTES`, default 60).
+ */
+const config = {
+  graceMs: Number(process.env.ACCOUNT_DELETION_GRACE_DAYS ?? 30) * 24 * 60 * 60 * 1000,
+  comments: process.env.ACCOUNT_PURGE_COMMENTS === "delete" ? "delete" : "anonymize",
+  ratings: process.env.ACCOUNT_PURGE_RATINGS === "delete" ? "delete" : "anonymize",
+  intervalMs: (Number(process.env.ACCOUNT_PURGE_INTERVAL_MINUTES) || 60) * 60 * 1000,
+};
+
+/**
+ * How long a process may hold a purge before another one can take it over.
+ */
+const PURGE_LEASE_MS = 10 * 60 * 1000;
+
+/**
+ * Purge steps, run in order. Every step is idempotent, so an interrupted purge
+ * is resumed by simply running all of them again; the user document goes last.
+ */
+const purgeSteps: { name: string; run: (user: any) => Promise<unknown> }[] = [
+  { name: "movies", run: (user) => Movie.deleteMany({ userId: user._id }) },
+  { name: "lists", run: (user) => List.deleteMany({ userId: user._id }) },
+  { name: "listShares", run: (user) => ListShare.deleteMany({ userId: user._id }) },
+  { name: "watchProgress", run: (user) => WatchProgress.deleteMany({ userId: user._id }) },
+  {
+    name: "ratings",
+    run: (user) =>
+      config.ratings === "delete"
+        ? Rating.deleteMany({ userId: user._id })
+        : Rating.updateMany({ userId: user._id }, { $set: { userId: null } }),
+  },
+  {
+    name: "comments",
+    run: (user) =>
+      config.comments === "delete"
+        ? Comment.deleteMany({ userId: user._id })
+        : Comment.updateMany({ userId: user._id }, { $set: { userId: null } }),
+  },
+  { name: "sessions", run: (user) => Session.deleteMany({ userId: user._id }) },
+  { name: "accessTokens", run: (user) => AccessToken.deleteMany({ userId: user._id }) },
+  { name: "dataExports", run: (user) => deleteUserExports(user._id) },
+  { name: "securityEvents", run: (user) => SecurityEvent.deleteMany({ userId: user._id }) },
+  { name: "loginThrottle", run: (user) => LoginThrottle.deleteOne({ key: `email:${String(user.email).toLowerCase()}` }) },
+  { name: "user", run: (user) => User.deleteOne({ _id: user._id }) },
+];
+
+/**
+ * Marks an account as deleted and schedules its purge.
+ *
+ * @async
+ * @param {any} user - User document.
+ * @returns {Promise<Date>} Date after which the account will be purged.
+ * @remarks
+ * - Revokes every session and personal access token right away.
+ * - With a grace period of 0 the account is purged immediately.
+ */
+export async function scheduleAccountDeletion(user: any): Promise<Date> {
+  const now = Date.now();
+  user.deletedAt = new Date(now);
+  user.purgeAfter = new Date(now + config.graceMs);
+  await user.save();
+
+  await Session.updateMany(
+    { userId: user._id, revokedAt: null },
+    { $set: { revokedAt: new Date(now), revokedReason: "account_deleted" } }
+  );
+  await AccessToken.updateMany({ userId: user._id, revokedAt: null }, { $set: { revokedAt: new Date(now) } });
+
+  if (config.graceMs <= 0) {
+    await purgeAccount(user);
+  }
+  return user.purgeAfter;
+}
+
+/**
+ * Cancels a scheduled deletion while the grace period is still running.
+ *
+ * @async
+ * @param {any} user - Soft-deleted user document.
+ * @returns {Promise<boolean>} `true` if the account was restored, `false` if it is not pending deletion,
+ *   the grace period is over, or the purge already started.
+ */
+export async function restoreAccount(user: any): Promise<boolean> {
+  const result = await User.updateOne(
+    { _id: user._id, deletedAt: { $ne: null }, purgeAfter: { $gt: new Date() }, purgeLockedUntil: null },
+    { $unset: { deletedAt: 1, purgeAfter: 1 } }
+  );
+  return result.modifiedCount === 1;
+}
+
+/**
+ * Purges an account and its data (saved movies, ratings, comments, sessions, tokens, exports, security events).
+ *
+ * @async
+ * @param {any} user - User document.
+ * @returns {Promise<void>} Resolves once every step has run.
+ */
+export async function purgeAccount(user: any): Promise<void> {
+  for (const step of purgeSteps) {
+    try {
+      await step.run(user);
+    } catch (error) {
+      console.error(`Error purging account ${user._id} at step "${step.name}":`, error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Purges every account whose grace period is over.
+ *
+ * @async
+ * @returns {Promise<number>} Number of accounts purged.
+ * @remarks
+ * - Each account is claimed with a lease, so several server instances can run this concurrently.
+ * - A failed purge keeps its lease until it expires and is then retried.
+ */
+export async function purgeDueAccounts(): Promise<number> {
+  let purged = 0;
+
+  for (;;) {
+    const now = new Date();
+    const user = await User.findOneAndUpdate(
+      {
+        deletedAt: { $ne: null },
+        purgeAfter: { $lte: now },
+        $or: [{ purgeLockedUntil: null }, { purgeLockedUntil: { $lte: now } }],
+      },
+      { $set: { purgeLockedUntil: new Date(now.getTime() + PURGE_LEASE_MS) } },
+      { new: true }
+    );
+    if (!user) return purged;
+
+    try {
+      await purgeAccount(user);
+      purged++;
+    } catch (error) {
+      // Logged by purgeAccount; retried once the lease expires
+    }
+  }
+}
+
+/**
+ * Starts the periodic purge of accounts whose grace period is over.
+ *
+ * @function startAccountPurgeScheduler
+ * @returns {void}
+ */
+export function startAccountPurgeScheduler() {
+  const run = () =>
+    purgeDueAccounts()
+      .then((count) => count && console.log(`Cuentas eliminadas definitivamente: ${count}`))
+      .catch((error) => console.error("Error purging deleted accounts:", error));
+
+  setInterval(run, config.intervalMs).unref();
+}
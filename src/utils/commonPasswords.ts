@@ -0,0 +1,24 @@
+/**
+ * @file utils/commonPasswords.ts
+ * @description Local list of very common passwords rejected by the password policy.
+ * Entries are lowercase and without the digits or symbols usually appended to them
+ * (the policy strips those before comparing), so `Password123!` matches `password`.
+ */
+
+export const COMMON_PASSWORDS: ReadonlySet<string> = new Set([
+  "password", "passw0rd", "p@ssword", "p@ssw0rd", "contraseña", "contrasena", "clave", "secreto",
+  "qwerty", "qwertyuiop", "asdfgh", "asdfghjkl", "zxcvbn", "zxcvbnm", "qazwsx", "azerty",
+  "abc", "abcd", "abcdef", "abcdefg", "abcdefgh", "aaaaaa", "aaaaaaaa", "abcabc",
+  "admin", "administrator", "administrador", "root", "user", "usuario", "guest", "invitado",
+  "welcome", "bienvenido", "letmein", "login", "access", "master", "default", "changeme",
+  "iloveyou", "teamo", "loveyou", "lovely", "love", "amor", "princess", "princesa",
+  "monkey", "dragon", "shadow", "sunshine", "superman", "batman", "pokemon", "starwars",
+  "football", "futbol", "baseball", "soccer", "basketball", "hockey", "golf", "tennis",
+  "michael", "jennifer", "jordan", "daniel", "andrea", "carlos", "maria", "jesus",
+  "hello", "hola", "freedom", "whatever", "trustno", "ninja", "mustang", "killer",
+  "charlie", "thomas", "hunter", "ranger", "buster", "tigger", "cookie",
+  "chocolate", "pepper", "ginger", "summer", "winter", "flower", "computer", "internet",
+  "secret", "samsung", "google", "facebook", "instagram", "netflix", "pelicula", "peliculas",
+  "movie", "movies", "cinema", "cine", "film", "filmunity", "film unity", "video",
+  "colombia", "mexico", "argentina", "espana", "barcelona", "madrid", "liverpool", "chelsea",
+]);
@@ -0,0 +1,66 @@
+import { toCsv, parseCsv } from "./csv";
+import { MOVIE_TRANSFER_COLUMNS } from "./movieTransfer";
+
+describe("toCsv / parseCsv", () => {
+  it("round-trips export rows, including quotes, separators and line breaks", () => {
+    const rows = [
+      {
+        pexelsId: "3190131",
+        title: 'Sea "waves", at dusk',
+        pexelUser: "Ana Torres",
+        miniatureUrl: "https://images.pexels.com/videos/3190131/pictures/preview-0.jpg",
+        saved: true,
+        savedAt: new Date("2026-01-02T03:04:05.000Z"),
+        rating: 4,
+        notes: "Primera línea\r\nsegunda línea",
+        tags: ["mar", "noche"],
+      },
+      { pexelsId: "4057411", saved: false, rating: 5 },
+    ];
+
+    const parsed = parseCsv(toCsv(rows, MOVIE_TRANSFER_COLUMNS));
+
+    expect(parsed).toEqual([
+      {
+        pexelsId: "3190131",
+        title: 'Sea "waves", at dusk',
+        pexelUser: "Ana Torres",
+        miniatureUrl: "https://images.pexels.com/videos/3190131/pictures/preview-0.jpg",
+        saved: "true",
+        savedAt: "2026-01-02T03:04:05.000Z",
+        rating: "4",
+        notes: "Primera línea\r\nsegunda línea",
+        tags: "mar;noche",
+      },
+      {
+        pexelsId: "4057411",
+        title: "",
+        pexelUser: "",
+        miniatureUrl: "",
+        saved: "false",
+        savedAt: "",
+        rating: "5",
+        notes: "",
+        tags: "",
+      },
+    ]);
+  });
+
+  it("guards against formula injection and restores the value on import", () => {
+    const csv = toCsv([{ title: "=HYPERLINK(\"http://evil\")" }], ["title"]);
+
+    expect(csv.split("\r\n")[1].startsWith("\"'=")).toBe(true);
+    expect(parseCsv(csv)).toEqual([{ title: "=HYPERLINK(\"http://evil\")" }]);
+  });
+
+  it("accepts a BOM, LF line endings and blank lines", () => {
+    expect(parseCsv("\uFEFFpexelsId,rating\n123,5\n\n456,\n")).toEqual([
+      { pexelsId: "123", rating: "5" },
+      { pexelsId: "456", rating: "" },
+    ]);
+  });
+
+  it("rejects an unterminated quoted field", () => {
+    expect(() => parseCsv('pexelsId,title\n123,"Sea')).toThrow("Unterminated quoted field in CSV");
+  });
+});
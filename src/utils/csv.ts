@@ -0,0 +1,102 @@
+/**
+ * @file utils/csv.ts
+ * @description Helpers to serialize records as CSV (RFC 4180) and to parse them back.
+ */
+
+/**
+ * Escapes a single CSV field, quoting it when needed.
+ *
+ * @param {unknown} value - Field value (`null`/`undefined` become empty, dates become ISO strings,
+ *   arrays are joined with `;`, ObjectIds become hex strings, other objects are serialized as JSON).
+ * @returns {string} Escaped field.
+ */
+function escapeField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+
+  let text: string;
+  if (value instanceof Date) text = value.toISOString();
+  else if (Array.isArray(value)) text = value.join(";");
+  else if (typeof value === "object" && !("_bsontype" in value)) text = JSON.stringify(value);
+  else text = String(value); // primitives and ObjectIds
+
+  // Prevent spreadsheet formula injection
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes records as CSV with a header row.
+ *
+ * @param {Record<string, unknown>[]} rows - Records to serialize.
+ * @param {string[]} columns - Columns, in order; also used as the header.
+ * @returns {string} CSV text with CRLF line endings.
+ *
+ * @example
+ * toCsv([{ title: "Sea", pexelsId: "123" }], ["title", "pexelsId"]);
+ * // "title,pexelsId\r\nSea,123\r\n"
+ */
+export function toCsv(rows: Record<string, unknown>[], columns: string[]): string {
+  const lines = [columns.map(escapeField).join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((column) => escapeField(row[column])).join(","));
+  }
+  return lines.join("\r\n") + "\r\n";
+}
+
+/**
+ * Parses CSV text (RFC 4180) into records keyed by the header row.
+ *
+ * @param {string} text - CSV text; a UTF-8 BOM and both CRLF and LF line endings are accepted.
+ * @returns {Record<string, string>[]} One record per non-empty line after the header, with trimmed
+ *   header names as keys. Missing fields are empty strings.
+ * @throws {Error} If a quoted field is not closed.
+ * @remarks
+ * - Undoes the formula injection guard of `toCsv`, so exported files import unchanged.
+ *
+ * @example
+ * parseCsv("title,pexelsId\r\nSea,123\r\n");
+ * // [{ title: "Sea", pexelsId: "123" }]
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') field += char;
+      else if (text[i + 1] === '"') field += text[++i];
+      else quoted = false;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new Error("Unterminated quoted field in CSV");
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const unescape = (value: string) => (/^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value);
+  const [header = [], ...records] = rows.filter((fields) => fields.some((value) => value !== ""));
+  const columns = header.map((name) => name.trim());
+
+  return records.map((fields) =>
+    Object.fromEntries(columns.map((column, index) => [column, unescape(fields[index] ?? "")]))
+  );
+}
@@ -0,0 +1,28 @@
+import { encodeCursor, decodeCursor } from "./cursor";
+
+const ID = "673d4b20a1b2c3d4e5f60718";
+
+describe("encodeCursor / decodeCursor", () => {
+  it("round-trips the position of each sort field", () => {
+    const createdAt = new Date("2026-03-04T05:06:07.000Z");
+
+    const byDate = decodeCursor(encodeCursor(createdAt, ID), "createdAt");
+    expect(byDate?.value).toEqual(createdAt);
+    expect(String(byDate?.id)).toBe(ID);
+
+    expect(decodeCursor(encodeCursor("Sea waves", ID), "title")?.value).toBe("Sea waves");
+    expect(decodeCursor(encodeCursor(4.5, ID), "averageRating")?.value).toBe(4.5);
+  });
+
+  it("produces URL-safe cursors", () => {
+    expect(encodeCursor("¿Qué? / ñ + ü", ID)).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it("rejects cursors that are malformed or were produced for another sort field", () => {
+    expect(decodeCursor("not a cursor", "createdAt")).toBeNull();
+    expect(decodeCursor(encodeCursor("2026-01-01", "not-an-id"), "createdAt")).toBeNull();
+    expect(decodeCursor(encodeCursor("Sea waves", ID), "createdAt")).toBeNull();
+    expect(decodeCursor(encodeCursor("Sea waves", ID), "averageRating")).toBeNull();
+    expect(decodeCursor(encodeCursor(4.5, ID), "title")).toBeNull();
+  });
+});
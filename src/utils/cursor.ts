@@ -0,0 +1,42 @@
+/**
+ * @file utils/cursor.ts
+ * @description Opaque cursors of the keyset pagination of saved movies: the value of the sort
+ * field and the `_id` of the last movie of a page.
+ */
+
+const mongoose = require("mongoose");
+
+/**
+ * Encodes the position after the last movie of a page.
+ *
+ * @param {any} value - Value of the sort field of the last movie.
+ * @param {any} id - `_id` of the last movie (tie-breaker).
+ * @returns {string} Opaque cursor for the next page.
+ */
+export function encodeCursor(value: any, id: any): string {
+  return Buffer.from(JSON.stringify([value, String(id)])).toString("base64url");
+}
+
+/**
+ * Decodes a cursor produced by `encodeCursor` for the given sort field.
+ *
+ * @param {string} cursor - Cursor from the query string.
+ * @param {string} field - Sort field the cursor was produced for.
+ * @returns {{ value: any, id: mongoose.Types.ObjectId } | null} Decoded position, or `null` if invalid.
+ */
+export function decodeCursor(cursor: string, field: string) {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(cursor, "base64url").toString());
+    if (!mongoose.isValidObjectId(id)) return null;
+
+    const decoded =
+      field === "createdAt" ? new Date(value) : field === "averageRating" ? Number(value) : value;
+    if (field === "createdAt" && Number.isNaN(decoded.getTime())) return null;
+    if (field === "averageRating" && !Number.isFinite(decoded)) return null;
+    if (field === "title" && typeof decoded !== "string") return null;
+
+    return { value: decoded, id: new mongoose.Types.ObjectId(String(id)) };
+  } catch (error) {
+    return null;
+  }
+}
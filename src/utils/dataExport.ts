@@ -0,0 +1,318 @@
+/**
+ * @file utils/dataExport.ts
+ * @description Asynchronous generation of personal data exports: builds a ZIP archive
+ * with the user's profile, saved movies, lists and their share links, watch progress, comments, ratings and security events (JSON and CSV) and
+ * emails a download link that expires after a configurable time. Archives are stored in GridFS, so
+ * they are not bound by the document size limit.
+ */
+
+import DataExport from "../models/dataExport.model";
+import User, { USER_PRIVATE_FIELDS } from "../models/user.model";
+import Movie from "../models/movie.model";
+import List from "../models/list.model";
+import ListShare from "../models/listShare.model";
+import WatchProgress from "../models/watchProgress.model";
+import Comment from "../models/comment.model";
+import Rating from "../models/rating.model";
+import SecurityEvent from "../models/securityEvent.model";
+import { hashToken } from "./session";
+import { createZip } from "./zip";
+import { toCsv } from "./csv";
+
+const cryptoModule = require("crypto");
+const mongoose = require("mongoose");
+const { Readable } = require("stream");
+const { pipeline } = require("stream/promises");
+const sendEmail = require("./sendEmail");
+
+/**
+ * Export settings, configurable through environment variables.
+ *
+ * @property {number} linkTtlMs - Validity of the download link (`DATA_EXPORT_LINK_TTL_HOURS`, default 24).
+ * @property {number} jobTtlMs - Time after which an unfinished request is dropped.
+ * @property {number} maxAttempts - Generation attempts before the export is marked as failed.
+ * @property {number} intervalMs - How often pending exports are picked up again (`DATA_EXPORT_INTERVAL_MINUTES`, default 5).
+ */
+const config = {
+  linkTtlMs: (Number(process.env.DATA_EXPORT_LINK_TTL_HOURS) || 24) * 60 * 60 * 1000,
+  jobTtlMs: 7 * 24 * 60 * 60 * 1000,
+  maxAttempts: 3,
+  intervalMs: (Number(process.env.DATA_EXPORT_INTERVAL_MINUTES) || 5) * 60 * 1000,
+};
+
+/**
+ * How long a process may hold an export before another one can take it over.
+ */
+const EXPORT_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * GridFS bucket holding the export archives.
+ */
+const ARCHIVE_BUCKET = "dataExportArchives";
+
+/**
+ * Opens the GridFS bucket of the export archives.
+ *
+ * @returns {any} `GridFSBucket` on the current connection.
+ */
+function archiveBucket() {
+  return new mongoose.mongo.GridFSBucket(mongoose.connection.db, { bucketName: ARCHIVE_BUCKET });
+}
+
+/**
+ * Stores an archive in GridFS.
+ *
+ * @async
+ * @param {any} dataExport - Export the archive belongs to.
+ * @param {Buffer} archive - ZIP archive.
+ * @param {Date} expiresAt - Date after which `purgeExpiredArchives` removes the file.
+ * @returns {Promise<any>} Id of the stored file.
+ */
+async function storeArchive(dataExport: any, archive: Buffer, expiresAt: Date) {
+  const upload = archiveBucket().openUploadStream(`${dataExport._id}.zip`, {
+    metadata: { exportId: dataExport._id, userId: dataExport.userId, expiresAt },
+  });
+  await pipeline(Readable.from([archive]), upload);
+  return upload.id;
+}
+
+/**
+ * Removes an archive from GridFS; failures are logged, the file is then purged once it expires.
+ *
+ * @async
+ * @param {any} fileId - Id of the stored file.
+ * @returns {Promise<void>}
+ */
+async function deleteArchive(fileId: any) {
+  try {
+    await archiveBucket().delete(fileId);
+  } catch (error) {
+    console.error(`Error deleting data export archive ${fileId}:`, error);
+  }
+}
+
+/**
+ * Opens the archive of a ready export for download.
+ *
+ * @param {any} dataExport - Export document with `archiveFileId`.
+ * @returns {Readable} Stream of the ZIP archive.
+ */
+export function openExportArchive(dataExport: any) {
+  return archiveBucket().openDownloadStream(dataExport.archiveFileId);
+}
+
+/**
+ * Removes the archives whose download link expired (the export documents go through a TTL index).
+ *
+ * @async
+ * @returns {Promise<number>} Number of archives removed.
+ */
+export async function purgeExpiredArchives(): Promise<number> {
+  const files = await archiveBucket().find({ "metadata.expiresAt": { $lte: new Date() } }).toArray();
+  for (const file of files) {
+    await deleteArchive(file._id);
+  }
+  return files.length;
+}
+
+/**
+ * Removes every export of a user together with the archives (used when the account is purged).
+ *
+ * @async
+ * @param {any} userId - User id.
+ * @returns {Promise<void>}
+ */
+export async function deleteUserExports(userId: any): Promise<void> {
+  const files = await archiveBucket().find({ "metadata.userId": userId }).toArray();
+  for (const file of files) {
+    await archiveBucket().delete(file._id);
+  }
+  await DataExport.deleteMany({ userId });
+}
+
+/**
+ * Creates an export request for a user, or returns the one already in progress.
+ *
+ * @async
+ * @param {string} userId - User identifier.
+ * @returns {Promise<any>} The pending or processing export document.
+ * @remarks
+ * - Generation starts in the background right away; see `processPendingExports`.
+ * - The lookup and the creation are a single upsert backed by a unique index, so concurrent
+ *   requests get the same export.
+ */
+export async function requestDataExport(userId: string) {
+  const filter = { userId, inProgress: true };
+
+  let result;
+  try {
+    result = await DataExport.findOneAndUpdate(
+      filter,
+      { $setOnInsert: { expiresAt: new Date(Date.now() + config.jobTtlMs) } },
+      { upsert: true, new: true, includeResultMetadata: true }
+    );
+  } catch (error: any) {
+    // Another request created it between the lookup and the insert
+    if (error?.code === 11000) {
+      return DataExport.findOne(filter);
+    }
+    throw error;
+  }
+
+  if (!result.lastErrorObject?.updatedExisting) {
+    processPendingExports().catch((error) => console.error("Error processing data exports:", error));
+  }
+  return result.value;
+}
+
+/**
+ * Builds the archive with every piece of data the platform holds about a user.
+ *
+ * @async
+ * @param {string} userId - User identifier.
+ * @returns {Promise<Buffer>} ZIP archive with `data.json`, `movies.csv`, `comments.csv`, `ratings.csv`
+ *   and `security-events.csv`.
+ */
+export async function buildExportArchive(userId: string): Promise<Buffer> {
+  const [profile, movies, lists, listShares, watchProgress, comments, ratings, securityEvents] = await Promise.all([
+    User.findById(userId).select(USER_PRIVATE_FIELDS).lean(),
+    Movie.find({ userId }).select("-userId -__v").sort({ createdAt: -1 }).lean(),
+    List.find({ userId }).select("-userId -__v -items.movieId").sort({ position: 1 }).lean(),
+    ListShare.find({ userId }).select("-userId -__v").sort({ createdAt: -1 }).lean(),
+    WatchProgress.find({ userId }).select("-userId -__v").sort({ updatedAt: -1 }).lean(),
+    Comment.find({ userId }).select("-userId -__v").sort({ createdAt: -1 }).lean(),
+    Rating.find({ userId }).select("-userId -__v").sort({ _id: -1 }).lean(),
+    SecurityEvent.find({ userId }).select("-userId -__v").sort({ createdAt: -1 }).lean(),
+  ]);
+
+  const data = { exportedAt: new Date(), profile, movies, lists, listShares, watchProgress, comments, ratings, securityEvents };
+
+  return createZip([
+    { name: "data.json", content: JSON.stringify(data, null, 2) },
+    { name: "movies.csv", content: toCsv(movies, ["_id", "title", "pexelUser", "pexelsId", "miniatureUrl", "notes", "tags", "createdAt"]) },
+    { name: "comments.csv", content: toCsv(comments, ["_id", "moviePexelsId", "description", "createdAt"]) },
+    { name: "ratings.csv", content: toCsv(ratings, ["_id", "moviePexelsId", "value"]) },
+    { name: "security-events.csv", content: toCsv(securityEvents, ["_id", "type", "ip", "device", "userAgent", "createdAt"]) },
+  ]);
+}
+
+/**
+ * Generates one export, stores the archive and emails the download link.
+ *
+ * @async
+ * @param {any} dataExport - Claimed export document.
+ * @returns {Promise<void>} Resolves once the export is ready or has failed.
+ */
+async function generateExport(dataExport: any) {
+  const user = await User.findById(dataExport.userId);
+  if (!user) {
+    if (dataExport.archiveFileId) await deleteArchive(dataExport.archiveFileId);
+    await DataExport.deleteOne({ _id: dataExport._id });
+    return;
+  }
+
+  try {
+    const archive = await buildExportArchive(dataExport.userId);
+    const downloadToken = cryptoModule.randomBytes(32).toString("hex");
+    const expiresAt = new Date(Date.now() + config.linkTtlMs);
+    const archiveFileId = await storeArchive(dataExport, archive, expiresAt);
+
+    // Stored while still "processing": the export only becomes ready once the link was emailed
+    await DataExport.updateOne(
+      { _id: dataExport._id },
+      {
+        $set: {
+          archiveFileId,
+          size: archive.length,
+          downloadTokenHash: hashToken(downloadToken),
+          expiresAt,
+        },
+      }
+    );
+    // The archive of a previous attempt whose email could not be sent
+    if (dataExport.archiveFileId) await deleteArchive(dataExport.archiveFileId);
+    dataExport.archiveFileId = archiveFileId;
+
+    const downloadURL = `${process.env.FRONTEND_URL}/exportar-datos?id=${dataExport._id}&token=${downloadToken}`;
+    const message = `
+      <h2>Tus datos están listos</h2>
+      <p>Preparamos una copia de tu perfil, tus películas guardadas, comentarios y calificaciones.</p>
+      <p>Haz click en el siguiente enlace para descargarla:</p>
+      <a href="${downloadURL}" target="_blank">${downloadURL}</a>
+      <p>Este enlace expirará el ${expiresAt.toISOString()}.</p>
+    `;
+
+    await sendEmail({
+      to: user.email,
+      subject: "Tu exportación de datos - Film Unity",
+      html: message,
+    });
+
+    await DataExport.updateOne(
+      { _id: dataExport._id, status: "processing" },
+      { $set: { status: "ready", completedAt: new Date() }, $unset: { inProgress: 1, lockedUntil: 1, error: 1 } }
+    );
+  } catch (error) {
+    console.error(`Error generating data export ${dataExport._id}:`, error);
+    const reason = error instanceof Error ? error.message : String(error);
+
+    // Below the attempt limit the lease is kept, so the export is retried once it expires
+    const failed = dataExport.attempts >= config.maxAttempts;
+    await DataExport.updateOne(
+      { _id: dataExport._id, status: "processing" },
+      failed
+        ? {
+            $set: { status: "failed", error: reason },
+            $unset: { inProgress: 1, lockedUntil: 1, archiveFileId: 1, downloadTokenHash: 1 },
+          }
+        : { $set: { error: reason } }
+    );
+    if (failed && dataExport.archiveFileId) await deleteArchive(dataExport.archiveFileId);
+  }
+}
+
+/**
+ * Generates every pending export (and resumes those whose lease expired).
+ *
+ * @async
+ * @returns {Promise<number>} Number of exports processed.
+ * @remarks
+ * - Each export is claimed with a lease, so several server instances can run this concurrently.
+ */
+export async function processPendingExports(): Promise<number> {
+  let processed = 0;
+
+  for (;;) {
+    const now = new Date();
+    const dataExport = await DataExport.findOneAndUpdate(
+      {
+        $or: [
+          { status: "pending" },
+          { status: "processing", lockedUntil: { $lte: now } },
+        ],
+      },
+      {
+        $set: { status: "processing", lockedUntil: new Date(now.getTime() + EXPORT_LEASE_MS) },
+        $inc: { attempts: 1 },
+      },
+      { new: true, sort: { createdAt: 1 } }
+    );
+    if (!dataExport) return processed;
+
+    await generateExport(dataExport);
+    processed++;
+  }
+}
+
+/**
+ * Starts the periodic pickup of pending or interrupted exports and the removal of expired archives.
+ *
+ * @function startDataExportScheduler
+ * @returns {void}
+ */
+export function startDataExportScheduler() {
+  setInterval(() => {
+    processPendingExports().catch((error) => console.error("Error processing data exports:", error));
+    purgeExpiredArchives().catch((error) => console.error("Error purging data export archives:", error));
+  }, config.intervalMs).unref();
+}
@@ -0,0 +1,15 @@
+import User from "../models/user.model";
+import { normalizeEmail } from "./emailAddress";
+
+describe("normalizeEmail", () => {
+  it("trims and lowercases addresses", () => {
+    expect(normalizeEmail("  Ana.Torres@Example.COM ")).toBe("ana.torres@example.com");
+  });
+
+  it("matches what the User schema stores, so lookups and the unique index agree", () => {
+    const user = new User({ email: " Ana.Torres@Example.COM", pendingEmail: "Nueva@Example.com " });
+
+    expect(user.email).toBe(normalizeEmail(" Ana.Torres@Example.COM"));
+    expect(user.pendingEmail).toBe("nueva@example.com");
+  });
+});
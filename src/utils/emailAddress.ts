@@ -0,0 +1,51 @@
+/**
+ * @file utils/emailAddress.ts
+ * @description Normalization of the email addresses that identify accounts, so lookups, the
+ * unique index and throttling keys all agree regardless of how the address was typed.
+ */
+
+import User from "../models/user.model";
+
+/**
+ * Normalizes an email address (trimmed, lower case). Accounts are stored and looked up by this value.
+ *
+ * @param {string} email - Email as typed by the user.
+ * @returns {string} The normalized email.
+ *
+ * @example
+ * normalizeEmail("  Ana.Torres@Example.com "); // "ana.torres@example.com"
+ */
+export function normalizeEmail(email: string): string {
+  return String(email).trim().toLowerCase();
+}
+
+/**
+ * Normalizes the emails of accounts created before emails were normalized on write.
+ *
+ * @async
+ * @returns {Promise<number>} Number of accounts updated.
+ * @remarks
+ * - Idempotent: only emails with upper case letters or surrounding spaces are considered.
+ * - An account whose normalized email already belongs to another account is left unchanged and
+ *   logged, so the duplicates can be merged by hand; it cannot sign in with its email meanwhile.
+ */
+export async function normalizeStoredEmails(): Promise<number> {
+  const users = await User.find({ email: /[A-Z]|^\s|\s$/ }).select("email");
+  let updated = 0;
+
+  for (const user of users) {
+    const email = normalizeEmail(user.email);
+    if (await User.exists({ _id: { $ne: user._id }, email })) {
+      console.error(`Cannot normalize the email of user ${user._id}: ${email} belongs to another account`);
+      continue;
+    }
+    try {
+      await User.updateOne({ _id: user._id }, { $set: { email } });
+      updated++;
+    } catch (error) {
+      console.error(`Cannot normalize the email of user ${user._id}:`, error);
+    }
+  }
+
+  return updated;
+}
@@ -0,0 +1,162 @@
+/**
+ * @file utils/lists.ts
+ * @description Helpers shared by the lists and movies controllers: the default "Favoritos"
+ * list (created on demand from the user's saved movies), adding and removing videos, and the
+ * migration of existing saved movies into default lists.
+ */
+
+import List from "../models/list.model";
+import Movie from "../models/movie.model";
+
+/**
+ * Name given to the default list of every user.
+ */
+export const DEFAULT_LIST_NAME = "Favoritos";
+
+/**
+ * Maximum number of lists per user, and of videos per list.
+ */
+export const MAX_LISTS_PER_USER = 100;
+export const MAX_ITEMS_PER_LIST = 1000;
+
+/**
+ * Result of adding a video to a list.
+ */
+export type AddToListResult = "added" | "exists" | "full" | "not_found";
+
+/**
+ * Returns the user's default list, creating it when missing.
+ *
+ * @async
+ * @param {any} userId - User id.
+ * @returns {Promise<any>} The default list document.
+ * @remarks
+ * - A new default list is filled with the movies the user saved before lists existed (oldest
+ *   first), so users not yet handled by `migrateMoviesToFavorites` keep their favorites.
+ * - Concurrent calls are safe: the unique index on default lists makes the loser read the
+ *   winner's list.
+ */
+export async function ensureDefaultList(userId: any): Promise<any> {
+  const existing = await List.findOne({ userId, isDefault: true });
+  if (existing) return existing;
+
+  const movies = await Movie.find({ userId }).select("pexelsId createdAt").sort({ createdAt: 1 }).lean();
+  const seen = new Set<string>();
+  const items = movies
+    .filter((movie: any) => !seen.has(movie.pexelsId) && seen.add(movie.pexelsId))
+    .slice(0, MAX_ITEMS_PER_LIST)
+    .map((movie: any) => ({ movieId: movie._id, pexelsId: movie.pexelsId, addedAt: movie.createdAt }));
+
+  // The default list goes first
+  const first = await List.findOne({ userId }).sort({ position: 1 }).select("position");
+
+  try {
+    return await List.create({
+      userId,
+      name: DEFAULT_LIST_NAME,
+      isDefault: true,
+      position: first ? first.position - 1 : 0,
+      items,
+    });
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      const created = await List.findOne({ userId, isDefault: true });
+      if (created) return created;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Appends a saved movie to a list unless it is already there or the list is full.
+ *
+ * @async
+ * @param {any} listId - List id.
+ * @param {any} movie - The user's `Movie` document for the video.
+ * @param {Date} [addedAt=new Date()] - `addedAt` stored on the new item.
+ * @returns {Promise<AddToListResult>} What happened.
+ * @remarks
+ * - The checks and the insertion are a single atomic update, so concurrent requests cannot
+ *   add the same video twice or go over `MAX_ITEMS_PER_LIST`.
+ */
+export async function addMovieToList(listId: any, movie: any, addedAt = new Date()): Promise<AddToListResult> {
+  const result = await List.updateOne(
+    {
+      _id: listId,
+      userId: movie.userId,
+      "items.pexelsId": { $ne: movie.pexelsId },
+      [`items.${MAX_ITEMS_PER_LIST - 1}`]: { $exists: false },
+    },
+    {
+      $push: { items: { movieId: movie._id, pexelsId: movie.pexelsId, addedAt } },
+      $inc: { __v: 1 },
+    }
+  );
+  if (result.modifiedCount === 1) return "added";
+
+  const list = await List.findOne({ _id: listId, userId: movie.userId }).select("items.pexelsId");
+  if (!list) return "not_found";
+  return list.items.some((item: any) => item.pexelsId === movie.pexelsId) ? "exists" : "full";
+}
+
+/**
+ * Removes a video from every list of the user (used when the saved movie is deleted).
+ *
+ * @async
+ * @param {any} userId - User id.
+ * @param {string} pexelsId - Pexels video ID.
+ * @returns {Promise<void>} Resolves once the lists are updated.
+ */
+export async function removeMovieFromLists(userId: any, pexelsId: string): Promise<void> {
+  await List.updateMany(
+    { userId, "items.pexelsId": pexelsId },
+    { $pull: { items: { pexelsId } }, $inc: { __v: 1 } }
+  );
+}
+
+/**
+ * Deletes the saved movies of the user that no list references anymore.
+ *
+ * @async
+ * @param {any} userId - User id.
+ * @param {string[]} pexelsIds - Pexels video IDs just removed from a list.
+ * @returns {Promise<number>} Number of movies deleted.
+ * @remarks
+ * - Saved movies are the videos in the user's lists, so a video added only to another list
+ *   (e.g. "Ver más tarde") does not stay in the saved movies once it leaves that list.
+ * - Does nothing until the user has a default list: the movies of users not yet handled by
+ *   `migrateMoviesToFavorites` are not referenced by any list.
+ */
+export async function deleteUnlistedMovies(userId: any, pexelsIds: string[]): Promise<number> {
+  if (pexelsIds.length === 0) return 0;
+  if (!(await List.exists({ userId, isDefault: true }))) return 0;
+
+  const listed: string[] = await List.distinct("items.pexelsId", { userId, "items.pexelsId": { $in: pexelsIds } });
+  const unlisted = pexelsIds.filter((pexelsId) => !listed.includes(pexelsId));
+  if (unlisted.length === 0) return 0;
+
+  const result = await Movie.deleteMany({ userId, pexelsId: { $in: unlisted } });
+  return result.deletedCount;
+}
+
+/**
+ * Moves the movies saved before lists existed into each user's default "Favoritos" list.
+ *
+ * @async
+ * @returns {Promise<number>} Number of default lists created.
+ * @remarks
+ * - Idempotent: users that already have a default list are skipped, so it runs on every
+ *   startup and resumes after an interruption.
+ */
+export async function migrateMoviesToFavorites(): Promise<number> {
+  const userIds = await Movie.distinct("userId");
+  let created = 0;
+
+  for (const userId of userIds) {
+    if (await List.exists({ userId, isDefault: true })) continue;
+    await ensureDefaultList(userId);
+    created++;
+  }
+
+  return created;
+}
@@ -0,0 +1,248 @@
+/**
+ * @file utils/loginThrottle.ts
+ * @description Persistent login throttling backed by the `LoginThrottle` collection.
+ * Counts failed attempts per email and per IP, applies progressive delays between
+ * attempts and locks accounts, emailing an unlock link to the owner.
+ */
+
+import { Response } from "express";
+import LoginThrottle from "../models/loginThrottle.model";
+import { hashToken } from "./session";
+import { normalizeEmail } from "./emailAddress";
+
+const cryptoModule = require("crypto");
+const sendEmail = require("./sendEmail");
+
+/**
+ * Throttling settings, configurable through environment variables.
+ *
+ * @property {number} maxEmailFailures - Failures per email before the account is locked (`LOGIN_MAX_EMAIL_FAILURES`, default 5).
+ * @property {number} maxIpFailures - Failures per IP before the IP is blocked (`LOGIN_MAX_IP_FAILURES`, default 20).
+ * @property {number} windowMs - Failures older than this are forgotten (`LOGIN_FAILURE_WINDOW_MINUTES`, default 15).
+ * @property {number} lockMs - Duration of a lock (`LOGIN_LOCK_MINUTES`, default 15).
+ * @property {number} freeAttempts - Failures allowed before delays kick in (`LOGIN_FREE_ATTEMPTS`, default 2).
+ * @property {number} baseDelayMs - First delay, doubled on every further failure (`LOGIN_DELAY_BASE_MS`, default 1000).
+ * @property {number} maxDelayMs - Upper bound of the delay (`LOGIN_DELAY_MAX_MS`, default 30000).
+ */
+const config = {
+  maxEmailFailures: Number(process.env.LOGIN_MAX_EMAIL_FAILURES) || 5,
+  maxIpFailures: Number(process.env.LOGIN_MAX_IP_FAILURES) || 20,
+  windowMs: (Number(process.env.LOGIN_FAILURE_WINDOW_MINUTES) || 15) * 60 * 1000,
+  lockMs: (Number(process.env.LOGIN_LOCK_MINUTES) || 15) * 60 * 1000,
+  freeAttempts: Number(process.env.LOGIN_FREE_ATTEMPTS) || 2,
+  baseDelayMs: Number(process.env.LOGIN_DELAY_BASE_MS) || 1000,
+  maxDelayMs: Number(process.env.LOGIN_DELAY_MAX_MS) || 30000,
+};
+
+/**
+ * Result of a throttling check.
+ *
+ * @property {boolean} allowed - Whether the attempt may proceed.
+ * @property {number} [status] - HTTP status to answer with when not allowed (423 locked, 429 too fast).
+ * @property {number} [retryAfter] - Seconds until a new attempt is accepted.
+ * @property {string} [message] - Message for the client.
+ */
+export interface ThrottleDecision {
+  allowed: boolean;
+  status?: number;
+  retryAfter?: number;
+  message?: string;
+}
+
+const emailKey = (email: string) => `email:${normalizeEmail(email)}`;
+const ipKey = (ip: string | undefined) => `ip:${ip || "unknown"}`;
+
+/**
+ * Computes the wait required after a number of consecutive failures.
+ *
+ * @param {number} failures - Failures in the current window.
+ * @returns {number} Delay in milliseconds (0 while failures are below `freeAttempts`).
+ */
+function progressiveDelay(failures: number): number {
+  if (failures <= config.freeAttempts) return 0;
+  return Math.min(config.baseDelayMs * 2 ** (failures - config.freeAttempts - 1), config.maxDelayMs);
+}
+
+/**
+ * Answers a request rejected by the login throttle.
+ *
+ * @param {Response} res - Express response object.
+ * @param {ThrottleDecision} decision - Rejected throttling decision.
+ * @returns {Response} The response with `Retry-After` header and `{ message, retryAfter }` body.
+ */
+export function sendThrottled(res: Response, decision: ThrottleDecision) {
+  res.set("Retry-After", String(decision.retryAfter));
+  return res
+    .status(decision.status || 429)
+    .json({ message: decision.message, retryAfter: decision.retryAfter });
+}
+
+/**
+ * Checks whether a login attempt for an email from an IP may proceed.
+ *
+ * @async
+ * @param {string} email - Email used in the attempt (existing or not).
+ * @param {string} [ip] - Client IP address.
+ * @returns {Promise<ThrottleDecision>} Decision for the attempt.
+ * @remarks
+ * - A locked email answers 423, a blocked IP or a pending delay answers 429.
+ */
+export async function checkLoginThrottle(email: string, ip?: string): Promise<ThrottleDecision> {
+  const now = Date.now();
+  const records = await LoginThrottle.find({
+    key: { $in: [emailKey(email), ipKey(ip)] },
+    expiresAt: { $gt: new Date(now) },
+  });
+
+  // Evaluate the email record first so a locked account always answers 423
+  records.sort((a: any, b: any) => (a.kind === "email" ? -1 : 1) - (b.kind === "email" ? -1 : 1));
+
+  for (const record of records) {
+    if (record.lockedUntil && record.lockedUntil.getTime() > now) {
+      const retryAfter = Math.ceil((record.lockedUntil.getTime() - now) / 1000);
+      return record.kind === "email"
+        ? { allowed: false, status: 423, retryAfter, message: "Cuenta bloqueada temporalmente por demasiados intentos fallidos. Revisa tu correo para desbloquearla o intenta nuevamente más tarde." }
+        : { allowed: false, status: 429, retryAfter, message: "Demasiados intentos fallidos desde esta conexión. Intenta nuevamente más tarde." };
+    }
+
+    const readyAt = record.lastFailureAt.getTime() + progressiveDelay(record.failures);
+    if (readyAt > now) {
+      return {
+        allowed: false,
+        status: 429,
+        retryAfter: Math.ceil((readyAt - now) / 1000),
+        message: "Espera unos segundos antes de volver a intentarlo.",
+      };
+    }
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Returns the lock state of an email, without considering IP or delays.
+ *
+ * @async
+ * @param {string} email - Email address.
+ * @returns {Promise<ThrottleDecision>} `{ allowed: true }` if not locked, otherwise the 423 decision.
+ */
+export async function getEmailLockState(email: string): Promise<ThrottleDecision> {
+  const now = Date.now();
+  const record = await LoginThrottle.findOne({
+    key: emailKey(email),
+    lockedUntil: { $gt: new Date(now) },
+  });
+
+  if (!record) return { allowed: true };
+
+  return {
+    allowed: false,
+    status: 423,
+    retryAfter: Math.ceil((record.lockedUntil.getTime() - now) / 1000),
+    message: "Cuenta bloqueada temporalmente por demasiados intentos fallidos. Revisa tu correo para desbloquearla o intenta nuevamente más tarde.",
+  };
+}
+
+/**
+ * Increments the failure counter of a key, locking it when the limit is reached.
+ *
+ * @async
+ * @param {string} key - Throttled key.
+ * @param {"email" | "ip"} kind - Type of key.
+ * @param {number} maxFailures - Failures that trigger a lock.
+ * @param {string} [unlockTokenHash] - Hash stored with a new lock (email keys only).
+ * @returns {Promise<boolean>} `true` if this call applied a new lock.
+ */
+async function registerFailure(key: string, kind: "email" | "ip", maxFailures: number, unlockTokenHash?: string): Promise<boolean> {
+  const now = new Date();
+
+  // The TTL monitor runs once a minute; drop an already expired record ourselves
+  await LoginThrottle.deleteOne({ key, expiresAt: { $lte: now } });
+
+  const record = await LoginThrottle.findOneAndUpdate(
+    { key },
+    {
+      $inc: { failures: 1 },
+      $set: { kind, lastFailureAt: now },
+      $max: { expiresAt: new Date(now.getTime() + config.windowMs) },
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+
+  if (record.failures < maxFailures) return false;
+
+  const lockedUntil = new Date(now.getTime() + config.lockMs);
+  const locked = await LoginThrottle.findOneAndUpdate(
+    { _id: record._id, $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }] },
+    { $set: { lockedUntil, expiresAt: lockedUntil, unlockTokenHash } },
+    { new: true }
+  );
+
+  return Boolean(locked);
+}
+
+/**
+ * Records a failed login attempt for an email and an IP.
+ *
+ * @async
+ * @param {string} email - Email used in the attempt (counted even if no account exists).
+ * @param {string} [ip] - Client IP address.
+ * @param {any} [user] - Matching user document, if any; receives the unlock email when locked.
+ * @returns {Promise<void>} Resolves once counters are updated.
+ */
+export async function recordLoginFailure(email: string, ip?: string, user?: any): Promise<void> {
+  const unlockToken = cryptoModule.randomBytes(32).toString("hex");
+
+  const emailLocked = await registerFailure(emailKey(email), "email", config.maxEmailFailures, hashToken(unlockToken));
+  await registerFailure(ipKey(ip), "ip", config.maxIpFailures);
+
+  if (emailLocked && user) {
+    const unlockURL = `${process.env.FRONTEND_URL}/desbloquear-cuenta?token=${unlockToken}`;
+    const message = `
+      <h2>Tu cuenta fue bloqueada temporalmente</h2>
+      <p>Detectamos varios intentos fallidos de inicio de sesión en tu cuenta.</p>
+      <p>Si fuiste tú, haz click en el siguiente enlace para desbloquearla:</p>
+      <a href="${unlockURL}" target="_blank">${unlockURL}</a>
+      <p>Si no fuiste tú, te recomendamos cambiar tu contraseña.</p>
+    `;
+
+    try {
+      await sendEmail({
+        to: user.email,
+        subject: "Cuenta bloqueada - Film Unity",
+        html: message,
+      });
+    } catch (error) {
+      console.error("Error sending unlock email:", error);
+    }
+  }
+}
+
+/**
+ * Clears the failure counter of an email after a successful authentication.
+ *
+ * @async
+ * @param {string} email - Email address.
+ * @returns {Promise<void>} Resolves once the record is removed.
+ * @remarks
+ * - IP counters are kept: one valid login must not hide attempts against other accounts.
+ */
+export async function clearLoginFailures(email: string): Promise<void> {
+  await LoginThrottle.deleteOne({ key: emailKey(email) });
+}
+
+/**
+ * Unlocks an account using the token sent in the lock email.
+ *
+ * @async
+ * @param {string} token - Plain unlock token.
+ * @returns {Promise<boolean>} `true` if a matching active lock was removed.
+ */
+export async function unlockWithToken(token: string): Promise<boolean> {
+  const result = await LoginThrottle.deleteOne({
+    kind: "email",
+    unlockTokenHash: hashToken(String(token)),
+    lockedUntil: { $gt: new Date() },
+  });
+  return result.deletedCount > 0;
+}
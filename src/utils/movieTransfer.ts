@@ -0,0 +1,317 @@
+/**
+ * @file utils/movieTransfer.ts
+ * @description Export of a user's saved movies and ratings as CSV or JSON rows, and import of
+ * the same rows with validation against Pexels, de-duplication and a per-row report.
+ */
+
+import Movie from "../models/movie.model";
+import Rating from "../models/rating.model";
+import { ensureDefaultList, addMovieToList } from "./lists";
+import { normalizeTags } from "./tags";
+import { resolveVideo } from "./videoCatalog";
+
+/**
+ * Columns of the CSV export, in order (the JSON export uses the same fields).
+ */
+export const MOVIE_TRANSFER_COLUMNS = ["pexelsId", "title", "pexelUser", "miniatureUrl", "saved", "savedAt", "rating", "notes", "tags"];
+
+/**
+ * Maximum number of rows accepted by a single import.
+ */
+export const MAX_IMPORT_ROWS = 500;
+
+/**
+ * Pexels lookups made in parallel while importing.
+ */
+const PEXELS_CONCURRENCY = 5;
+
+/**
+ * A video in an export: saved as a movie, rated by the user, or both.
+ *
+ * @property {string} pexelsId - Pexels video ID.
+ * @property {string} [title] - Movie title.
+ * @property {string} [pexelUser] - Pexels author name.
+ * @property {string} [miniatureUrl] - Thumbnail URL.
+ * @property {boolean} saved - Whether the video is a saved movie (`false` for rating-only rows).
+ * @property {Date} [savedAt] - Date the movie was saved.
+ * @property {number} [rating] - The user's rating (1-5).
+ * @property {string} [notes] - Private notes on the saved movie.
+ * @property {string[]} [tags] - Tags of the saved movie (`;` separated in CSV).
+ */
+export type MovieTransferRow = {
+  pexelsId: string;
+  title?: string;
+  pexelUser?: string;
+  miniatureUrl?: string;
+  saved: boolean;
+  savedAt?: Date;
+  rating?: number;
+  notes?: string;
+  tags?: string[];
+};
+
+/**
+ * Fields of a saved movie read by the export.
+ */
+interface ExportedMovie {
+  pexelsId: string;
+  title?: string;
+  pexelUser?: string;
+  miniatureUrl?: string;
+  notes?: string;
+  tags?: string[];
+  createdAt: Date;
+}
+
+/**
+ * Fields of a rating read by the export.
+ */
+interface ExportedRating {
+  moviePexelsId: string;
+  value: number;
+}
+
+/**
+ * Outcome of one imported row.
+ *
+ * @property {number} row - 1-based position of the row (after the CSV header).
+ * @property {string} [pexelsId] - Pexels video ID of the row.
+ * @property {string} status - `imported` if something was created or updated, `skipped` if it was
+ *   already there, `failed` if the row is invalid.
+ * @property {string} [movie] - `created` or `exists` for saved rows.
+ * @property {string} [rating] - `created`, `updated` or `unchanged` for rows with a rating.
+ * @property {string} [reason] - Why the row was skipped or failed.
+ */
+export interface ImportRowReport {
+  row: number;
+  pexelsId?: string;
+  status: "imported" | "skipped" | "failed";
+  movie?: "created" | "exists";
+  rating?: "created" | "updated" | "unchanged";
+  reason?: string;
+}
+
+/**
+ * Builds the export rows of a user, one per video, oldest saved first and rating-only videos last.
+ *
+ * @async
+ * @param {any} userId - User id.
+ * @returns {Promise<MovieTransferRow[]>} Rows for `toCsv` or the JSON export.
+ */
+export async function buildMovieTransferRows(userId: any): Promise<MovieTransferRow[]> {
+  const [movies, ratings]: [ExportedMovie[], ExportedRating[]] = await Promise.all([
+    Movie.find({ userId }).select("pexelsId title pexelUser miniatureUrl notes tags createdAt").sort({ createdAt: 1 }).lean(),
+    Rating.find({ userId }).select("moviePexelsId value").lean(),
+  ]);
+
+  const rows = new Map<string, MovieTransferRow>();
+  for (const movie of movies) {
+    if (rows.has(movie.pexelsId)) continue;
+    rows.set(movie.pexelsId, {
+      pexelsId: movie.pexelsId,
+      title: movie.title,
+      pexelUser: movie.pexelUser,
+      miniatureUrl: movie.miniatureUrl,
+      saved: true,
+      savedAt: movie.createdAt,
+      notes: movie.notes,
+      tags: movie.tags,
+    });
+  }
+  for (const rating of ratings) {
+    const row = rows.get(rating.moviePexelsId);
+    if (row) row.rating = rating.value;
+    else rows.set(rating.moviePexelsId, { pexelsId: rating.moviePexelsId, saved: false, rating: rating.value });
+  }
+
+  return [...rows.values()];
+}
+
+/**
+ * Validates a raw row from a CSV or JSON import.
+ *
+ * @param {Record<string, unknown>} raw - Row as parsed (strings from CSV, any JSON value otherwise).
+ * @returns {MovieTransferRow | string} The normalized row, or the reason it is invalid.
+ */
+function normalizeRow(raw: Record<string, unknown>): MovieTransferRow | string {
+  if (!raw || typeof raw !== "object") return "Fila inválida";
+
+  const pexelsId = String(raw.pexelsId ?? "").trim();
+  if (!/^\d{1,12}$/.test(pexelsId)) return "pexelsId inválido";
+
+  const text = (value: unknown) => (typeof value === "string" && value.trim() ? value.trim() : undefined);
+
+  let saved = true;
+  if (raw.saved !== undefined && raw.saved !== "") {
+    if (raw.saved === true || raw.saved === "true") saved = true;
+    else if (raw.saved === false || raw.saved === "false") saved = false;
+    else return "saved debe ser true o false";
+  }
+
+  let rating: number | undefined;
+  if (raw.rating !== undefined && raw.rating !== null && raw.rating !== "") {
+    rating = Number(raw.rating);
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) return "rating debe ser un entero entre 1 y 5";
+  }
+
+  if (!saved && rating === undefined) return "La fila no tiene película guardada ni calificación";
+
+  const notes = text(raw.notes);
+  if (notes && notes.length > 2000) return "notes puede tener máximo 2000 caracteres";
+
+  const tags = raw.tags === undefined || raw.tags === null ? [] : normalizeTags(raw.tags);
+  if (typeof tags === "string") return tags;
+
+  return {
+    pexelsId,
+    title: text(raw.title),
+    pexelUser: text(raw.pexelUser),
+    miniatureUrl: text(raw.miniatureUrl),
+    saved,
+    rating,
+    notes,
+    tags,
+  };
+}
+
+/**
+ * Looks a video up in the catalog (fetching it from Pexels if needed).
+ *
+ * @async
+ * @param {string} pexelsId - Pexels video ID.
+ * @returns {Promise<any>} The `Video` document, `null` if Pexels does not know it, or `undefined`
+ *   if Pexels could not be reached.
+ */
+async function findCatalogVideo(pexelsId: string): Promise<any> {
+  try {
+    return await resolveVideo(pexelsId);
+  } catch (error) {
+    console.error(`Error looking up Pexels video ${pexelsId}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Imports rows into the user's saved movies (and default list) and ratings.
+ *
+ * @async
+ * @param {any} userId - User id.
+ * @param {Record<string, unknown>[]} rawRows - Rows in the export format (at most `MAX_IMPORT_ROWS`).
+ * @param {boolean} [allowRatings=true] - Whether the user may rate (see `requireVerifiedEmail("ratings")`);
+ *   when not, ratings in the file are not imported and rows with nothing else to import fail.
+ * @returns {Promise<ImportRowReport[]>} One report per row, in order.
+ * @remarks
+ * - Videos that would become new movies, or that the user never rated, are checked against the
+ *   `Video` catalog first; new movies take title, author and thumbnail from the catalog (those in
+ *   the file are ignored) and new records are linked to it.
+ * - Movies already saved and repeated rows are skipped (their notes and tags are kept); existing
+ *   ratings are updated.
+ */
+export async function importMovieRows(
+  userId: any,
+  rawRows: Record<string, unknown>[],
+  allowRatings = true
+): Promise<ImportRowReport[]> {
+  const reports: ImportRowReport[] = [];
+  const valid: { report: ImportRowReport; row: MovieTransferRow }[] = [];
+  const seen = new Set<string>();
+
+  rawRows.forEach((raw, index) => {
+    const row = normalizeRow(raw);
+    const report: ImportRowReport = { row: index + 1, status: "failed" };
+    reports.push(report);
+
+    if (typeof row === "string") {
+      report.reason = row;
+      return;
+    }
+    report.pexelsId = row.pexelsId;
+    if (seen.has(row.pexelsId)) {
+      report.status = "skipped";
+      report.reason = "Video repetido en el archivo";
+      return;
+    }
+    seen.add(row.pexelsId);
+    valid.push({ report, row });
+  });
+
+  const pexelsIds = valid.map(({ row }) => row.pexelsId);
+  const [movies, ratings]: [ExportedMovie[], ExportedRating[]] = await Promise.all([
+    Movie.find({ userId, pexelsId: { $in: pexelsIds } }).select("pexelsId").lean(),
+    Rating.find({ userId, moviePexelsId: { $in: pexelsIds } }).select("moviePexelsId value").lean(),
+  ]);
+  const savedIds = new Set(movies.map((movie: any) => movie.pexelsId));
+  const ratingsById = new Map(ratings.map((rating: any) => [rating.moviePexelsId, rating]));
+
+  // Only videos that would become new movies, or that the user never rated, are checked against Pexels
+  const pexelsVideos = new Map<string, any>();
+  const unknown = valid
+    .filter(({ row }) => !savedIds.has(row.pexelsId) && (row.saved || !ratingsById.has(row.pexelsId)))
+    .map(({ row }) => row.pexelsId);
+  for (let i = 0; i < unknown.length; i += PEXELS_CONCURRENCY) {
+    const batch = unknown.slice(i, i + PEXELS_CONCURRENCY);
+    const videos = await Promise.all(batch.map(findCatalogVideo));
+    batch.forEach((id, index) => pexelsVideos.set(id, videos[index]));
+  }
+
+  let favorites: any = null;
+
+  for (const { report, row } of valid) {
+    const video = pexelsVideos.get(row.pexelsId);
+    if (video === null) {
+      report.reason = "El video no existe en Pexels";
+      continue;
+    }
+    if (pexelsVideos.has(row.pexelsId) && video === undefined) {
+      report.reason = "No se pudo verificar el video en Pexels, vuelve a intentarlo";
+      continue;
+    }
+
+    if (row.saved) {
+      if (savedIds.has(row.pexelsId)) {
+        report.movie = "exists";
+      } else {
+        const movie = await Movie.create({
+          userId,
+          pexelsId: row.pexelsId,
+          title: video.title,
+          pexelUser: video.pexelUser,
+          miniatureUrl: video.miniatureUrl,
+          videoId: video._id,
+          notes: row.notes,
+          tags: row.tags,
+        });
+        favorites = favorites || (await ensureDefaultList(userId));
+        await addMovieToList(favorites._id, movie);
+        savedIds.add(row.pexelsId);
+        report.movie = "created";
+      }
+    }
+
+    if (row.rating !== undefined && !allowRatings) {
+      report.reason = "Verifica tu email para importar calificaciones";
+    } else if (row.rating !== undefined) {
+      const existing: any = ratingsById.get(row.pexelsId);
+      if (!existing) {
+        await Rating.create({ userId, moviePexelsId: row.pexelsId, videoId: video?._id, value: row.rating });
+        report.rating = "created";
+      } else if (existing.value === row.rating) {
+        report.rating = "unchanged";
+      } else {
+        await Rating.updateOne({ _id: existing._id }, { $set: { value: row.rating } });
+        report.rating = "updated";
+      }
+    }
+
+    if (report.movie === "created" || report.rating === "created" || report.rating === "updated") {
+      report.status = "imported";
+    } else if (report.reason) {
+      report.status = "failed";
+    } else {
+      report.status = "skipped";
+      report.reason = "Ya estaba en tu cuenta";
+    }
+  }
+
+  return reports;
+}
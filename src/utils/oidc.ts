@@ -0,0 +1,296 @@
+/**
+ * @file utils/oidc.ts
+ * @description Generic OpenID Connect client: provider configuration from environment
+ * variables, discovery, authorization-code requests with PKCE, code exchange and
+ * ID token verification against the provider's JWKS.
+ */
+
+const jwt = require("jsonwebtoken");
+const cryptoModule = require("crypto");
+
+/**
+ * Settings of an identity provider.
+ *
+ * Providers are listed in `OIDC_PROVIDERS` (comma separated ids, e.g. `google,local`) and each one
+ * is configured with `OIDC_<ID>_ISSUER`, `OIDC_<ID>_CLIENT_ID`, `OIDC_<ID>_CLIENT_SECRET` (optional
+ * for public clients), `OIDC_<ID>_SCOPES` (default `openid email profile`) and `OIDC_<ID>_NAME`.
+ *
+ * @property {string} id - Provider identifier used in the URLs.
+ * @property {string} name - Label shown to users.
+ * @property {string} issuer - Issuer URL; metadata is read from `<issuer>/.well-known/openid-configuration`.
+ * @property {string} clientId - OAuth client identifier.
+ * @property {string} [clientSecret] - OAuth client secret (sent as `client_secret_post`).
+ * @property {string} scopes - Requested scopes.
+ */
+export interface OidcProvider {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string;
+}
+
+/**
+ * Verified identity returned by a provider.
+ *
+ * @property {string} subject - Stable user identifier at the provider (`sub` claim).
+ * @property {string} [email] - Email address.
+ * @property {boolean} emailVerified - Whether the provider verified the email.
+ * @property {string} [firstName] - Given name.
+ * @property {string} [lastName] - Family name.
+ */
+export interface OidcIdentity {
+  subject: string;
+  email?: string;
+  emailVerified: boolean;
+  firstName?: string;
+  lastName?: string;
+}
+
+/**
+ * Parameters of an authorization request that must be kept until the callback.
+ */
+export interface OidcAuthorizationRequest {
+  url: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+/**
+ * How long discovery documents and signing keys are cached.
+ */
+const METADATA_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Timeout of every request made to a provider.
+ */
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+const providers: OidcProvider[] = (process.env.OIDC_PROVIDERS || "")
+  .split(",")
+  .map((id) => id.trim().toLowerCase())
+  .filter(Boolean)
+  .map((id) => {
+    const prefix = `OIDC_${id.toUpperCase().replace(/[^A-Z0-9]/g, "_")}_`;
+    return {
+      id,
+      name: process.env[`${prefix}NAME`] || id,
+      issuer: (process.env[`${prefix}ISSUER`] || "").replace(/\/+$/, ""),
+      clientId: process.env[`${prefix}CLIENT_ID`] || "",
+      clientSecret: process.env[`${prefix}CLIENT_SECRET`] || undefined,
+      scopes: process.env[`${prefix}SCOPES`] || "openid email profile",
+    };
+  })
+  .filter((provider) => {
+    if (provider.issuer && provider.clientId) return true;
+    console.error(`OIDC provider "${provider.id}" ignored: issuer and client id are required`);
+    return false;
+  });
+
+const metadataCache = new Map<string, { value: any; expiresAt: number }>();
+const keysCache = new Map<string, { keys: any[]; expiresAt: number }>();
+
+/**
+ * Lists the configured identity providers.
+ *
+ * @returns {OidcProvider[]} Providers with a valid configuration.
+ */
+export function listOidcProviders(): OidcProvider[] {
+  return providers;
+}
+
+/**
+ * Finds a configured identity provider.
+ *
+ * @param {string} id - Provider identifier.
+ * @returns {OidcProvider | undefined} The provider, if configured.
+ */
+export function getOidcProvider(id: string): OidcProvider | undefined {
+  return providers.find((provider) => provider.id === String(id).toLowerCase());
+}
+
+/**
+ * Fetches a JSON document from a provider.
+ *
+ * @async
+ * @param {string} url - Document URL.
+ * @param {RequestInit} [init] - Fetch options.
+ * @returns {Promise<any>} Parsed body.
+ * @throws {Error} On network errors, timeouts, or non-2xx responses.
+ */
+async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(`OIDC request to ${url} failed with status ${response.status}: ${JSON.stringify(body)}`);
+  }
+  return body;
+}
+
+/**
+ * Reads (and caches) the discovery document of a provider.
+ *
+ * @async
+ * @param {OidcProvider} provider - Identity provider.
+ * @returns {Promise<any>} OpenID provider metadata.
+ * @throws {Error} When the document's `issuer` differs from the configured one (trailing slashes
+ *   are ignored; ID tokens are then checked against the document's exact value).
+ */
+async function getMetadata(provider: OidcProvider): Promise<any> {
+  const cached = metadataCache.get(provider.id);
+  if (cached && cached.expiresAt > Date.now()) return cached.value;
+
+  const value = await fetchJson(`${provider.issuer}/.well-known/openid-configuration`);
+  // Some providers (e.g. Auth0) publish their issuer with a trailing slash
+  if (typeof value.issuer !== "string" || value.issuer.replace(/\/+$/, "") !== provider.issuer) {
+    throw new Error(`OIDC issuer mismatch for "${provider.id}": expected ${provider.issuer}, got ${value.issuer}`);
+  }
+
+  metadataCache.set(provider.id, { value, expiresAt: Date.now() + METADATA_TTL_MS });
+  return value;
+}
+
+/**
+ * Returns the public key a provider used to sign a token.
+ *
+ * @async
+ * @param {OidcProvider} provider - Identity provider.
+ * @param {string} [kid] - Key identifier from the token header.
+ * @returns {Promise<any>} Node.js `KeyObject`.
+ * @remarks
+ * - The key set is cached; an unknown `kid` forces a refresh (key rotation).
+ */
+async function getSigningKey(provider: OidcProvider, kid?: string): Promise<any> {
+  const findKey = (keys: any[]) =>
+    keys.find((key) => (kid ? key.kid === kid : true) && (!key.use || key.use === "sig"));
+
+  const cached = keysCache.get(provider.id);
+  let jwk = cached && cached.expiresAt > Date.now() ? findKey(cached.keys) : undefined;
+
+  if (!jwk) {
+    const metadata = await getMetadata(provider);
+    const { keys } = await fetchJson(metadata.jwks_uri);
+    keysCache.set(provider.id, { keys, expiresAt: Date.now() + METADATA_TTL_MS });
+    jwk = findKey(keys);
+  }
+
+  if (!jwk) {
+    throw new Error(`OIDC signing key not found for "${provider.id}"`);
+  }
+  return cryptoModule.createPublicKey({ key: jwk, format: "jwk" });
+}
+
+/**
+ * Encodes bytes as base64url without padding.
+ *
+ * @param {Buffer} buffer - Bytes to encode.
+ * @returns {string} Base64url string.
+ */
+function base64Url(buffer: Buffer): string {
+  return buffer.toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Builds the authorization URL of a provider with fresh `state`, `nonce` and PKCE verifier.
+ *
+ * @async
+ * @param {OidcProvider} provider - Identity provider.
+ * @param {string} redirectUri - Callback URL registered at the provider.
+ * @returns {Promise<OidcAuthorizationRequest>} URL to redirect the browser to, and the values to
+ *   keep until the callback.
+ */
+export async function createAuthorizationRequest(provider: OidcProvider, redirectUri: string): Promise<OidcAuthorizationRequest> {
+  const metadata = await getMetadata(provider);
+
+  const state = base64Url(cryptoModule.randomBytes(32));
+  const nonce = base64Url(cryptoModule.randomBytes(32));
+  const codeVerifier = base64Url(cryptoModule.randomBytes(48));
+  const codeChallenge = base64Url(cryptoModule.createHash("sha256").update(codeVerifier).digest());
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: provider.clientId,
+    redirect_uri: redirectUri,
+    scope: provider.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256",
+  }).toString();
+
+  return { url: url.toString(), state, nonce, codeVerifier };
+}
+
+/**
+ * Exchanges an authorization code for tokens and returns the verified identity.
+ *
+ * @async
+ * @param {OidcProvider} provider - Identity provider.
+ * @param {string} code - Authorization code from the callback.
+ * @param {string} codeVerifier - PKCE verifier of the authorization request.
+ * @param {string} nonce - Nonce of the authorization request.
+ * @param {string} redirectUri - Same callback URL used in the authorization request.
+ * @returns {Promise<OidcIdentity>} Identity from the ID token (completed with the userinfo endpoint
+ *   when the token has no email).
+ * @throws {Error} If the exchange fails or the ID token is invalid (signature, issuer, audience,
+ *   expiration or nonce).
+ */
+export async function exchangeAuthorizationCode(
+  provider: OidcProvider,
+  code: string,
+  codeVerifier: string,
+  nonce: string,
+  redirectUri: string
+): Promise<OidcIdentity> {
+  const metadata = await getMetadata(provider);
+
+  const params = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: redirectUri,
+    client_id: provider.clientId,
+    code_verifier: codeVerifier,
+  });
+  if (provider.clientSecret) params.set("client_secret", provider.clientSecret);
+
+  const tokens = await fetchJson(metadata.token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+    body: params.toString(),
+  });
+  if (!tokens.id_token) {
+    throw new Error(`OIDC provider "${provider.id}" did not return an ID token`);
+  }
+
+  const header = jwt.decode(tokens.id_token, { complete: true })?.header;
+  const key = await getSigningKey(provider, header?.kid);
+  const claims = jwt.verify(tokens.id_token, key, {
+    algorithms: ["RS256", "RS384", "RS512", "PS256", "ES256", "ES384"],
+    issuer: metadata.issuer,
+    audience: provider.clientId,
+  });
+
+  if (claims.nonce !== nonce) {
+    throw new Error(`OIDC nonce mismatch for "${provider.id}"`);
+  }
+
+  let profile = claims;
+  if (!claims.email && metadata.userinfo_endpoint && tokens.access_token) {
+    const userInfo = await fetchJson(metadata.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}`, Accept: "application/json" },
+    });
+    if (userInfo.sub === claims.sub) profile = { ...userInfo, ...claims };
+  }
+
+  const [firstName, ...rest] = String(profile.name || "").trim().split(/\s+/);
+  return {
+    subject: String(claims.sub),
+    email: profile.email ? String(profile.email) : undefined,
+    emailVerified: profile.email_verified === true || profile.email_verified === "true",
+    firstName: profile.given_name || firstName || undefined,
+    lastName: profile.family_name || rest.join(" ") || undefined,
+  };
+}
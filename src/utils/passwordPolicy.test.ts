@@ -0,0 +1,14 @@
+import { validatePassword } from "./passwordPolicy";
+
+describe("validatePassword", () => {
+  it("accepts a password of exactly 72 bytes", () => {
+    expect(validatePassword(`Aa!${"x".repeat(69)}`)).toEqual([]);
+  });
+
+  it("counts the maximum length in bytes and says so", () => {
+    // 40 characters, but "ñ" takes two bytes in UTF-8
+    const errors = validatePassword(`Aa!${"ñ".repeat(37)}`);
+
+    expect(errors).toEqual([expect.stringContaining("72 bytes")]);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * @file utils/passwordPolicy.ts
+ * @description Single password policy used by registration, password reset, password change
+ * and the User model: length and character class rules, personal information and
+ * common password checks, and reuse prevention against the user's recent passwords.
+ */
+
+import { COMMON_PASSWORDS } from "./commonPasswords";
+
+const bcrypt = require("bcrypt");
+
+/**
+ * Character classes a password can be required to contain.
+ */
+export type PasswordCharacterClass = "lowercase" | "uppercase" | "digit" | "symbol";
+
+const CHARACTER_CLASSES: Record<PasswordCharacterClass, { pattern: RegExp; label: string }> = {
+  lowercase: { pattern: /\p{Ll}/u, label: "una letra minúscula" },
+  uppercase: { pattern: /\p{Lu}/u, label: "una letra mayúscula" },
+  digit: { pattern: /\d/, label: "un número" },
+  symbol: { pattern: /[^\p{L}\p{N}]/u, label: "un caracter especial" },
+};
+
+/**
+ * Policy settings, configurable through environment variables.
+ *
+ * @property {number} minLength - Minimum length (`PASSWORD_MIN_LENGTH`, default 8).
+ * @property {number} maxLength - Maximum length in bytes (`PASSWORD_MAX_LENGTH`, default 72,
+ *   bcrypt ignores anything beyond it).
+ * @property {PasswordCharacterClass[]} requiredClasses - Classes that must appear (`PASSWORD_REQUIRED_CLASSES`,
+ *   comma separated, default `lowercase,uppercase,symbol`; `none` disables the rule).
+ * @property {number} historySize - Previous passwords that cannot be reused (`PASSWORD_HISTORY_SIZE`, default 5;
+ *   0 only forbids the current one).
+ */
+const config = {
+  minLength: Number(process.env.PASSWORD_MIN_LENGTH) || 8,
+  maxLength: Math.min(Number(process.env.PASSWORD_MAX_LENGTH) || 72, 72),
+  requiredClasses: (process.env.PASSWORD_REQUIRED_CLASSES ?? "lowercase,uppercase,symbol")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter((name): name is PasswordCharacterClass => Object.prototype.hasOwnProperty.call(CHARACTER_CLASSES, name)),
+  historySize: Math.max(Number(process.env.PASSWORD_HISTORY_SIZE ?? 5) || 0, 0),
+};
+
+/**
+ * Personal information a password must not contain.
+ *
+ * @property {string} [firstName] - First name.
+ * @property {string} [lastName] - Last name.
+ * @property {string} [email] - Email address (the whole address and its local part are checked).
+ */
+export interface PasswordOwner {
+  firstName?: string;
+  lastName?: string;
+  email?: string;
+}
+
+/**
+ * Reduces a password to the word it is usually built from: lowercase, without
+ * leading or trailing digits and symbols.
+ *
+ * @param {string} password - Plain password.
+ * @returns {string} Normalized password.
+ */
+function basePassword(password: string): string {
+  return password.toLowerCase().replace(/^[^\p{L}]+|[^\p{L}]+$/gu, "");
+}
+
+/**
+ * Checks a password against the length, character class, personal information
+ * and common password rules.
+ *
+ * @param {string} password - Plain password.
+ * @param {PasswordOwner} [owner] - Owner of the password, for the personal information check.
+ * @returns {string[]} Broken rules as messages for the client (empty when the password is valid).
+ */
+export function validatePassword(password: string, owner: PasswordOwner = {}): string[] {
+  if (typeof password !== "string" || !password) {
+    return ["La contraseña es requerida"];
+  }
+
+  const errors: string[] = [];
+
+  if (password.length < config.minLength) {
+    errors.push(`La contraseña debe tener al menos ${config.minLength} caracteres`);
+  }
+  // bcrypt limits bytes, not characters: accented letters and emojis take two to four bytes each
+  if (Buffer.byteLength(password) > config.maxLength) {
+    errors.push(`La contraseña no puede superar los ${config.maxLength} bytes (las letras acentuadas y los emojis ocupan más de uno)`);
+  }
+
+  const missing = config.requiredClasses.filter((name) => !CHARACTER_CLASSES[name].pattern.test(password));
+  if (missing.length) {
+    errors.push(`La contraseña debe incluir al menos ${missing.map((name) => CHARACTER_CLASSES[name].label).join(", ")}`);
+  }
+
+  const lower = password.toLowerCase();
+  const email = String(owner.email || "").toLowerCase();
+  const personal = [owner.firstName, owner.lastName, email, email.split("@")[0]]
+    .map((value) => String(value || "").trim().toLowerCase())
+    .filter((value) => value.length >= 3);
+  if (personal.some((value) => lower.includes(value))) {
+    errors.push("La contraseña no puede contener tu nombre ni tu correo electrónico");
+  }
+
+  if (COMMON_PASSWORDS.has(lower) || COMMON_PASSWORDS.has(basePassword(password))) {
+    errors.push("La contraseña es demasiado común, elige una más difícil de adivinar");
+  }
+
+  return errors;
+}
+
+/**
+ * Checks a plain password against the user's stored hash.
+ *
+ * @async
+ * @param {string} password - Plain password.
+ * @param {any} user - User document.
+ * @returns {Promise<boolean>} `true` if it matches; always `false` for accounts without a password
+ *   (created through an identity provider).
+ */
+export async function verifyPassword(password: string, user: any): Promise<boolean> {
+  if (!user?.password || typeof password !== "string") return false;
+  return bcrypt.compare(password, user.password);
+}
+
+/**
+ * Tells whether a password matches the user's current password or one of the
+ * last `PASSWORD_HISTORY_SIZE` ones.
+ *
+ * @async
+ * @param {string} password - Plain password.
+ * @param {any} user - User document.
+ * @returns {Promise<boolean>} `true` if the password was used recently.
+ */
+export async function isPasswordReused(password: string, user: any): Promise<boolean> {
+  const hashes = [user.password, ...(user.passwordHistory || []).slice(0, config.historySize)].filter(Boolean);
+  for (const hash of hashes) {
+    if (await bcrypt.compare(password, hash)) return true;
+  }
+  return false;
+}
+
+/**
+ * Runs every rule of the policy, including reuse prevention when the user already exists.
+ *
+ * @async
+ * @param {string} password - Plain password.
+ * @param {any} user - Existing user document, or the personal data of a user being registered.
+ * @returns {Promise<string[]>} Broken rules as messages for the client (empty when the password is valid).
+ *
+ * @example
+ * const errors = await checkPassword(newPassword, user);
+ * if (errors.length) return res.status(400).json({ message: errors[0], errors });
+ */
+export async function checkPassword(password: string, user: any): Promise<string[]> {
+  const errors = validatePassword(password, user);
+  if (!errors.length && user.password && (await isPasswordReused(password, user))) {
+    errors.push("No puedes reutilizar una de tus últimas contraseñas");
+  }
+  return errors;
+}
+
+/**
+ * Hashes a new password into the user document, moving the current hash to the history.
+ *
+ * @async
+ * @param {any} user - User document (not saved by this function).
+ * @param {string} password - Plain password, already checked with `checkPassword`.
+ * @returns {Promise<void>} Resolves once the document is updated.
+ */
+export async function setUserPassword(user: any, password: string): Promise<void> {
+  if (user.password) {
+    user.passwordHistory = [user.password, ...(user.passwordHistory || [])].slice(0, config.historySize);
+  }
+  user.password = await bcrypt.hash(password, 10);
+}
+
+/**
+ * Tells whether a stored value is a bcrypt hash, so the model never persists a plain password.
+ *
+ * @param {string} value - Value of the `password` field.
+ * @returns {boolean} `true` for bcrypt hashes.
+ */
+export function isPasswordHash(value: string): boolean {
+  return /^\$2[aby]\$\d{2}\$[./A-Za-z0-9]{53}$/.test(value);
+}
@@ -0,0 +1,297 @@
+/**
+ * @file utils/pexelsCache.ts
+ * @description Cache for Pexels API responses with pluggable backends (in-memory LRU or a
+ * MongoDB TTL collection), per-endpoint TTLs, coalescing of concurrent identical requests,
+ * serving stale responses when Pexels fails, and `Cache-Control` / `ETag` response headers.
+ */
+
+import { Request, Response } from "express";
+import PexelsCache from "../models/pexelsCache.model";
+import { VideoProviderError } from "../providers/videoProvider";
+
+const cryptoModule = require("crypto");
+
+/**
+ * Cached endpoints, each with its own freshness.
+ */
+export type PexelsCacheEndpoint = "popular" | "search" | "video";
+
+/**
+ * A cached response.
+ *
+ * @property {any} value - Response body returned by Pexels.
+ * @property {string} etag - Weak ETag of the body.
+ * @property {Date} storedAt - Date it was fetched.
+ * @property {Date} freshUntil - Until when it is served without asking Pexels again.
+ * @property {Date} expiresAt - Until when it may be served if Pexels fails.
+ */
+export interface CacheEntry {
+  value: any;
+  etag: string;
+  storedAt: Date;
+  freshUntil: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Storage of cached responses. Implementations must not throw on a missing key.
+ */
+export interface CacheBackend {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+}
+
+/**
+ * Result of a cached call.
+ *
+ * @property {any} value - Response body.
+ * @property {string} etag - ETag of the body.
+ * @property {"hit" | "miss" | "stale"} status - Served from cache, fetched now, or served from an
+ *   expired entry because Pexels failed.
+ * @property {number} maxAge - Seconds the response may still be considered fresh.
+ */
+export interface CachedResult {
+  value: any;
+  etag: string;
+  status: "hit" | "miss" | "stale";
+  maxAge: number;
+}
+
+/**
+ * Cache settings, configurable through environment variables.
+ *
+ * @property {string} backend - `memory` (default), `mongo` (shared by every instance) or `none`
+ *   (`PEXELS_CACHE_BACKEND`).
+ * @property {number} maxEntries - Capacity of the in-memory LRU (`PEXELS_CACHE_MAX_ENTRIES`, default 500).
+ * @property {Record<PexelsCacheEndpoint, number>} ttlMs - Freshness per endpoint
+ *   (`PEXELS_CACHE_TTL_POPULAR_SECONDS` default 600, `PEXELS_CACHE_TTL_SEARCH_SECONDS` default 300,
+ *   `PEXELS_CACHE_TTL_VIDEO_SECONDS` default 3600).
+ * @property {number} staleMs - How long an expired response may still be served while Pexels
+ *   fails (`PEXELS_CACHE_STALE_SECONDS`, default 86400).
+ */
+const config = {
+  backend: (process.env.PEXELS_CACHE_BACKEND || "memory").toLowerCase(),
+  maxEntries: Number(process.env.PEXELS_CACHE_MAX_ENTRIES) || 500,
+  ttlMs: {
+    popular: (Number(process.env.PEXELS_CACHE_TTL_POPULAR_SECONDS) || 600) * 1000,
+    search: (Number(process.env.PEXELS_CACHE_TTL_SEARCH_SECONDS) || 300) * 1000,
+    video: (Number(process.env.PEXELS_CACHE_TTL_VIDEO_SECONDS) || 3600) * 1000,
+  } as Record<PexelsCacheEndpoint, number>,
+  staleMs: Number(process.env.PEXELS_CACHE_STALE_SECONDS ?? 86400) * 1000,
+};
+
+/**
+ * In-memory LRU backend, local to the process.
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries: number) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt.getTime() <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Move to the most recently used position
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+}
+
+/**
+ * MongoDB backend on the `PexelsCache` collection, shared by every server instance.
+ */
+export class MongoCacheBackend implements CacheBackend {
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = await PexelsCache.findOne({ key, expiresAt: { $gt: new Date() } }).lean();
+    return entry || undefined;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    await PexelsCache.updateOne({ key }, { $set: { key, ...entry } }, { upsert: true });
+  }
+}
+
+/**
+ * Creates the backend selected by `PEXELS_CACHE_BACKEND`.
+ *
+ * @returns {CacheBackend | null} The backend, or `null` when caching is disabled.
+ */
+function createBackend(): CacheBackend | null {
+  if (config.backend === "none") return null;
+  if (config.backend === "mongo") return new MongoCacheBackend();
+  if (config.backend !== "memory") {
+    console.error(`Unknown PEXELS_CACHE_BACKEND "${config.backend}", using memory`);
+  }
+  return new MemoryCacheBackend(config.maxEntries);
+}
+
+let backend = createBackend();
+
+/**
+ * Requests to Pexels in progress, so concurrent identical requests share one upstream call.
+ */
+const inFlight = new Map<string, Promise<CacheEntry>>();
+
+/**
+ * Replaces the cache backend (e.g. to plug another store).
+ *
+ * @param {CacheBackend | null} newBackend - Backend to use, or `null` to disable caching.
+ */
+export function setCacheBackend(newBackend: CacheBackend | null) {
+  backend = newBackend;
+}
+
+/**
+ * Computes a weak ETag for a response body.
+ *
+ * @param {any} value - Body to send.
+ * @returns {string} `W/"<sha1>"`.
+ */
+export function computeEtag(value: any): string {
+  return `W/"${cryptoModule.createHash("sha1").update(JSON.stringify(value)).digest("base64url")}"`;
+}
+
+/**
+ * Builds the cache key of a request.
+ *
+ * @param {PexelsCacheEndpoint} endpoint - Cached endpoint.
+ * @param {Record<string, unknown>} params - Request parameters (order does not matter).
+ * @returns {string} Key, e.g. `search:{"page":1,"query":"sea"}`.
+ */
+function cacheKey(endpoint: PexelsCacheEndpoint, params: Record<string, unknown>): string {
+  const sorted = Object.fromEntries(Object.keys(params).sort().map((name) => [name, params[name]]));
+  return `${endpoint}:${JSON.stringify(sorted)}`;
+}
+
+/**
+ * Reads from the backend, treating backend errors as misses so the cache never breaks a request.
+ *
+ * @async
+ * @param {string} key - Cache key.
+ * @returns {Promise<CacheEntry | undefined>} The entry, if any.
+ */
+async function readEntry(key: string): Promise<CacheEntry | undefined> {
+  if (!backend) return undefined;
+  try {
+    return await backend.get(key);
+  } catch (error) {
+    console.error("Error reading Pexels cache:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Fetches from Pexels and stores the response; concurrent calls for the same key share the fetch.
+ *
+ * @async
+ * @param {string} key - Cache key.
+ * @param {PexelsCacheEndpoint} endpoint - Cached endpoint (for its TTL).
+ * @param {Function} fetcher - Performs the Pexels request.
+ * @returns {Promise<CacheEntry>} The new entry.
+ */
+function refresh(key: string, endpoint: PexelsCacheEndpoint, fetcher: () => Promise<any>): Promise<CacheEntry> {
+  const pending = inFlight.get(key);
+  if (pending) return pending;
+
+  const request = (async () => {
+    const value = await fetcher();
+    const now = Date.now();
+    const entry: CacheEntry = {
+      value,
+      etag: computeEtag(value),
+      storedAt: new Date(now),
+      freshUntil: new Date(now + config.ttlMs[endpoint]),
+      expiresAt: new Date(now + config.ttlMs[endpoint] + config.staleMs),
+    };
+    if (backend) {
+      await backend.set(key, entry).catch((error) => console.error("Error writing Pexels cache:", error));
+    }
+    return entry;
+  })().finally(() => inFlight.delete(key));
+
+  inFlight.set(key, request);
+  return request;
+}
+
+/**
+ * Returns a Pexels response from the cache, fetching it when missing or expired.
+ *
+ * @async
+ * @param {PexelsCacheEndpoint} endpoint - Cached endpoint.
+ * @param {Record<string, unknown>} params - Request parameters, part of the cache key.
+ * @param {Function} fetcher - Performs the Pexels request; must throw on errors so they are not cached.
+ * @returns {Promise<CachedResult>} The response and how it was served.
+ * @throws {Error} The fetcher's error when Pexels fails and there is no usable stale entry, or
+ *   when it answers 404.
+ *
+ * @example
+ * const result = await cachedPexelsCall("popular", { per_page: 10 }, () => fetchPopular());
+ * sendCached(req, res, result);
+ */
+export async function cachedPexelsCall(
+  endpoint: PexelsCacheEndpoint,
+  params: Record<string, unknown>,
+  fetcher: () => Promise<any>
+): Promise<CachedResult> {
+  const key = cacheKey(endpoint, params);
+  const cached = await readEntry(key);
+  const now = Date.now();
+
+  if (cached && new Date(cached.freshUntil).getTime() > now) {
+    return {
+      value: cached.value,
+      etag: cached.etag,
+      status: "hit",
+      maxAge: Math.ceil((new Date(cached.freshUntil).getTime() - now) / 1000),
+    };
+  }
+
+  try {
+    const entry = await refresh(key, endpoint, fetcher);
+    return { value: entry.value, etag: entry.etag, status: "miss", maxAge: Math.ceil(config.ttlMs[endpoint] / 1000) };
+  } catch (error) {
+    // A video Pexels no longer knows must not be served from the cache
+    if (!cached || (error instanceof VideoProviderError && error.status === 404)) throw error;
+    console.error(`Pexels request failed, serving stale "${key}":`, error);
+    return { value: cached.value, etag: cached.etag, status: "stale", maxAge: 0 };
+  }
+}
+
+/**
+ * Sends a cached response with `Cache-Control`, `ETag` and `X-Cache` headers, answering 304 when
+ * the client already has it.
+ *
+ * @param {Request} req - Express request object (reads `If-None-Match`).
+ * @param {Response} res - Express response object.
+ * @param {CachedResult} result - Result of `cachedPexelsCall`.
+ * @param {any} [body] - Body to send instead of `result.value` (e.g. after per-user filtering).
+ * @returns {Response} The response.
+ * @remarks
+ * - Responses are `private`, since every Pexels route requires authentication.
+ */
+export function sendCached(req: Request, res: Response, result: CachedResult, body: any = result.value) {
+  const etag = body === result.value ? result.etag : computeEtag(body);
+
+  res.set("ETag", etag);
+  res.set("Cache-Control", `private, max-age=${result.maxAge}`);
+  res.set("X-Cache", result.status.toUpperCase());
+
+  const ifNoneMatch = req.get("If-None-Match");
+  if (ifNoneMatch && ifNoneMatch.split(",").some((tag) => tag.trim() === etag || tag.trim() === "*")) {
+    return res.status(304).end();
+  }
+  return res.json(body);
+}
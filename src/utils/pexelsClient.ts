@@ -0,0 +1,268 @@
+/**
+ * @file utils/pexelsClient.ts
+ * @description Client for the Pexels video API that tracks the remaining monthly quota from the
+ * rate-limit headers, retries failed calls with jittered backoff, opens a circuit breaker after
+ * repeated failures and maps upstream errors to HTTP statuses meaningful to our clients.
+ */
+
+import { VideoProviderError } from "../providers/videoProvider";
+
+const PEXELS_VIDEO_API = "https://api.pexels.com/videos";
+
+/**
+ * Error of a Pexels call, with the HTTP status our API should answer with.
+ *
+ * @property {number} status - 404 unknown video, 429 quota exhausted, 503 Pexels unavailable
+ *   (or circuit open), 502 unexpected Pexels response.
+ * @property {number} [retryAfter] - Seconds until the call is worth retrying.
+ */
+export class PexelsApiError extends VideoProviderError {
+  constructor(message: string, status: number, retryAfter?: number) {
+    super(message, status, retryAfter);
+    this.name = "PexelsApiError";
+  }
+}
+
+/**
+ * Client settings, configurable through environment variables.
+ *
+ * @property {number} maxRetries - Retries of a failed call (`PEXELS_MAX_RETRIES`, default 2).
+ * @property {number} retryBaseMs - Base of the exponential backoff, randomized between 0 and the
+ *   current step (`PEXELS_RETRY_BASE_MS`, default 300).
+ * @property {number} timeoutMs - Timeout of each attempt (`PEXELS_TIMEOUT_MS`, default 10000).
+ * @property {number} breakerThreshold - Consecutive failed calls that open the circuit
+ *   (`PEXELS_BREAKER_THRESHOLD`, default 5).
+ * @property {number} breakerCooldownMs - How long the circuit stays open before a trial call
+ *   (`PEXELS_BREAKER_COOLDOWN_SECONDS`, default 30).
+ */
+const config = {
+  maxRetries: Number(process.env.PEXELS_MAX_RETRIES ?? 2),
+  retryBaseMs: Number(process.env.PEXELS_RETRY_BASE_MS) || 300,
+  timeoutMs: Number(process.env.PEXELS_TIMEOUT_MS) || 10000,
+  breakerThreshold: Number(process.env.PEXELS_BREAKER_THRESHOLD) || 5,
+  breakerCooldownMs: (Number(process.env.PEXELS_BREAKER_COOLDOWN_SECONDS) || 30) * 1000,
+};
+
+/**
+ * Quota and health of the Pexels integration, as seen by this process.
+ */
+const state = {
+  quota: {
+    limit: null as number | null,
+    remaining: null as number | null,
+    resetAt: null as Date | null,
+    updatedAt: null as Date | null,
+  },
+  breaker: {
+    consecutiveFailures: 0,
+    openUntil: null as Date | null,
+    trialInFlight: false,
+  },
+  stats: {
+    requests: 0,
+    retries: 0,
+    failures: 0,
+    rejected: 0,
+  },
+};
+
+/**
+ * Seconds from now until a date, at least 1.
+ *
+ * @param {Date} date - Future date.
+ * @returns {number} Whole seconds.
+ */
+function secondsUntil(date: Date): number {
+  return Math.max(Math.ceil((date.getTime() - Date.now()) / 1000), 1);
+}
+
+/**
+ * Stores the quota reported by the `X-Ratelimit-*` headers of a Pexels response.
+ *
+ * @param {Headers} headers - Response headers.
+ */
+function recordQuota(headers: Headers) {
+  const limit = headers.get("x-ratelimit-limit");
+  const remaining = headers.get("x-ratelimit-remaining");
+  const reset = headers.get("x-ratelimit-reset");
+  if (limit === null && remaining === null) return;
+
+  if (limit !== null) state.quota.limit = Number(limit);
+  if (remaining !== null) state.quota.remaining = Number(remaining);
+  // Pexels sends the reset as a UNIX timestamp in seconds
+  if (reset !== null) state.quota.resetAt = new Date(Number(reset) * 1000);
+  state.quota.updatedAt = new Date();
+}
+
+/**
+ * Rejects a call before reaching Pexels when the quota is exhausted or the circuit is open.
+ *
+ * @throws {PexelsApiError} 429 while the quota is exhausted, 503 while the circuit is open.
+ */
+function checkAvailability() {
+  const { quota, breaker } = state;
+  const now = Date.now();
+
+  if (quota.remaining !== null && quota.remaining <= 0 && quota.resetAt && quota.resetAt.getTime() > now) {
+    state.stats.rejected++;
+    throw new PexelsApiError("Pexels quota exhausted", 429, secondsUntil(quota.resetAt));
+  }
+
+  if (breaker.openUntil) {
+    // Once the cooldown is over a single trial call is let through (half-open)
+    if (breaker.openUntil.getTime() > now || breaker.trialInFlight) {
+      state.stats.rejected++;
+      const retryAfter = breaker.openUntil.getTime() > now ? secondsUntil(breaker.openUntil) : 1;
+      throw new PexelsApiError("Pexels is temporarily unavailable", 503, retryAfter);
+    }
+    breaker.trialInFlight = true;
+  }
+}
+
+/**
+ * Records the outcome of a call in the circuit breaker.
+ *
+ * @param {boolean} healthy - Whether Pexels answered (any answer other than a 5xx or a network error).
+ */
+function recordOutcome(healthy: boolean) {
+  const { breaker } = state;
+  breaker.trialInFlight = false;
+
+  if (healthy) {
+    breaker.consecutiveFailures = 0;
+    breaker.openUntil = null;
+    return;
+  }
+
+  state.stats.failures++;
+  breaker.consecutiveFailures++;
+  // A failed trial call reopens the circuit straight away
+  if (breaker.openUntil || breaker.consecutiveFailures >= config.breakerThreshold) {
+    breaker.openUntil = new Date(Date.now() + config.breakerCooldownMs);
+  }
+}
+
+/**
+ * Seconds until the circuit closes, if it is open.
+ *
+ * @returns {number | undefined} Seconds, or `undefined` when the circuit is closed.
+ */
+function retryAfterBreaker(): number | undefined {
+  return state.breaker.openUntil ? secondsUntil(state.breaker.openUntil) : undefined;
+}
+
+/**
+ * Waits before retry number `attempt` (exponential backoff with full jitter).
+ *
+ * @param {number} attempt - Retry number, starting at 1.
+ * @returns {Promise<void>}
+ */
+function backoff(attempt: number): Promise<void> {
+  const delay = Math.random() * config.retryBaseMs * 2 ** (attempt - 1);
+  return new Promise((resolve) => setTimeout(resolve, delay));
+}
+
+/**
+ * Performs a GET request against the Pexels video API.
+ *
+ * @async
+ * @param {string} path - Path below `/videos`, e.g. `/search`.
+ * @param {Record<string, unknown>} [params] - Query string parameters (`undefined` values are skipped).
+ * @returns {Promise<any>} The parsed JSON body.
+ * @throws {PexelsApiError} Mapped upstream error (see `PexelsApiError`).
+ * @remarks
+ * - Network errors, timeouts and 5xx answers are retried up to `maxRetries` times; every Pexels
+ *   endpoint used is a GET, so retrying is safe. 404 and 429 are never retried.
+ */
+async function pexelsGet(path: string, params: Record<string, unknown> = {}): Promise<any> {
+  checkAvailability();
+
+  const query = new URLSearchParams();
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null) query.set(name, String(value));
+  }
+  const url = `${PEXELS_VIDEO_API}${path}${query.toString() ? `?${query}` : ""}`;
+
+  for (let attempt = 0; ; attempt++) {
+    if (attempt > 0) {
+      state.stats.retries++;
+      await backoff(attempt);
+    }
+    state.stats.requests++;
+
+    let response: globalThis.Response;
+    try {
+      response = await fetch(url, {
+        headers: { Accept: "application/json", Authorization: process.env.PEXELS_API_KEY as string },
+        signal: AbortSignal.timeout(config.timeoutMs),
+      });
+    } catch (error) {
+      if (attempt < config.maxRetries) continue;
+      console.error(`Pexels request ${path} failed:`, error);
+      recordOutcome(false);
+      throw new PexelsApiError("Pexels is temporarily unavailable", 503, retryAfterBreaker());
+    }
+
+    recordQuota(response.headers);
+
+    if (response.status >= 500) {
+      if (attempt < config.maxRetries) continue;
+      recordOutcome(false);
+      throw new PexelsApiError("Pexels is temporarily unavailable", 503, retryAfterBreaker());
+    }
+    recordOutcome(true);
+
+    if (response.ok) {
+      return response.json();
+    }
+    if (response.status === 404) {
+      throw new PexelsApiError("Video not found", 404);
+    }
+    if (response.status === 429) {
+      state.quota.remaining = 0;
+      const retryAfter = Number(response.headers.get("retry-after")) || (state.quota.resetAt ? secondsUntil(state.quota.resetAt) : 60);
+      if (!state.quota.resetAt || state.quota.resetAt.getTime() <= Date.now()) {
+        state.quota.resetAt = new Date(Date.now() + retryAfter * 1000);
+      }
+      throw new PexelsApiError("Pexels quota exhausted", 429, retryAfter);
+    }
+    console.error(`Pexels request ${path} answered ${response.status} ${response.statusText}`);
+    throw new PexelsApiError("Unexpected response from Pexels", 502);
+  }
+}
+
+/**
+ * Pexels video endpoints, with the same shape as the `pexels` package client.
+ */
+export const pexelsClient = {
+  videos: {
+    search: (params: Record<string, unknown>) => pexelsGet("/search", params),
+    popular: (params: Record<string, unknown> = {}) => pexelsGet("/popular", params),
+    show: ({ id }: { id: string | number }) => pexelsGet(`/videos/${encodeURIComponent(String(id))}`),
+  },
+};
+
+/**
+ * Returns the quota usage and health of the Pexels integration.
+ *
+ * @returns {Object} `{ quota: { limit, remaining, used, resetAt, updatedAt }, breaker: { state,
+ *   consecutiveFailures, openUntil }, stats: { requests, retries, failures, rejected } }`.
+ * @remarks
+ * - Quota values are `null` until Pexels answers a first request. Counters are per process.
+ */
+export function getPexelsStatus() {
+  const { quota, breaker, stats } = state;
+  const now = Date.now();
+  return {
+    quota: {
+      ...quota,
+      used: quota.limit !== null && quota.remaining !== null ? quota.limit - quota.remaining : null,
+    },
+    breaker: {
+      state: !breaker.openUntil ? "closed" : breaker.openUntil.getTime() > now ? "open" : "half-open",
+      consecutiveFailures: breaker.consecutiveFailures,
+      openUntil: breaker.openUntil,
+    },
+    stats: { ...stats },
+  };
+}
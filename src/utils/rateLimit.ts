@@ -0,0 +1,39 @@
+/**
+ * @file utils/rateLimit.ts
+ * @description Fixed-window request limits backed by the `RateLimit` collection.
+ */
+
+import RateLimit from "../models/rateLimit.model";
+import { ThrottleDecision } from "./loginThrottle";
+
+/**
+ * Counts one request for a key and tells whether it is still within the limit.
+ *
+ * @async
+ * @param {string} key - Limited key, e.g. `forgot-password:email:<address>`.
+ * @param {number} limit - Requests allowed per window.
+ * @param {number} windowMs - Window length; it starts with the first request.
+ * @returns {Promise<ThrottleDecision>} `{ allowed: true }`, or a 429 decision with `retryAfter`
+ *   (answer it with `sendThrottled`).
+ */
+export async function consumeRateLimit(key: string, limit: number, windowMs: number): Promise<ThrottleDecision> {
+  const now = new Date();
+
+  // The TTL monitor runs once a minute; drop an already expired window ourselves
+  await RateLimit.deleteOne({ key, expiresAt: { $lte: now } });
+
+  const record = await RateLimit.findOneAndUpdate(
+    { key },
+    { $inc: { count: 1 }, $setOnInsert: { expiresAt: new Date(now.getTime() + windowMs) } },
+    { upsert: true, new: true }
+  );
+
+  if (record.count <= limit) return { allowed: true };
+
+  return {
+    allowed: false,
+    status: 429,
+    retryAfter: Math.max(Math.ceil((record.expiresAt.getTime() - now.getTime()) / 1000), 1),
+    message: "Demasiadas solicitudes. Intenta nuevamente más tarde.",
+  };
+}
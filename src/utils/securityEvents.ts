@@ -0,0 +1,118 @@
+/**
+ * @file utils/securityEvents.ts
+ * @description Helpers to write the security audit log and to alert users about
+ * logins from devices they have not used before.
+ */
+
+import { Request } from "express";
+import SecurityEvent, { SecurityEventType } from "../models/securityEvent.model";
+import { describeDevice } from "./session";
+
+const sendEmail = require("./sendEmail");
+
+/**
+ * Records a security event for a user, with the IP and device of the request.
+ *
+ * @async
+ * @param {Request} req - Express request object (used for IP and `User-Agent`).
+ * @param {any} userId - User the event belongs to.
+ * @param {SecurityEventType} type - Kind of event.
+ * @param {Object} [metadata] - Extra details stored with the event.
+ * @returns {Promise<void>} Resolves once the event is stored.
+ * @remarks
+ * - Never throws: a failure to write the audit log is logged and must not break the action itself.
+ */
+export async function recordSecurityEvent(
+  req: Request,
+  userId: any,
+  type: SecurityEventType,
+  metadata?: Record<string, unknown>
+): Promise<void> {
+  const userAgent = req.get("user-agent") || "";
+
+  try {
+    await SecurityEvent.create({
+      userId,
+      type,
+      ip: req.ip,
+      userAgent,
+      device: describeDevice(userAgent),
+      metadata,
+    });
+  } catch (error) {
+    console.error(`Error recording security event "${type}":`, error);
+  }
+}
+
+/**
+ * Records a successful login and emails the user when it comes from a device/IP
+ * combination not seen in previous logins.
+ *
+ * @async
+ * @param {Request} req - Express request object (used for IP and `User-Agent`).
+ * @param {any} user - User document that just signed in.
+ * @param {Object} [metadata] - Extra details stored with the event (e.g. the login method).
+ * @returns {Promise<void>} Resolves once the event is stored; the alert is sent in the background.
+ * @remarks
+ * - The first login of an account does not trigger an alert.
+ */
+export async function recordLogin(req: Request, user: any, metadata?: Record<string, unknown>): Promise<void> {
+  const device = describeDevice(req.get("user-agent") || "");
+
+  try {
+    const [hasLoggedIn, knownDevice] = await Promise.all([
+      SecurityEvent.exists({ userId: user._id, type: "login" }),
+      SecurityEvent.exists({ userId: user._id, type: "login", device, ip: req.ip }),
+    ]);
+
+    if (hasLoggedIn && !knownDevice) {
+      sendNewDeviceAlert(user, device, req.ip).catch((error) =>
+        console.error("Error sending new device alert:", error)
+      );
+    }
+  } catch (error) {
+    console.error("Error checking known devices:", error);
+  }
+
+  await recordSecurityEvent(req, user._id, "login", metadata);
+}
+
+/**
+ * Escapes text taken from request headers before embedding it in an email.
+ *
+ * @param {string} text - Untrusted text.
+ * @returns {string} HTML-safe text.
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Emails the user about a login from a new device or IP.
+ *
+ * @async
+ * @param {any} user - User document.
+ * @param {string} device - Device label of the login.
+ * @param {string} [ip] - IP address of the login.
+ * @returns {Promise<void>} Resolves once the email is sent.
+ */
+async function sendNewDeviceAlert(user: any, device: string, ip?: string) {
+  const sessionsURL = `${process.env.FRONTEND_URL}/perfil/seguridad`;
+  const message = `
+    <h2>Nuevo inicio de sesión en tu cuenta</h2>
+    <p>Detectamos un inicio de sesión desde un dispositivo o ubicación que no habías usado antes:</p>
+    <ul>
+      <li>Dispositivo: ${escapeHtml(device)}</li>
+      <li>IP: ${escapeHtml(ip || "desconocida")}</li>
+      <li>Fecha: ${new Date().toISOString()}</li>
+    </ul>
+    <p>Si fuiste tú, no necesitas hacer nada. Si no, cambia tu contraseña y cierra las sesiones que no reconozcas:</p>
+    <a href="${sessionsURL}" target="_blank">${sessionsURL}</a>
+  `;
+
+  await sendEmail({
+    to: user.email,
+    subject: "Nuevo inicio de sesión - Film Unity",
+    html: message,
+  });
+}
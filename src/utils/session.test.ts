@@ -0,0 +1,75 @@
+import { Request, Response } from "express";
+import { hashToken, parseRefreshToken, rotateSession } from "./session";
+
+const SESSION_ID = "673d4b20a1b2c3d4e5f60718";
+
+process.env.JWT_SECRET ||= "test-secret";
+
+/**
+ * Builds the request, response and in-memory session used by `rotateSession`.
+ */
+function setup(refreshToken: string) {
+  const cookies: Record<string, string> = {};
+  const res = { cookie: (name: string, value: string) => (cookies[name] = value) } as unknown as Response;
+  const req = { ip: "203.0.113.7", get: () => "jest" } as unknown as Request;
+  const session = {
+    _id: SESSION_ID,
+    refreshTokenHash: hashToken(refreshToken),
+    previousTokenHashes: [] as string[],
+    saves: 0,
+    async save() {
+      this.saves++;
+    },
+  };
+  return { cookies, req, res, session };
+}
+
+describe("parseRefreshToken", () => {
+  it("extracts the session id and rejects malformed tokens", () => {
+    expect(parseRefreshToken(`${SESSION_ID}.abcdef`)).toBe(SESSION_ID);
+    expect(parseRefreshToken(SESSION_ID)).toBeNull();
+    expect(parseRefreshToken("not-an-id.abcdef")).toBeNull();
+  });
+});
+
+describe("rotateSession", () => {
+  it("issues a new refresh token for the same session and keeps the old hash for reuse detection", async () => {
+    const initialToken = `${SESSION_ID}.initial`;
+    const { cookies, req, res, session } = setup(initialToken);
+
+    await rotateSession(req, res, session, { _id: "user", email: "ana@example.com" });
+
+    const rotated = cookies.refreshToken;
+    expect(rotated).not.toBe(initialToken);
+    expect(parseRefreshToken(rotated)).toBe(SESSION_ID);
+    expect(session.refreshTokenHash).toBe(hashToken(rotated));
+    expect(session.previousTokenHashes).toEqual([hashToken(initialToken)]);
+    expect(cookies.token).toBeTruthy();
+    expect(session.saves).toBe(1);
+  });
+
+  it("remembers every rotated token, so presenting any of them again is detected as reuse", async () => {
+    const initialToken = `${SESSION_ID}.initial`;
+    const { cookies, req, res, session } = setup(initialToken);
+    const user = { _id: "user", email: "ana@example.com" };
+
+    await rotateSession(req, res, session, user);
+    const second = cookies.refreshToken;
+    await rotateSession(req, res, session, user);
+    const third = cookies.refreshToken;
+
+    expect(session.refreshTokenHash).toBe(hashToken(third));
+    expect(session.previousTokenHashes).toEqual([hashToken(second), hashToken(initialToken)]);
+    expect(session.previousTokenHashes).not.toContain(hashToken(third));
+  });
+
+  it("keeps only the most recent rotated hashes", async () => {
+    const { req, res, session } = setup(`${SESSION_ID}.initial`);
+
+    for (let i = 0; i < 25; i++) {
+      await rotateSession(req, res, session, { _id: "user" });
+    }
+
+    expect(session.previousTokenHashes).toHaveLength(20);
+  });
+});
@@ -0,0 +1,259 @@
+/**
+ * @file utils/session.ts
+ * @description Helpers to issue, rotate and revoke user sessions (short-lived access
+ * token + rotating refresh token) and to manage the authentication cookies.
+ */
+
+import { Request, Response } from "express";
+import Session from "../models/session.model";
+
+const jwt = require("jsonwebtoken");
+const cryptoModule = require("crypto");
+
+/**
+ * Lifetime of the access token (`token` cookie) in minutes.
+ * Configurable through `ACCESS_TOKEN_TTL_MINUTES`, defaults to 15 minutes.
+ */
+export const ACCESS_TOKEN_TTL_MS = (Number(process.env.ACCESS_TOKEN_TTL_MINUTES) || 15) * 60 * 1000;
+
+/**
+ * Lifetime of the refresh token (`refreshToken` cookie) in days.
+ * Configurable through `REFRESH_TOKEN_TTL_DAYS`, defaults to 30 days.
+ */
+export const REFRESH_TOKEN_TTL_MS = (Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30) * 24 * 60 * 60 * 1000;
+
+/**
+ * Lifetime of the "mfa pending" token issued by `login` when two-factor authentication is enabled.
+ */
+const MFA_PENDING_TTL_SECONDS = 5 * 60;
+
+/**
+ * Maximum number of rotated refresh token hashes kept per session for reuse detection.
+ */
+const MAX_PREVIOUS_HASHES = 20;
+
+/**
+ * Base options shared by the authentication cookies.
+ *
+ * @returns {Object} `httpOnly`, and `secure/sameSite` based on `NODE_ENV`.
+ */
+function baseCookieOptions() {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production", // Use 'secure' only in production
+    sameSite: (process.env.NODE_ENV === "production" ? "none" : "lax") as "none" | "lax",
+  };
+}
+
+/**
+ * Hashes a token with SHA-256 so it can be stored without exposing the original value.
+ *
+ * @param {string} token - Plain token.
+ * @returns {string} Hex encoded hash.
+ */
+export function hashToken(token: string): string {
+  return cryptoModule.createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Builds a short human readable label from a `User-Agent` header.
+ *
+ * @param {string} userAgent - Raw `User-Agent` header.
+ * @returns {string} Label such as "Chrome en Windows".
+ */
+export function describeDevice(userAgent: string): string {
+  if (!userAgent) return "Dispositivo desconocido";
+
+  const browsers: [RegExp, string][] = [
+    [/Edg\//, "Edge"],
+    [/OPR\/|Opera/, "Opera"],
+    [/Firefox\//, "Firefox"],
+    [/Chrome\//, "Chrome"],
+    [/Safari\//, "Safari"],
+    [/okhttp|Dalvik/i, "App Android"],
+    [/CFNetwork/, "App iOS"],
+  ];
+  const systems: [RegExp, string][] = [
+    [/Windows/, "Windows"],
+    [/Android/, "Android"],
+    [/iPhone|iPad|iOS/, "iOS"],
+    [/Mac OS X|Macintosh/, "macOS"],
+    [/Linux/, "Linux"],
+  ];
+
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && system) return `${browser} en ${system}`;
+  return browser || system || userAgent.slice(0, 60);
+}
+
+/**
+ * Signs a short-lived access token bound to a session.
+ *
+ * @param {any} user - User document.
+ * @param {string} sessionId - Identifier of the session the token belongs to.
+ * @returns {string} Signed JWT with `userId`, `email`, `role` and `sid` claims.
+ * @remarks
+ * - Requires `process.env.JWT_SECRET`.
+ * - The role is read again on every refresh, so role changes apply within one access token lifetime.
+ */
+export function signAccessToken(user: any, sessionId: string): string {
+  return jwt.sign(
+    { userId: user._id, email: user.email, role: user.role || "user", sid: sessionId },
+    process.env.JWT_SECRET,
+    { expiresIn: Math.floor(ACCESS_TOKEN_TTL_MS / 1000) }
+  );
+}
+
+/**
+ * Signs the short-lived token proving the password step of a two-factor login succeeded.
+ *
+ * @param {any} user - User document.
+ * @returns {string} Signed JWT with `purpose: "mfa_pending"`; it carries no `sid`, so `authMiddleware` rejects it.
+ */
+export function signMfaPendingToken(user: any): string {
+  return jwt.sign(
+    { userId: user._id, purpose: "mfa_pending" },
+    process.env.JWT_SECRET,
+    { expiresIn: MFA_PENDING_TTL_SECONDS }
+  );
+}
+
+/**
+ * Verifies an "mfa pending" token.
+ *
+ * @param {string} token - Token returned by `login`.
+ * @returns {string | null} The user id, or `null` if the token is invalid, expired, or of another kind.
+ */
+export function verifyMfaPendingToken(token: string): string | null {
+  try {
+    const decoded = jwt.verify(token, process.env.JWT_SECRET);
+    return decoded.purpose === "mfa_pending" ? decoded.userId : null;
+  } catch (err) {
+    return null;
+  }
+}
+
+/**
+ * Generates a new refresh token for a session.
+ *
+ * @param {string} sessionId - Session identifier, used as token prefix to locate the session.
+ * @returns {string} Token in the form `<sessionId>.<random secret>`.
+ */
+function generateRefreshToken(sessionId: string): string {
+  return `${sessionId}.${cryptoModule.randomBytes(48).toString("hex")}`;
+}
+
+/**
+ * Extracts the session identifier from a refresh token.
+ *
+ * @param {string} refreshToken - Refresh token received from the client.
+ * @returns {string | null} Session identifier, or `null` if the token is malformed.
+ */
+export function parseRefreshToken(refreshToken: string): string | null {
+  if (typeof refreshToken !== "string") return null;
+  const [sessionId, secret] = refreshToken.split(".");
+  if (!sessionId || !secret || !/^[a-f\d]{24}$/i.test(sessionId)) return null;
+  return sessionId;
+}
+
+/**
+ * Sets the `token` (access) and `refreshToken` cookies.
+ *
+ * @param {Response} res - Express response object.
+ * @param {string} accessToken - Signed access token.
+ * @param {string} refreshToken - Refresh token.
+ * @remarks
+ * - The refresh cookie is restricted to `/api/auth` so it is only sent to the auth endpoints.
+ */
+export function setAuthCookies(res: Response, accessToken: string, refreshToken: string) {
+  res.cookie("token", accessToken, {
+    ...baseCookieOptions(),
+    maxAge: ACCESS_TOKEN_TTL_MS,
+  });
+  res.cookie("refreshToken", refreshToken, {
+    ...baseCookieOptions(),
+    path: "/api/auth",
+    maxAge: REFRESH_TOKEN_TTL_MS,
+  });
+}
+
+/**
+ * Clears the `token` and `refreshToken` cookies.
+ *
+ * @param {Response} res - Express response object.
+ */
+export function clearAuthCookies(res: Response) {
+  res.clearCookie("token", baseCookieOptions());
+  res.clearCookie("refreshToken", { ...baseCookieOptions(), path: "/api/auth" });
+}
+
+/**
+ * Creates a new session for the user and sets the authentication cookies.
+ *
+ * @async
+ * @param {Request} req - Express request object (used for IP and `User-Agent`).
+ * @param {Response} res - Express response object.
+ * @param {any} user - Authenticated user document.
+ * @returns {Promise<any>} The created session document.
+ */
+export async function startSession(req: Request, res: Response, user: any) {
+  const userAgent = req.get("user-agent") || "";
+  const session = new Session({
+    userId: user._id,
+    refreshTokenHash: "pending",
+    device: describeDevice(userAgent),
+    ip: req.ip,
+    userAgent,
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+  });
+
+  const refreshToken = generateRefreshToken(session._id.toString());
+  session.refreshTokenHash = hashToken(refreshToken);
+  await session.save();
+
+  setAuthCookies(res, signAccessToken(user, session._id.toString()), refreshToken);
+  return session;
+}
+
+/**
+ * Rotates the refresh token of a session and sets fresh authentication cookies.
+ *
+ * @async
+ * @param {Request} req - Express request object (used for IP and `User-Agent`).
+ * @param {Response} res - Express response object.
+ * @param {any} session - Active session document whose token was just presented.
+ * @param {any} user - Owner of the session.
+ * @returns {Promise<void>} Resolves once the session is updated and cookies are set.
+ */
+export async function rotateSession(req: Request, res: Response, session: any, user: any) {
+  const refreshToken = generateRefreshToken(session._id.toString());
+
+  session.previousTokenHashes = [session.refreshTokenHash, ...session.previousTokenHashes]
+    .slice(0, MAX_PREVIOUS_HASHES);
+  session.refreshTokenHash = hashToken(refreshToken);
+  session.ip = req.ip;
+  session.userAgent = req.get("user-agent") || session.userAgent;
+  session.lastUsedAt = new Date();
+  session.expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_MS);
+  await session.save();
+
+  setAuthCookies(res, signAccessToken(user, session._id.toString()), refreshToken);
+}
+
+/**
+ * Revokes every active session matching a filter.
+ *
+ * @async
+ * @param {Object} filter - Mongo filter (e.g. `{ userId }` or `{ userId, _id: { $ne: current } }`).
+ * @param {string} reason - Reason stored on the revoked sessions.
+ * @returns {Promise<number>} Number of sessions revoked.
+ */
+export async function revokeSessions(filter: Record<string, unknown>, reason: string): Promise<number> {
+  const result = await Session.updateMany(
+    { ...filter, revokedAt: null },
+    { $set: { revokedAt: new Date(), revokedReason: reason } }
+  );
+  return result.modifiedCount;
+}
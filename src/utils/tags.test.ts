@@ -0,0 +1,21 @@
+import { normalizeTags } from "./tags";
+import { toCsv, parseCsv } from "./csv";
+
+describe("normalizeTags", () => {
+  it("normalizes arrays and separated strings to the same tags", () => {
+    expect(normalizeTags(["Naturaleza", " mar  azul ", "naturaleza"])).toEqual(["naturaleza", "mar azul"]);
+    expect(normalizeTags("Naturaleza, mar  azul;naturaleza")).toEqual(["naturaleza", "mar azul"]);
+  });
+
+  it("rejects tags containing a separator", () => {
+    expect(normalizeTags(["drama, romance"])).toEqual(expect.stringContaining("comas"));
+    expect(normalizeTags(["drama;romance"])).toEqual(expect.stringContaining("punto y coma"));
+  });
+
+  it("keeps the tags intact through a CSV export and import", () => {
+    const tags = normalizeTags(["Ciencia ficción", "años 80"]);
+    const [row] = parseCsv(toCsv([{ tags }], ["tags"]));
+
+    expect(normalizeTags(row.tags)).toEqual(tags);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * @file utils/tags.ts
+ * @description Normalization of the free-form tags users attach to saved movies.
+ */
+
+/**
+ * Maximum number of tags per movie, and length of each tag.
+ */
+export const MAX_TAGS_PER_MOVIE = 20;
+export const MAX_TAG_LENGTH = 30;
+
+/**
+ * Characters that separate tags in query strings and CSV exports, and so cannot appear in a tag.
+ */
+const TAG_SEPARATORS = /[,;]/;
+
+/**
+ * Normalizes tags: trimmed, lowercase, inner whitespace collapsed, without duplicates.
+ *
+ * @param {unknown} value - Array of strings, or a string with tags separated by `,` or `;`
+ *   (as in query strings and CSV exports). Tags given as an array cannot contain those separators,
+ *   otherwise they would not survive an export and import round trip.
+ * @returns {string[] | string} The normalized tags, or a message explaining why they are invalid.
+ *
+ * @example
+ * normalizeTags(["Naturaleza", " mar  azul ", "naturaleza"]); // ["naturaleza", "mar azul"]
+ */
+export function normalizeTags(value: unknown): string[] | string {
+  const raw = typeof value === "string" ? value.split(TAG_SEPARATORS) : value;
+  if (!Array.isArray(raw) || raw.some((tag) => typeof tag !== "string")) {
+    return "tags debe ser una lista de textos";
+  }
+  if (raw.some((tag: string) => TAG_SEPARATORS.test(tag))) {
+    return "Las etiquetas no pueden contener comas ni punto y coma";
+  }
+
+  const tags = [...new Set(raw.map((tag: string) => tag.trim().toLowerCase().replace(/\s+/g, " ")).filter(Boolean))];
+
+  if (tags.length > MAX_TAGS_PER_MOVIE) {
+    return `Puedes usar máximo ${MAX_TAGS_PER_MOVIE} etiquetas por película`;
+  }
+  if (tags.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+    return `Cada etiqueta puede tener máximo ${MAX_TAG_LENGTH} caracteres`;
+  }
+  return tags;
+}
@@ -0,0 +1,167 @@
+/**
+ * @file utils/totp.ts
+ * @description Time-based one-time passwords (RFC 6238) and recovery codes for two-factor authentication.
+ */
+
+const cryptoModule = require("crypto");
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+/**
+ * TOTP parameters supported by every common authenticator app.
+ */
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+
+/**
+ * Accepted clock drift, in periods, on each side of the current one.
+ */
+const TOTP_WINDOW = 1;
+
+/**
+ * Encodes a buffer in RFC 4648 base32 without padding.
+ *
+ * @param {Buffer} buffer - Bytes to encode.
+ * @returns {string} Base32 string.
+ */
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+/**
+ * Decodes an RFC 4648 base32 string (case insensitive, padding and spaces ignored).
+ *
+ * @param {string} input - Base32 string.
+ * @returns {Buffer} Decoded bytes.
+ * @throws {Error} If the string contains characters outside the base32 alphabet.
+ */
+function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 character");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Computes the HOTP code (RFC 4226) for a counter.
+ *
+ * @param {Buffer} key - Shared secret.
+ * @param {number} counter - Moving factor.
+ * @returns {string} Zero padded code of `TOTP_DIGITS` digits.
+ */
+function hotp(key: Buffer, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const digest: Buffer = cryptoModule.createHmac("sha1", key).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+/**
+ * Generates a new random TOTP secret.
+ *
+ * @returns {string} 160-bit secret encoded in base32.
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(cryptoModule.randomBytes(20));
+}
+
+/**
+ * Builds the `otpauth://` URI understood by authenticator apps (usually shown as a QR code).
+ *
+ * @param {string} secret - Base32 secret.
+ * @param {string} accountName - Account label, typically the user's email.
+ * @returns {string} Provisioning URI.
+ */
+export function buildOtpauthUri(secret: string, accountName: string): string {
+  const issuer = process.env.MFA_ISSUER || "Film Unity";
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Verifies a TOTP code against a secret.
+ *
+ * @param {string} secret - Base32 secret.
+ * @param {string} code - Code typed by the user.
+ * @param {number} [lastUsedStep] - Time step of the last accepted code, rejected to prevent replays.
+ * @returns {number | null} The matched time step, or `null` if the code is invalid.
+ */
+export function verifyTotp(secret: string, code: string, lastUsedStep?: number): number | null {
+  const normalized = String(code || "").replace(/\s/g, "");
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) return null;
+
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+
+  for (let drift = -TOTP_WINDOW; drift <= TOTP_WINDOW; drift++) {
+    const step = currentStep + drift;
+    if (lastUsedStep !== undefined && step <= lastUsedStep) continue;
+
+    const expected = hotp(key, step);
+    if (cryptoModule.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * Normalizes a recovery code so dashes, spaces and case do not matter.
+ *
+ * @param {string} code - Recovery code as typed by the user.
+ * @returns {string} Normalized code.
+ */
+export function normalizeRecoveryCode(code: string): string {
+  return String(code || "").replace(/[\s-]/g, "").toLowerCase();
+}
+
+/**
+ * Generates a set of one-time recovery codes.
+ *
+ * @param {number} [count=10] - Number of codes.
+ * @returns {string[]} Codes formatted as `xxxxx-xxxxx`.
+ */
+export function generateRecoveryCodes(count = 10): string[] {
+  return Array.from({ length: count }, () => {
+    const raw = cryptoModule.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+}
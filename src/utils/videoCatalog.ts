@@ -0,0 +1,205 @@
+/**
+ * @file utils/videoCatalog.ts
+ * @description Local `Video` catalog: stores the metadata of the videos returned by the video
+ * provider and resolves the videos referenced by saved movies, comments and ratings, so their
+ * metadata comes from the catalog instead of the client.
+ */
+
+import { Response } from "express";
+import Video from "../models/video.model";
+import Movie from "../models/movie.model";
+import Comment from "../models/comment.model";
+import Rating from "../models/rating.model";
+import { videoProvider } from "../config/videoProvider";
+import { VideoProviderError } from "../providers/videoProvider";
+
+/**
+ * Catalog settings, configurable through environment variables.
+ *
+ * @property {number} maxAgeMs - Age after which a referenced video is refreshed from the provider
+ *   (`VIDEO_METADATA_MAX_AGE_HOURS`, default 24).
+ */
+const config = {
+  maxAgeMs: (Number(process.env.VIDEO_METADATA_MAX_AGE_HOURS) || 24) * 60 * 60 * 1000,
+};
+
+/**
+ * Derives a readable title from a video page URL
+ * (`https://www.pexels.com/video/sea-waves-3190131/` becomes "Sea waves").
+ *
+ * @param {any} video - Video in the provider (Pexels) format.
+ * @returns {string} Title, or `Video <id>` when the URL has no slug.
+ */
+export function titleFromVideo(video: any): string {
+  const slug = String(video.url || "").split("/").filter(Boolean).pop() || "";
+  const words = slug.replace(new RegExp(`-?${video.id}$`), "").replace(/-/g, " ").trim();
+  return words ? words[0].toUpperCase() + words.slice(1) : `Video ${video.id}`;
+}
+
+/**
+ * Maps a provider video to the fields of the `Video` collection.
+ *
+ * @param {any} video - Video in the provider (Pexels) format.
+ * @returns {Object} Fields to `$set`, with `fetchedAt` set to now.
+ */
+function toVideoFields(video: any) {
+  const pictures = Array.isArray(video.video_pictures)
+    ? [...video.video_pictures].sort((a: any, b: any) => (a.nr ?? 0) - (b.nr ?? 0)).map((picture: any) => picture.picture)
+    : [];
+
+  return {
+    provider: videoProvider.name,
+    title: titleFromVideo(video),
+    pexelUser: video.user?.name || "Pexels",
+    pexelUserUrl: video.user?.url,
+    url: video.url,
+    miniatureUrl: video.image || pictures[0] || "",
+    duration: video.duration,
+    width: video.width,
+    height: video.height,
+    pictures: pictures.filter(Boolean),
+    files: (Array.isArray(video.video_files) ? video.video_files : [])
+      .filter((file: any) => file?.link)
+      .map((file: any) => ({
+        quality: file.quality,
+        fileType: file.file_type,
+        width: file.width,
+        height: file.height,
+        fps: file.fps,
+        link: file.link,
+      })),
+    tags: Array.isArray(video.tags) ? video.tags.filter((tag: unknown) => typeof tag === "string") : [],
+    fetchedAt: new Date(),
+  };
+}
+
+/**
+ * Stores or refreshes videos returned by the provider.
+ *
+ * @async
+ * @param {any[]} videos - Videos in the provider (Pexels) format.
+ * @returns {Promise<void>} Resolves once stored; errors are logged, never thrown, so browsing keeps
+ *   working when the catalog cannot be written.
+ */
+export async function upsertVideos(videos: any[]): Promise<void> {
+  const operations = (videos || [])
+    .filter((video) => video?.id !== undefined)
+    .map((video) => ({
+      updateOne: {
+        filter: { pexelsId: String(video.id) },
+        update: { $set: toVideoFields(video), $setOnInsert: { createdAt: new Date() } },
+        upsert: true,
+      },
+    }));
+  if (operations.length === 0) return;
+
+  try {
+    await Video.bulkWrite(operations, { ordered: false });
+  } catch (error) {
+    console.error("Error storing videos in the catalog:", error);
+  }
+}
+
+/**
+ * Returns the catalog record of a referenced video, fetching it from the provider when it is
+ * unknown or older than `VIDEO_METADATA_MAX_AGE_HOURS`.
+ *
+ * @async
+ * @param {string} pexelsId - Video ID.
+ * @returns {Promise<any>} The `Video` document, or `null` if the video does not exist.
+ * @throws {VideoProviderError} When the provider fails and there is no local copy.
+ * @remarks
+ * - A stale local copy is returned as is if the provider fails for reasons other than a 404.
+ */
+export async function resolveVideo(pexelsId: string): Promise<any> {
+  const id = String(pexelsId).trim();
+  if (!id) return null;
+
+  const local = await Video.findOne({ pexelsId: id });
+  if (local && local.fetchedAt.getTime() > Date.now() - config.maxAgeMs) {
+    return local;
+  }
+
+  try {
+    const video = await videoProvider.getById(id);
+    return await Video.findOneAndUpdate(
+      { pexelsId: id },
+      { $set: toVideoFields(video), $setOnInsert: { createdAt: new Date() } },
+      { upsert: true, new: true }
+    );
+  } catch (error) {
+    if (error instanceof VideoProviderError && error.status === 404) return null;
+    if (local) {
+      console.error(`Could not refresh video ${id}, using the stored metadata:`, error);
+      return local;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Links the movies, comments and ratings stored before the catalog existed to their `Video`
+ * record, resolving each referenced video once.
+ *
+ * @async
+ * @returns {Promise<number>} Number of documents linked.
+ * @remarks
+ * - Idempotent: only documents without `videoId` are considered, so it runs on every startup and
+ *   resumes after an interruption.
+ * - Stops at the first provider failure (e.g. quota exhausted); the remaining documents are linked
+ *   on the next run. Videos the provider no longer has are left unlinked.
+ */
+export async function linkRecordsToVideos(): Promise<number> {
+  const sources = [
+    { model: Movie, field: "pexelsId" },
+    { model: Comment, field: "moviePexelsId" },
+    { model: Rating, field: "moviePexelsId" },
+  ];
+
+  const pexelsIds = new Set<string>();
+  for (const { model, field } of sources) {
+    for (const pexelsId of await model.distinct(field, { videoId: { $exists: false } })) {
+      pexelsIds.add(String(pexelsId));
+    }
+  }
+
+  let linked = 0;
+  for (const pexelsId of pexelsIds) {
+    let video;
+    try {
+      video = await resolveVideo(pexelsId);
+    } catch (error) {
+      console.error(`Could not resolve video ${pexelsId}, linking stopped until the next run:`, error);
+      break;
+    }
+    if (!video) continue;
+
+    for (const { model, field } of sources) {
+      const result = await model.updateMany(
+        { [field]: pexelsId, videoId: { $exists: false } },
+        { $set: { videoId: video._id } }
+      );
+      linked += result.modifiedCount;
+    }
+  }
+
+  return linked;
+}
+
+/**
+ * Answers a request whose video could not be verified because the provider failed.
+ *
+ * @param {Response} res - Express response object.
+ * @param {VideoProviderError} error - Error thrown by `resolveVideo`.
+ * @param {"message" | "msg"} [key="message"] - Message key used by the calling controller.
+ * @returns {Response} The provider status (e.g. 429 or 503) with `Retry-After` when known, and
+ *   `{ <key>, retryAfter }`.
+ */
+export function sendVideoUnavailable(res: Response, error: VideoProviderError, key: "message" | "msg" = "message") {
+  if (error.retryAfter) {
+    res.set("Retry-After", String(error.retryAfter));
+  }
+  return res
+    .status(error.status)
+    .json({ [key]: "No se pudo verificar el video, vuelve a intentarlo", retryAfter: error.retryAfter });
+}
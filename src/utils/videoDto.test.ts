@@ -0,0 +1,89 @@
+import { videoProvider } from "../config/videoProvider";
+import { parseVideoFormat, toVideoDto, toVideoPageDto, VideoFormatOptions } from "./videoDto";
+
+const format = (query: Record<string, unknown>) => parseVideoFormat(query) as VideoFormatOptions;
+
+describe("parseVideoFormat", () => {
+  it("defaults to the normalized format with automatic quality", () => {
+    expect(parseVideoFormat({})).toEqual({ raw: false, quality: "auto", maxWidth: undefined });
+    expect(parseVideoFormat({ raw: "true", quality: "HD", maxWidth: "1280" })).toEqual({
+      raw: true,
+      quality: "hd",
+      maxWidth: 1280,
+    });
+  });
+
+  it("explains invalid options", () => {
+    expect(parseVideoFormat({ raw: "yes" })).toBe("raw must be true or false");
+    expect(parseVideoFormat({ quality: "4k" })).toBe("quality must be one of: auto, hd, sd");
+    expect(parseVideoFormat({ maxWidth: "0" })).toBe("maxWidth must be a positive integer");
+  });
+});
+
+describe("toVideoDto", () => {
+  it("runs against the fixture catalog", () => {
+    expect(videoProvider.name).toBe("fixtures");
+  });
+
+  it("normalizes metadata and lists the sources widest first with resolution labels", async () => {
+    const dto = toVideoDto(await videoProvider.getById("4057411"), format({}));
+
+    expect(dto).toMatchObject({
+      id: "4057411",
+      title: "City lights at night",
+      author: { name: "Luis Gómez", url: "https://www.pexels.com/@luis-gomez" },
+      duration: 24,
+      thumbnail: "https://images.pexels.com/videos/4057411/pictures/preview-0.jpg",
+    });
+    expect(dto.sources.map((source) => [source.quality, source.label, source.width])).toEqual([
+      ["uhd", "4K", 3840],
+      ["hd", "720p", 1280],
+    ]);
+  });
+
+  it("labels portrait videos by their shorter side", async () => {
+    const dto = toVideoDto(await videoProvider.getById("5752729"), format({}));
+
+    expect(dto.sources[0].label).toBe("1080p");
+  });
+
+  it("selects the widest source of the requested quality within maxWidth", async () => {
+    const sea = await videoProvider.getById("3190131");
+    const city = await videoProvider.getById("4057411");
+
+    expect(toVideoDto(sea, format({})).selected?.width).toBe(1920);
+    expect(toVideoDto(sea, format({ quality: "sd" })).selected?.width).toBe(960);
+    expect(toVideoDto(sea, format({ maxWidth: "1280" })).selected?.width).toBe(960);
+    expect(toVideoDto(city, format({ quality: "hd" })).selected?.quality).toBe("uhd");
+    expect(toVideoDto(city, format({ quality: "hd", maxWidth: "1920" })).selected?.width).toBe(1280);
+  });
+
+  it("falls back to any quality within maxWidth, then to the narrowest source", async () => {
+    const city = await videoProvider.getById("4057411");
+
+    expect(toVideoDto(city, format({ quality: "sd", maxWidth: "2000" })).selected?.width).toBe(1280);
+    expect(toVideoDto(city, format({ maxWidth: "640" })).selected?.width).toBe(1280);
+  });
+
+  it("never selects adaptive streams", () => {
+    const video = {
+      id: 1,
+      video_files: [
+        { quality: "hls", width: 1920, height: 1080, link: "https://example.com/playlist.m3u8" },
+        { quality: "sd", width: 640, height: 360, link: "https://example.com/sd.mp4" },
+      ],
+    };
+
+    const dto = toVideoDto(video, format({ quality: "hd" }));
+    expect(dto.sources).toHaveLength(2);
+    expect(dto.selected?.url).toBe("https://example.com/sd.mp4");
+    expect(toVideoDto({ id: 2, video_files: [video.video_files[0]] }, format({})).selected).toBeNull();
+  });
+
+  it("normalizes provider pages", async () => {
+    const page = toVideoPageDto(await videoProvider.search({ query: "nature", per_page: 1 }), format({}));
+
+    expect(page).toMatchObject({ page: 1, perPage: 1, totalResults: 2 });
+    expect(page.videos.map((video: { id: string }) => video.id)).toEqual(["3190131"]);
+  });
+});
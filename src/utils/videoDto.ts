@@ -0,0 +1,185 @@
+/**
+ * @file utils/videoDto.ts
+ * @description Normalized response format of catalog videos: metadata, a sorted list of playable
+ * sources with quality labels, and the source that best fits the requested quality and width.
+ */
+
+import { titleFromVideo } from "./videoCatalog";
+
+/**
+ * Quality preferences accepted by `?quality=`.
+ */
+export const VIDEO_QUALITIES = ["auto", "hd", "sd"] as const;
+
+export type VideoQuality = typeof VIDEO_QUALITIES[number];
+
+/**
+ * Output options of the video endpoints.
+ *
+ * @property {boolean} raw - Return the provider payload untouched (`?raw=true`).
+ * @property {VideoQuality} quality - Preferred quality of the selected source (`?quality=`, default `auto`).
+ * @property {number} [maxWidth] - Widest source acceptable for the selection (`?maxWidth=`).
+ */
+export interface VideoFormatOptions {
+  raw: boolean;
+  quality: VideoQuality;
+  maxWidth?: number;
+}
+
+/**
+ * A playable file of a video.
+ *
+ * @property {string} quality - Provider quality (`uhd`, `hd`, `sd`, ...).
+ * @property {string} label - Human label from the resolution, e.g. `1080p` or `4K`.
+ * @property {string} type - MIME type.
+ * @property {number} width - Width in pixels.
+ * @property {number} height - Height in pixels.
+ * @property {number} [fps] - Frames per second.
+ * @property {string} url - File URL.
+ */
+export interface VideoSource {
+  quality: string;
+  label: string;
+  type: string;
+  width: number;
+  height: number;
+  fps?: number;
+  url: string;
+}
+
+/**
+ * Reads the output options from the query string.
+ *
+ * @param {Record<string, unknown>} query - `req.query`.
+ * @returns {VideoFormatOptions | string} The options, or a message explaining why they are invalid.
+ *
+ * @example
+ * parseVideoFormat({ quality: "hd", maxWidth: "1280" }); // { raw: false, quality: "hd", maxWidth: 1280 }
+ */
+export function parseVideoFormat(query: Record<string, unknown>): VideoFormatOptions | string {
+  const raw = query.raw === undefined ? "false" : String(query.raw);
+  if (raw !== "true" && raw !== "false") {
+    return "raw must be true or false";
+  }
+
+  const quality = String(query.quality ?? "auto").toLowerCase();
+  if (!VIDEO_QUALITIES.includes(quality as VideoQuality)) {
+    return `quality must be one of: ${VIDEO_QUALITIES.join(", ")}`;
+  }
+
+  let maxWidth: number | undefined;
+  if (query.maxWidth !== undefined) {
+    maxWidth = Number(query.maxWidth);
+    if (!Number.isInteger(maxWidth) || maxWidth < 1) {
+      return "maxWidth must be a positive integer";
+    }
+  }
+
+  return { raw: raw === "true", quality: quality as VideoQuality, maxWidth };
+}
+
+/**
+ * Builds the label of a resolution from its shorter side (so portrait videos get the same labels).
+ *
+ * @param {number} width - Width in pixels.
+ * @param {number} height - Height in pixels.
+ * @returns {string} `4K`, `1440p`, `1080p`, `720p`, ... or `unknown`.
+ */
+function resolutionLabel(width: number, height: number): string {
+  const side = Math.min(width || 0, height || 0);
+  if (!side) return "unknown";
+  if (side >= 2160) return "4K";
+  return `${side}p`;
+}
+
+/**
+ * Lists the playable files of a provider video, widest first (higher frame rate first on ties).
+ *
+ * @param {any} video - Video in the provider (Pexels) format.
+ * @returns {VideoSource[]} The sources.
+ */
+function toSources(video: any): VideoSource[] {
+  return (Array.isArray(video.video_files) ? video.video_files : [])
+    .filter((file: any) => file?.link)
+    .map((file: any) => ({
+      quality: String(file.quality || "unknown"),
+      label: resolutionLabel(file.width, file.height),
+      type: file.file_type || "video/mp4",
+      width: file.width || 0,
+      height: file.height || 0,
+      fps: file.fps ? Math.round(file.fps * 100) / 100 : undefined,
+      url: file.link,
+    }))
+    .sort((a: VideoSource, b: VideoSource) => b.width - a.width || (b.fps || 0) - (a.fps || 0));
+}
+
+/**
+ * Picks the source that best fits the requested quality and width.
+ *
+ * @param {VideoSource[]} sources - Sources, widest first.
+ * @param {VideoQuality} quality - `hd` (HD or better), `sd`, or `auto` (any).
+ * @param {number} [maxWidth] - Widest acceptable source.
+ * @returns {VideoSource | null} The widest source matching both; when none does, the widest one
+ *   within `maxWidth` of any quality, then the narrowest source. `null` if there are no sources.
+ * @remarks
+ * - Adaptive streams (`hls`) are never selected; they stay listed in `sources`.
+ */
+function selectSource(sources: VideoSource[], quality: VideoQuality, maxWidth?: number): VideoSource | null {
+  const files = sources.filter((source) => source.quality !== "hls");
+  if (files.length === 0) return null;
+
+  const fits = (source: VideoSource) => maxWidth === undefined || source.width <= maxWidth;
+  const matchesQuality = (source: VideoSource) =>
+    quality === "auto" || (quality === "hd" ? ["hd", "uhd"].includes(source.quality) : source.quality === "sd");
+
+  return (
+    files.find((source) => matchesQuality(source) && fits(source)) ||
+    files.find(fits) ||
+    files[files.length - 1]
+  );
+}
+
+/**
+ * Normalizes a provider video.
+ *
+ * @param {any} video - Video in the provider (Pexels) format.
+ * @param {VideoFormatOptions} options - Quality and width preferences.
+ * @returns {Object} `{ id, title, author: { name, url }, duration, width, height, url, thumbnail,
+ *   poster, sources, selected }`.
+ */
+export function toVideoDto(video: any, options: VideoFormatOptions) {
+  const pictures = Array.isArray(video.video_pictures)
+    ? [...video.video_pictures].sort((a: any, b: any) => (a.nr ?? 0) - (b.nr ?? 0))
+    : [];
+  const sources = toSources(video);
+
+  return {
+    id: String(video.id),
+    title: titleFromVideo(video),
+    author: { name: video.user?.name || "Pexels", url: video.user?.url },
+    duration: video.duration,
+    width: video.width,
+    height: video.height,
+    url: video.url,
+    thumbnail: pictures[0]?.picture || video.image,
+    poster: video.image || pictures[0]?.picture,
+    sources,
+    selected: selectSource(sources, options.quality, options.maxWidth),
+  };
+}
+
+/**
+ * Normalizes a page of provider videos.
+ *
+ * @param {any} data - Page in the provider (Pexels) format.
+ * @param {VideoFormatOptions} options - Quality and width preferences.
+ * @returns {Object} `{ page, perPage, totalResults, videos }`.
+ */
+export function toVideoPageDto(data: any, options: VideoFormatOptions) {
+  return {
+    page: data.page,
+    perPage: data.per_page,
+    totalResults: data.total_results,
+    videos: (data.videos || []).map((video: any) => toVideoDto(video, options)),
+  };
+}
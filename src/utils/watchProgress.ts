@@ -0,0 +1,31 @@
+/**
+ * @file utils/watchProgress.ts
+ * @description Helpers for the `watched` filter shared by the movies and Pexels controllers.
+ */
+
+import WatchProgress from "../models/watchProgress.model";
+
+/**
+ * Parses the `watched` query parameter.
+ *
+ * @param {unknown} value - Raw `req.query.watched`.
+ * @returns {boolean | undefined | null} `true`/`false` to filter, `undefined` when absent, and
+ *   `null` for an invalid value (the caller should answer 400).
+ */
+export function parseWatchedFilter(value: unknown): boolean | undefined | null {
+  if (value === undefined) return undefined;
+  if (value === "true") return true;
+  if (value === "false") return false;
+  return null;
+}
+
+/**
+ * Lists the Pexels IDs of the videos a user has completed.
+ *
+ * @async
+ * @param {any} userId - User id.
+ * @returns {Promise<string[]>} Pexels IDs marked as completed.
+ */
+export async function getWatchedPexelsIds(userId: any): Promise<string[]> {
+  return WatchProgress.distinct("pexelsId", { userId, completed: true });
+}